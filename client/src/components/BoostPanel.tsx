@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useGame } from '@/contexts/GameContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -6,16 +7,23 @@ import { Card, CardHeader, CardContent, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Rocket, Gem, Zap, Heart, Clock, Star } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { safeStringify, debugJSON } from '@/utils/safeJson';
+import { apiRequest } from '@/lib/queryClient';
+import type { BoostConfig } from '@shared/gameConfig';
 
 interface BoostPanelProps {
   isOpen?: boolean;
   onClose?: () => void;
 }
 
+interface BoostsResponse {
+  boosts: BoostConfig[];
+  active: { boostId: string | null; multiplier: number; expiresAt: string | null };
+}
+
 export default function BoostPanel({ isOpen, onClose }: BoostPanelProps) {
-  const { state } = useGame();
+  const { state, dispatch } = useGame();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [internalOpen, setInternalOpen] = useState(false);
 
@@ -29,46 +37,19 @@ export default function BoostPanel({ isOpen, onClose }: BoostPanelProps) {
     }
   };
 
-  const boostOptions = [
-    { 
-      id: 'energy_2x', 
-      name: '2x Energy Refill', 
-      cost: 10, 
-      duration: 60, // minutes
-      effect: 'double_energy_regen',
-      description: 'Double energy regeneration for 1 hour',
-      icon: '⚡'
-    },
-    { 
-      id: 'points_3x', 
-      name: '3x Points Boost', 
-      cost: 25, 
-      duration: 30,
-      effect: 'triple_points',
-      description: '3x points from tapping for 30 minutes',
-      icon: '💖'
-    },
-    { 
-      id: 'energy_instant', 
-      name: 'Instant Energy Refill', 
-      cost: 50, 
-      duration: 0, // instant
-      effect: 'instant_energy_refill',
-      description: 'Instantly restore all energy',
-      icon: '⚡'
-    },
-    { 
-      id: 'mega_boost', 
-      name: '5x Mega Boost', 
-      cost: 100, 
-      duration: 15,
-      effect: 'mega_boost',
-      description: '5x points and energy for 15 minutes',
-      icon: '🚀'
-    }
-  ];
+  // Boost definitions live in progressive-data/boosts and are served by the API
+  const { data: boostData, isLoading: boostsLoading } = useQuery<BoostsResponse>({
+    queryKey: ['/api/boosts'],
+    enabled: dialogOpen,
+    staleTime: 0
+  });
+  const boostOptions = boostData?.boosts || [];
+  const activeBoost = boostData?.active;
+  const hasTimedBoost = !!activeBoost && activeBoost.multiplier > 1;
+
+  const isTimed = (boost: BoostConfig) => boost.durationMinutes > 0 && (boost.multiplier || 1) > 1;
 
-  const purchaseBoost = async (boost: typeof boostOptions[0]) => {
+  const purchaseBoost = async (boost: BoostConfig) => {
     if ((state.lustGems || 0) < boost.cost) {
       toast({
         title: 'Not enough LustGems!',
@@ -80,41 +61,20 @@ export default function BoostPanel({ isOpen, onClose }: BoostPanelProps) {
 
     setLoading(true);
     try {
-      const requestData = {
-        boostId: boost.id,
-        cost: boost.cost,
-        effect: boost.effect,
-        duration: boost.duration,
-        multiplier: boost.id === 'points_3x' ? 3 : boost.id === 'mega_boost' ? 5 : 2
-      };
-      
-      debugJSON(requestData, 'BOOST PURCHASE REQUEST');
-      
-      const response = await fetch('/api/admin/boost', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('sessionToken')}`
-        },
-        body: safeStringify({ action: 'enable', ...requestData })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to purchase boost: ${errorText}`);
-      }
-
+      const response = await apiRequest('POST', `/api/player/boosts/${boost.id}/activate`);
       const result = await response.json();
-      debugJSON(result, 'BOOST PURCHASE RESPONSE');
       
       toast({
         title: '🚀 Boost Activated!',
-        description: `${boost.name} is now active${boost.duration > 0 ? ` for ${boost.duration} minutes` : ''}.`,
+        description: result.activation?.expiresAt
+          ? `${boost.name} is now active for ${boost.durationMinutes} minutes.`
+          : `${boost.name} applied.`,
       });
       
-      // Refresh the page to update state
-      window.location.reload();
-    } catch (error) {
+      // Server state is authoritative - pull the new gems/energy/boost fields instead of reloading the page
+      dispatch({ type: 'REFRESH_FROM_SERVER' });
+      await queryClient.invalidateQueries({ queryKey: ['/api/boosts'] });
+    } catch (error: any) {
       console.error('🔥 Boost purchase error:', error);
       toast({
         title: 'Boost Purchase Failed',
@@ -138,37 +98,47 @@ export default function BoostPanel({ isOpen, onClose }: BoostPanelProps) {
         </div>
       </DialogHeader>
       
+      {hasTimedBoost && activeBoost?.expiresAt && (
+        <div className="flex items-center gap-2 rounded-lg border border-orange-500/50 bg-orange-500/10 px-3 py-2 text-sm text-orange-300">
+          <Zap className="w-4 h-4" />
+          <span>
+            {activeBoost.multiplier}x boost active - {Math.max(0, Math.ceil((new Date(activeBoost.expiresAt).getTime() - Date.now()) / 60000))}m left
+          </span>
+        </div>
+      )}
+
       <div className="space-y-3 max-h-[500px] overflow-y-auto">
+        {boostsLoading && (
+          <div className="text-center text-sm text-gray-400 py-6">Loading boosts...</div>
+        )}
+        {!boostsLoading && boostOptions.length === 0 && (
+          <div className="text-center text-sm text-gray-400 py-6">No boosts available right now.</div>
+        )}
         {boostOptions.map((boost) => {
           const canAfford = (state.lustGems || 0) >= boost.cost;
+          const blockedByActive = hasTimedBoost && isTimed(boost);
           
           return (
             <Card key={boost.id} className={`${canAfford ? 'border-orange-500/50' : 'border-gray-600 opacity-60'}`}>
               <CardHeader className="pb-3">
                 <div className="flex justify-between items-start">
                   <div className="flex items-center gap-3">
-                    <span className="text-2xl">{boost.icon}</span>
+                    <span className="text-2xl">{boost.icon || '🚀'}</span>
                     <div>
                       <CardTitle className="text-lg text-white">{boost.name}</CardTitle>
                       <p className="text-sm text-gray-400 mt-1">{boost.description}</p>
                       <div className="flex gap-2 mt-2">
-                        {boost.duration > 0 && (
+                        {isTimed(boost) && (
                           <Badge variant="outline" className="text-xs flex items-center gap-1">
                             <Clock className="w-3 h-3" />
-                            {boost.duration}min
+                            {boost.durationMinutes}min
                           </Badge>
                         )}
-                        {boost.effect === 'triple_points' && (
-                          <Badge className="text-xs bg-pink-600">3x Points</Badge>
-                        )}
-                        {boost.effect === 'double_energy_regen' && (
-                          <Badge className="text-xs bg-green-600">2x Energy</Badge>
+                        {isTimed(boost) && (
+                          <Badge className="text-xs bg-pink-600">{boost.multiplier}x Points</Badge>
                         )}
-                        {boost.effect === 'mega_boost' && (
-                          <Badge className="text-xs bg-purple-600">5x Everything</Badge>
-                        )}
-                        {boost.effect === 'instant_energy_refill' && (
-                          <Badge className="text-xs bg-cyan-600">Instant</Badge>
+                        {boost.energyRefill && (
+                          <Badge className="text-xs bg-cyan-600">Instant Energy</Badge>
                         )}
                       </div>
                     </div>
@@ -177,9 +147,9 @@ export default function BoostPanel({ isOpen, onClose }: BoostPanelProps) {
                   <div className="text-right">
                     <Button
                       onClick={() => purchaseBoost(boost)}
-                      disabled={!canAfford || loading}
+                      disabled={!canAfford || loading || blockedByActive}
                       className={`${
-                        canAfford 
+                        canAfford && !blockedByActive
                           ? 'bg-blue-600 hover:bg-blue-700 text-white' 
                           : 'bg-gray-600 text-gray-400 cursor-not-allowed'
                       }`}
@@ -194,6 +164,11 @@ export default function BoostPanel({ isOpen, onClose }: BoostPanelProps) {
                         Need {boost.cost - (state.lustGems || 0)} more
                       </div>
                     )}
+                    {canAfford && blockedByActive && (
+                      <div className="text-xs text-orange-400 mt-1">
+                        Boost already active
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardHeader>
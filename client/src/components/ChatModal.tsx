@@ -9,6 +9,7 @@ export type ChatMessage = {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
+  imageUrl?: string;
 };
 
 // Sanitize input to prevent ByteString encoding errors
@@ -37,6 +38,27 @@ export default function ChatModal({ isOpen, onClose }: { isOpen: boolean; onClos
     enabled: !!state?.selectedCharacterId,
   });
 
+  // Server keeps the conversation per character - restore it when the modal opens
+  const { data: history } = useQuery({
+    queryKey: ['/api/ai/chat/history', state?.selectedCharacterId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/ai/chat/history?characterId=${encodeURIComponent(state!.selectedCharacterId)}`);
+      return await response.json() as { messages: { role: 'user' | 'assistant'; content: string; timestamp: string; image?: { url: string } }[] };
+    },
+    enabled: isOpen && !!state?.selectedCharacterId,
+  });
+
+  useEffect(() => {
+    if (!history) return;
+    setMessages(history.messages.map(m => ({
+      id: crypto.randomUUID(),
+      role: m.role,
+      content: m.content,
+      timestamp: new Date(m.timestamp).getTime(),
+      imageUrl: m.image?.url
+    })));
+  }, [history]);
+
   useEffect(() => {
     if (isOpen && scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -78,15 +100,19 @@ export default function ChatModal({ isOpen, onClose }: { isOpen: boolean; onClos
         }),
       });
 
-      if (res.headers.get('content-type')?.includes('text/event-stream')) {
-        // SSE streaming response
+      const contentType = res.headers.get('content-type') || '';
+      if (res.ok && (contentType.includes('text/event-stream') || contentType.includes('text/plain'))) {
+        // Chunked streaming response - each chunk is raw reply text
         const reader = res.body!.getReader();
         const decoder = new TextDecoder('utf-8');
+        // The character may attach one of her chat images - announced in a header before the text streams
+        const imageHeader = res.headers.get('x-chat-image');
         let assistant: ChatMessage = { 
           id: crypto.randomUUID(), 
           role: 'assistant', 
           content: "", 
-          timestamp: Date.now() 
+          timestamp: Date.now(),
+          imageUrl: imageHeader ? decodeURI(imageHeader) : undefined
         };
         setMessages(prev => [...prev, assistant]);
 
@@ -107,6 +133,15 @@ export default function ChatModal({ isOpen, onClose }: { isOpen: boolean; onClos
           timestamp: Date.now() 
         };
         setMessages(prev => [...prev, assistant]);
+      } else if (res.status === 429) {
+        // Rate limited - tell the player instead of the generic fallback
+        const data = await res.json().catch(() => ({}));
+        setMessages(prev => [...prev, {
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: data.error || 'Too many messages, slow down a little',
+          timestamp: Date.now()
+        }]);
       } else {
         throw new Error(`Server responded with ${res.status}`);
       }
@@ -189,6 +224,13 @@ export default function ChatModal({ isOpen, onClose }: { isOpen: boolean; onClos
                   ? 'bg-purple-600 text-white' 
                   : 'bg-black/40 text-gray-200 border border-purple-500/20'
               }`}>
+                {m.imageUrl && (
+                  <img
+                    src={m.imageUrl}
+                    alt=""
+                    className="mb-2 max-h-64 rounded-xl border border-purple-500/30 object-cover"
+                  />
+                )}
                 {m.content}
               </div>
               <div className="text-xs text-gray-500 mt-1 px-1">
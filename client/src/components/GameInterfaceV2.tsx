@@ -1,18 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import GameLayout from '@/components/GameLayout';
 import { useGame } from '@/contexts/GameContext';
 import { apiRequest } from '@/lib/queryClient';
+import { useSignedMediaUrl } from '@/hooks/use-signed-media';
 import { User, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import MenuCore from '@/components/menu-core/MenuCore';
 import AdminMenuCore from '@/components/adminmenu-core/AdminMenuCore';
+import { ROLE_CAPABILITIES } from '@shared/permissions';
 
 export default function GameInterfaceV2() {
-  const { state, tap } = useGame();
+  const { state, tap, critHits } = useGame();
   const [showDebugger, setShowDebugger] = useState(false);
   const [showAdminPanel, setShowAdminPanel] = useState(false);
-  const [tapEffects, setTapEffects] = useState<Array<{id: string, x: number, y: number, value: number}>>([]);
+  const [tapEffects, setTapEffects] = useState<Array<{id: string, x: number, y: number, value: number, crit?: boolean}>>([]);
+  // Where each pending tap landed, so crits confirmed by the server can pop up in the same spot
+  const tapPositionsRef = useRef<Map<number, { x: number, y: number }>>(new Map());
+  const canOpenAdminPanel = !!state?.isAdmin || ROLE_CAPABILITIES[state?.role || 'player'].length > 0;
 
   const { data: currentCharacter } = useQuery({
     queryKey: ['/api/characters', state?.selectedCharacterId],
@@ -40,16 +45,32 @@ export default function GameInterfaceV2() {
     const id = crypto.randomUUID();
     setTapEffects(p => [...p, { id, x, y, value: val }]);
     setTimeout(() => setTapEffects(p => p.filter(e => e.id !== id)), 2000);
-    tap();
+    const timestamp = tap();
+    if (timestamp !== null) {
+      tapPositionsRef.current.set(timestamp, { x, y });
+      setTimeout(() => tapPositionsRef.current.delete(timestamp), 10000);
+    }
   };
 
+  useEffect(() => {
+    if (critHits.length === 0) return;
+    const effects = critHits.flatMap(hit => {
+      const pos = tapPositionsRef.current.get(hit.timestamp);
+      return pos ? [{ id: crypto.randomUUID(), x: pos.x, y: pos.y - 24, value: hit.value, crit: true }] : [];
+    });
+    if (effects.length === 0) return;
+    const ids = new Set<string>(effects.map(e => e.id));
+    setTapEffects(p => [...p, ...effects]);
+    setTimeout(() => setTapEffects(p => p.filter(e => !ids.has(e.id))), 2000);
+  }, [critHits]);
+
   const getCharacterImage = () => {
     if (state?.displayImage) return state.displayImage;
     if (currentCharacter?.defaultImage) return currentCharacter.defaultImage.startsWith('/') ? currentCharacter.defaultImage : `/uploads/${currentCharacter.defaultImage}`;
     return null;
   };
 
-  const charImg = getCharacterImage();
+  const charImg = useSignedMediaUrl(getCharacterImage());
 
   return (
     <GameLayout>
@@ -106,7 +127,7 @@ export default function GameInterfaceV2() {
             {tapEffects.map(ef => (
               <div 
                 key={ef.id} 
-                className={`absolute pointer-events-none font-bold text-xl z-10 ${state?.boostActive?'text-orange-400':'text-green-400'}`} 
+                className={`absolute pointer-events-none font-bold z-10 ${ef.crit?'text-2xl text-yellow-300':`text-xl ${state?.boostActive?'text-orange-400':'text-green-400'}`}`} 
                 style={{
                   left:`${ef.x}px`,
                   top:`${ef.y}px`,
@@ -114,15 +135,15 @@ export default function GameInterfaceV2() {
                   animation:'float-up 2s ease-out forwards'
                 }}
               >
-                +{Math.round(ef.value)}{state?.boostActive?' ⚡':''}
+                +{Math.round(ef.value)}{ef.crit?' CRIT!':state?.boostActive?' ⚡':''}
               </div>
             ))}
           </div>
         </div>
       </div>
 
-      {/* Settings Button */}
-      {state?.isAdmin && (
+      {/* Settings Button - artists/moderators get the panel with only their media tabs */}
+      {canOpenAdminPanel && (
         <button
           onClick={() => setShowAdminPanel(true)}
           className="fixed bottom-24 right-6 z-40 w-14 h-14 bg-gradient-to-br from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 rounded-full shadow-lg flex items-center justify-center transition-all hover:scale-110 active:scale-95"
@@ -133,7 +154,7 @@ export default function GameInterfaceV2() {
       )}
 
       {/* Admin Panel Modal */}
-      {state?.isAdmin && (
+      {canOpenAdminPanel && (
         <AdminMenuCore 
           isOpen={showAdminPanel} 
           onClose={() => setShowAdminPanel(false)} 
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useGame } from '@/contexts/GameContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Gem, Gift, Heart, Clock, Image as ImageIcon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { GiftConfig, GiftEffectSummary } from '@shared/gameConfig';
+
+interface GiftPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  characterId: string;
+  characterName: string;
+}
+
+interface GiftsResponse {
+  gifts: GiftConfig[];
+  inventory: Record<string, number>;
+  characterBoosts: Record<string, { giftId: string; multiplier: number; expiresAt: string }>;
+}
+
+const describeGiftResult = (result: GiftEffectSummary) => {
+  const parts: string[] = [];
+  if (result.affectionGained > 0) parts.push(`+${result.affectionGained} affection`);
+  if (result.tapMultiplier) parts.push(`${result.tapMultiplier}x taps`);
+  if (result.imageUnlocked) parts.push('new image unlocked');
+  return parts.length > 0 ? parts.join(', ') : result.skipped.join(', ');
+};
+
+export default function GiftPanel({ isOpen, onClose, characterId, characterName }: GiftPanelProps) {
+  const { state, dispatch } = useGame();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [loading, setLoading] = useState(false);
+
+  // Gift definitions live in progressive-data/gifts; inventory and running multipliers come with them
+  const { data: giftData, isLoading: giftsLoading } = useQuery<GiftsResponse>({
+    queryKey: ['/api/gifts'],
+    enabled: isOpen,
+    staleTime: 0
+  });
+  const giftOptions = (giftData?.gifts || []).filter(
+    gift => !gift.characterIds || gift.characterIds.length === 0 || gift.characterIds.includes(characterId)
+  );
+  const inventory = giftData?.inventory || {};
+  const activeBoost = giftData?.characterBoosts?.[characterId];
+
+  const refresh = async () => {
+    // Server state is authoritative - pull the new gems/affection instead of patching locally
+    dispatch({ type: 'REFRESH_FROM_SERVER' });
+    await queryClient.invalidateQueries({ queryKey: ['/api/gifts'] });
+    await queryClient.invalidateQueries({ queryKey: ['/api/player/affection'] });
+  };
+
+  const buyGift = async (gift: GiftConfig) => {
+    setLoading(true);
+    try {
+      await apiRequest('POST', `/api/player/gifts/${gift.id}/buy`, { quantity: 1 });
+      toast({ title: `${gift.icon || '🎁'} ${gift.name} bought`, description: 'Added to your gift inventory.' });
+      await refresh();
+    } catch (error: any) {
+      toast({ title: 'Purchase Failed', description: error.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const giveGift = async (gift: GiftConfig) => {
+    setLoading(true);
+    try {
+      const response = await apiRequest('POST', `/api/player/gifts/${gift.id}/give`, { characterId });
+      const result = await response.json();
+      const reached = (result.reachedTiers || []).map((tier: any) => tier.name || `Level ${tier.level}`);
+      toast({
+        title: `💝 ${characterName} loved the ${gift.name}!`,
+        description: [describeGiftResult(result.gift), reached.length > 0 ? `Now: ${reached.join(', ')}` : '']
+          .filter(Boolean)
+          .join(' · ')
+      });
+      await refresh();
+    } catch (error: any) {
+      toast({ title: 'Could not give gift', description: error.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-pink-400 flex items-center gap-2">
+            <Gift className="w-6 h-6" />
+            Gifts for {characterName}
+          </DialogTitle>
+          <div className="flex items-center gap-2 text-sm text-blue-300">
+            <Gem className="w-4 h-4" />
+            <span>Your LustGems: <strong>{(state.lustGems || 0).toLocaleString()}</strong></span>
+          </div>
+        </DialogHeader>
+
+        {activeBoost && (
+          <div className="flex items-center gap-2 rounded-lg border border-pink-500/50 bg-pink-500/10 px-3 py-2 text-sm text-pink-300">
+            <Clock className="w-4 h-4" />
+            <span>
+              {activeBoost.multiplier}x taps with {characterName} - {Math.max(0, Math.ceil((new Date(activeBoost.expiresAt).getTime() - Date.now()) / 60000))}m left
+            </span>
+          </div>
+        )}
+
+        <div className="space-y-3 max-h-[500px] overflow-y-auto">
+          {giftsLoading && (
+            <div className="text-center text-sm text-gray-400 py-6">Loading gifts...</div>
+          )}
+          {!giftsLoading && giftOptions.length === 0 && (
+            <div className="text-center text-sm text-gray-400 py-6">No gifts available for {characterName}.</div>
+          )}
+          {giftOptions.map((gift) => {
+            const owned = inventory[gift.id] || 0;
+            const canAfford = (state.lustGems || 0) >= gift.cost;
+
+            return (
+              <Card key={gift.id} className="border-pink-500/30">
+                <CardHeader className="pb-3">
+                  <div className="flex justify-between items-start">
+                    <div className="flex items-center gap-3">
+                      <span className="text-2xl">{gift.icon || '🎁'}</span>
+                      <div>
+                        <CardTitle className="text-lg text-white">{gift.name}</CardTitle>
+                        <p className="text-sm text-gray-400 mt-1">{gift.description}</p>
+                        <div className="flex gap-2 mt-2">
+                          {(gift.affection || 0) > 0 && (
+                            <Badge className="text-xs bg-rose-600 flex items-center gap-1">
+                              <Heart className="w-3 h-3" />
+                              +{gift.affection}
+                            </Badge>
+                          )}
+                          {(gift.tapMultiplier || 1) > 1 && (gift.durationMinutes || 0) > 0 && (
+                            <Badge variant="outline" className="text-xs flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {gift.tapMultiplier}x taps · {gift.durationMinutes}min
+                            </Badge>
+                          )}
+                          {gift.unlockImageId && (
+                            <Badge className="text-xs bg-green-600 flex items-center gap-1">
+                              <ImageIcon className="w-3 h-3" />
+                              Image
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col items-end gap-2">
+                      <div className="text-xs text-gray-400">Owned: {owned}</div>
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => buyGift(gift)}
+                          disabled={!canAfford || loading}
+                          className={canAfford ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-600 text-gray-400 cursor-not-allowed'}
+                          size="sm"
+                        >
+                          <Gem className="w-4 h-4 mr-1" />
+                          {gift.cost}
+                        </Button>
+                        <Button
+                          onClick={() => giveGift(gift)}
+                          disabled={owned < 1 || loading}
+                          className="bg-pink-600 hover:bg-pink-700 text-white"
+                          size="sm"
+                        >
+                          Give
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </CardHeader>
+              </Card>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
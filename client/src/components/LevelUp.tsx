@@ -4,17 +4,27 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, Lock, TrendingUp, X, Loader2 } from "lucide-react";
+import { CheckCircle, Lock, TrendingUp, X, Loader2, Gem, Sparkles, UserPlus, ArrowUpCircle, Zap, Rocket, Image as ImageIcon } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { RewardSummary } from "@shared/rewards";
 
 interface LevelUpProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Mirrors LevelUpRewardSummary returned by POST /api/player/level-up
+interface LevelUpRewards extends RewardSummary {
+  level: number;
+  pointsSpent: number;
+  upgradeUnlocks: { id: string; name: string }[];
+  unlocks: string[];
+}
+
 export default function LevelUp({ isOpen, onClose }: LevelUpProps) {
   const [isLevelingUp, setIsLevelingUp] = useState(false);
+  const [rewardSummary, setRewardSummary] = useState<LevelUpRewards | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -53,6 +63,53 @@ export default function LevelUp({ isOpen, onClose }: LevelUpProps) {
     enabled: isOpen
   });
 
+  const handleClose = () => {
+    setRewardSummary(null);
+    onClose();
+  };
+
+  if (rewardSummary) {
+    const rewardRows = [
+      rewardSummary.lustPoints > 0 && { key: 'lp', icon: <Sparkles className="w-4 h-4 text-pink-400" />, label: `+${rewardSummary.lustPoints.toLocaleString()} Lust Points` },
+      rewardSummary.lustGems > 0 && { key: 'lg', icon: <Gem className="w-4 h-4 text-cyan-400" />, label: `+${rewardSummary.lustGems.toLocaleString()} Lust Gems` },
+      ...rewardSummary.characterUnlocks.map(c => ({ key: `char-${c.id}`, icon: <UserPlus className="w-4 h-4 text-yellow-400" />, label: `New character: ${c.name}` })),
+      ...rewardSummary.upgradeUnlocks.map(u => ({ key: `upg-${u.id}`, icon: <ArrowUpCircle className="w-4 h-4 text-green-400" />, label: `Upgrade unlocked: ${u.name}` })),
+      rewardSummary.energy > 0 && { key: 'energy', icon: <Zap className="w-4 h-4 text-yellow-300" />, label: `+${rewardSummary.energy.toLocaleString()} Energy` },
+      ...(rewardSummary.boosts || []).map(b => ({ key: `boost-${b.id}`, icon: <Rocket className="w-4 h-4 text-orange-400" />, label: `${b.name} (${b.multiplier}x) active` })),
+      (rewardSummary.imageUnlocks || []).length > 0 && { key: 'images', icon: <ImageIcon className="w-4 h-4 text-purple-300" />, label: `${rewardSummary.imageUnlocks.length} new image${rewardSummary.imageUnlocks.length === 1 ? '' : 's'} unlocked` },
+    ].filter(Boolean) as { key: string; icon: JSX.Element; label: string }[];
+
+    return (
+      <Dialog open={isOpen} onOpenChange={handleClose}>
+        <DialogContent className="max-w-md bg-gray-900/95 backdrop-blur-lg text-white border-purple-500/50">
+          <DialogHeader>
+            <DialogTitle className="text-center text-2xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent animate-in zoom-in-50 duration-500">
+              Level {rewardSummary.level}!
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {rewardRows.length === 0 && (
+              <p className="text-center text-gray-400">No rewards configured for this level.</p>
+            )}
+            {rewardRows.map((row, index) => (
+              <div
+                key={row.key}
+                className="flex items-center gap-2 p-2 rounded bg-purple-600/10 animate-in fade-in slide-in-from-bottom-2 fill-mode-both"
+                style={{ animationDelay: `${150 * (index + 1)}ms`, animationDuration: '400ms' }}
+              >
+                {row.icon}
+                <span className="font-semibold">{row.label}</span>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleClose} className="w-full bg-gradient-to-r from-purple-600 to-pink-600">
+            Awesome!
+          </Button>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   if (playerLoading || levelLoading) {
     return (
       <Dialog open={isOpen} onOpenChange={onClose}>
@@ -156,10 +213,14 @@ export default function LevelUp({ isOpen, onClose }: LevelUpProps) {
           description: `Congratulations! You've reached level ${data.newLevel}`,
         });
         
-        // ✅ FIX: Close dialog after a short delay so user sees the success state
-        setTimeout(() => {
-          onClose();
-        }, 500);
+        // Swap the dialog to the reward summary - the player closes it when done
+        if (data.rewards) {
+          setRewardSummary(data.rewards);
+        } else {
+          setTimeout(() => {
+            onClose();
+          }, 500);
+        }
       } else {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to level up');
@@ -10,6 +10,7 @@ import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { describeRewardSummary, getRewardSpec, getRewardTypeInfo, describeReward, type RewardSummary } from '@shared/rewards';
 
 interface TasksAchievementsMenuProps {
   isOpen: boolean;
@@ -24,8 +25,9 @@ interface Task {
   requirementType: string;
   target: number;
   progress: number;
-  rewardType: 'lp' | 'lg' | 'energy';
+  rewardType: string;
   rewardAmount: number;
+  rewardData?: any;
   icon: string;
   isCompleted: boolean;
   isClaimed: boolean;
@@ -40,7 +42,7 @@ interface Achievement {
   requirementType: string;
   target: number;
   progress: number;
-  rewardType: 'lp' | 'lg' | 'character';
+  rewardType: string;
   rewardAmount: number;
   rewardData?: any;
   icon: string;
@@ -60,7 +62,7 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
   const { data: tasksData, isLoading: tasksLoading } = useQuery({
     queryKey: ['/api/tasks'],
     queryFn: async () => {
-      const response = await apiRequest('/api/tasks', { method: 'GET' });
+      const response = await apiRequest('GET', '/api/tasks');
       const data = await response.json();
       return data;
     },
@@ -72,7 +74,7 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
   const { data: achievementsData, isLoading: achievementsLoading } = useQuery({
     queryKey: ['/api/achievements'],
     queryFn: async () => {
-      const response = await apiRequest('/api/achievements', { method: 'GET' });
+      const response = await apiRequest('GET', '/api/achievements');
       const data = await response.json();
       return data;
     },
@@ -83,12 +85,8 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
   // ✅ FIXED: Claim task reward mutation with proper invalidation
   const claimTaskMutation = useMutation({
     mutationFn: async (taskId: string) => {
-      const response = await apiRequest(`/api/tasks/${taskId}/claim`, { method: 'POST' });
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to claim task');
-      }
-      return await response.json();
+      const response = await apiRequest('POST', `/api/tasks/${taskId}/claim`);
+      return await response.json() as { rewards?: RewardSummary };
     },
     onSuccess: async (data, taskId) => {
       console.log(`✅ [TASK CLAIM] Successfully claimed ${taskId}`);
@@ -98,7 +96,7 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
       
       toast({
         title: "Task Completed!",
-        description: "Your reward has been added to your account.",
+        description: data.rewards ? describeRewardSummary(data.rewards) : "Your reward has been added to your account.",
       });
     },
     onError: (error: any) => {
@@ -114,12 +112,8 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
   // ✅ FIXED: Claim achievement reward mutation with proper invalidation
   const claimAchievementMutation = useMutation({
     mutationFn: async (achievementId: string) => {
-      const response = await apiRequest(`/api/achievements/${achievementId}/claim`, { method: 'POST' });
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to claim achievement');
-      }
-      return await response.json();
+      const response = await apiRequest('POST', `/api/achievements/${achievementId}/claim`);
+      return await response.json() as { rewards?: RewardSummary };
     },
     onSuccess: async (data, achievementId) => {
       console.log(`✅ [ACHIEVEMENT CLAIM] Successfully claimed ${achievementId}`);
@@ -129,7 +123,7 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
       
       toast({
         title: "Achievement Unlocked!",
-        description: "Your reward has been added to your account.",
+        description: data.rewards ? describeRewardSummary(data.rewards) : "Your reward has been added to your account.",
       });
     },
     onError: (error: any) => {
@@ -174,15 +168,7 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
     }
   };
 
-  const getRewardIcon = (type: string) => {
-    switch (type) {
-      case 'lp': return '💖';
-      case 'lg': return '💎';
-      case 'energy': return '⚡';
-      case 'character': return '👑';
-      default: return '🎁';
-    }
-  };
+  const getRewardIcon = (type: string) => getRewardTypeInfo(type)?.icon || '🎁';
 
   const tasks: Task[] = tasksData?.tasks || [];
   const achievements: Achievement[] = achievementsData?.achievements || [];
@@ -270,7 +256,7 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
                           <div className="text-right">
                             <div className="flex items-center gap-1 text-sm font-medium">
                               {getRewardIcon(task.rewardType)}
-                              <span>+{task.rewardAmount}</span>
+                              <span>{describeReward(getRewardSpec(task))}</span>
                             </div>
                           </div>
                         </div>
@@ -394,7 +380,7 @@ export default function TasksAchievementsMenuV2({ isOpen, onClose }: TasksAchiev
                           <div className="text-right">
                             <div className="flex items-center gap-1 text-sm font-medium">
                               {getRewardIcon(achievement.rewardType)}
-                              <span>+{achievement.rewardAmount}</span>
+                              <span>{describeReward(getRewardSpec(achievement))}</span>
                             </div>
                             {achievement.rewardData?.specialTitle && (
                               <div className="text-xs text-yellow-300 mt-1">
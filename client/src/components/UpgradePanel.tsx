@@ -21,7 +21,9 @@ export default function UpgradePanel({ isOpen, onClose }: UpgradePanelProps) {
   const { state, upgrades, purchaseUpgrade } = useGame();
   const [activeTab, setActiveTab] = useState('all');
 
-  const filtered = activeTab === 'all' ? upgrades : upgrades.filter(u => u.type === activeTab);
+  // Crit upgrades only affect taps, so they live under the Tap tab
+  const tabOf = (type: string) => (type === 'critChance' || type === 'critMultiplier' ? 'perTap' : type);
+  const filtered = activeTab === 'all' ? upgrades : upgrades.filter(u => tabOf(u.type) === activeTab);
   const isLoading = !upgrades; // if undefined during initial mount
 
   return (
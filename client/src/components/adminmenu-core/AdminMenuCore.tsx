@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { X, Wrench, Star, Users, Image, TrendingUp, Trophy, Terminal, Moon } from 'lucide-react';
+import { X, Wrench, Star, Users, Image, TrendingUp, Trophy, Terminal, Moon, Rocket, Gift, Shield, Archive } from 'lucide-react';
+import { useGame } from '@/contexts/GameContext';
+import { hasCapability, ROLE_LABELS, type Capability } from '@shared/permissions';
 
 // Import module managers
 import UpgradesManager from './upgrades/UpgradesCore';
@@ -7,36 +9,48 @@ import LevelupManager from './levelup/LevelupCore';
 import CharactersManager from './characters/CharactersCore';
 import AchievementsManager from './achievements/AchievementsCore';
 import TasksManager from './tasks/TasksCore';
+import BoostsManager from './boosts/BoostsCore';
+import GiftsManager from './gifts/GiftsCore';
 import ImageManager from './imageuploader/ImageUploaderCore';
 import CharacterGallery from './character-gallery/CharacterGalleryCore';
 import DevToolsManager from './devtools/DevToolsCore';
+import PlayersManager from './players/PlayersCore';
+import MediaCleanupManager from './mediacleanup/MediaCleanupCore';
 
 interface AdminMenuCoreProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type TabType = 'upgrades' | 'characters' | 'levels' | 'images' | 'gallery' | 'tasks' | 'achievements' | 'devtools';
+type TabType = 'upgrades' | 'characters' | 'levels' | 'images' | 'gallery' | 'tasks' | 'achievements' | 'boosts' | 'gifts' | 'players' | 'cleanup' | 'devtools';
 
 /**
  * AdminMenuCore - Central admin panel management system
- * Coordinates all admin modules + Character Gallery + Luna DevTools
+ * Coordinates all admin modules + Character Gallery + Luna DevTools.
+ * Non-admin roles only see the tabs their capabilities allow (e.g. artists get the media tabs).
  */
 export default function AdminMenuCore({ isOpen, onClose }: AdminMenuCoreProps) {
-  const [activeTab, setActiveTab] = useState<TabType>('upgrades');
+  const { state } = useGame();
+  const [activeTab, setActiveTab] = useState<TabType | null>(null);
 
   if (!isOpen) return null;
 
-  const tabs = [
+  const allTabs: { id: TabType; label: string; icon: typeof Wrench; color: string; capability?: Capability }[] = [
     { id: 'upgrades' as TabType, label: 'Upgrades', icon: Wrench, color: 'purple' },
     { id: 'characters' as TabType, label: 'Characters', icon: Users, color: 'blue' },
     { id: 'levels' as TabType, label: 'Levels', icon: Star, color: 'yellow' },
-    { id: 'images' as TabType, label: 'Upload', icon: Image, color: 'green' },
-    { id: 'gallery' as TabType, label: '🖼️ Gallery', icon: Image, color: 'pink' },
+    { id: 'images' as TabType, label: 'Upload', icon: Image, color: 'green', capability: 'media:upload' },
+    { id: 'gallery' as TabType, label: '🖼️ Gallery', icon: Image, color: 'pink', capability: 'media:edit' },
     { id: 'tasks' as TabType, label: 'Tasks', icon: TrendingUp, color: 'orange' },
     { id: 'achievements' as TabType, label: 'Achievements', icon: Trophy, color: 'pink' },
+    { id: 'boosts' as TabType, label: 'Boosts', icon: Rocket, color: 'orange' },
+    { id: 'gifts' as TabType, label: 'Gifts', icon: Gift, color: 'pink' },
+    { id: 'players' as TabType, label: 'Players', icon: Shield, color: 'yellow' },
+    { id: 'cleanup' as TabType, label: 'Cleanup', icon: Archive, color: 'red' },
     { id: 'devtools' as TabType, label: '🌙 Luna', icon: Moon, color: 'indigo' },
   ];
+  const tabs = state.isAdmin ? allTabs : allTabs.filter(tab => tab.capability && hasCapability(state, tab.capability));
+  const currentTab = tabs.find(t => t.id === activeTab)?.id ?? tabs[0]?.id;
 
   return (
     <div 
@@ -51,7 +65,7 @@ export default function AdminMenuCore({ isOpen, onClose }: AdminMenuCoreProps) {
               <Wrench className="w-6 h-6 text-white" />
             </div>
             <div>
-              <h2 className="text-xl font-bold text-white">Admin Panel</h2>
+              <h2 className="text-xl font-bold text-white">{state.isAdmin ? 'Admin Panel' : `${ROLE_LABELS[state.role]} Tools`}</h2>
               <p className="text-xs text-gray-400">Manage game configuration, players, and content</p>
             </div>
           </div>
@@ -78,7 +92,7 @@ export default function AdminMenuCore({ isOpen, onClose }: AdminMenuCoreProps) {
               }}
               style={{ pointerEvents: 'auto', cursor: 'pointer' }}
               className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all whitespace-nowrap relative ${
-                activeTab === id
+                currentTab === id
                   ? 'bg-purple-600 text-white shadow-lg scale-105'
                   : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white hover:scale-102'
               }`}
@@ -91,14 +105,18 @@ export default function AdminMenuCore({ isOpen, onClose }: AdminMenuCoreProps) {
 
         {/* Content Area */}
         <div className="flex-1 overflow-y-auto p-6">
-          {activeTab === 'upgrades' && <UpgradesManager />}
-          {activeTab === 'characters' && <CharactersManager />}
-          {activeTab === 'levels' && <LevelupManager />}
-          {activeTab === 'images' && <ImageManager />}
-          {activeTab === 'gallery' && <CharacterGallery />}
-          {activeTab === 'tasks' && <TasksManager />}
-          {activeTab === 'achievements' && <AchievementsManager />}
-          {activeTab === 'devtools' && <DevToolsManager />}
+          {currentTab === 'upgrades' && <UpgradesManager />}
+          {currentTab === 'characters' && <CharactersManager />}
+          {currentTab === 'levels' && <LevelupManager />}
+          {currentTab === 'images' && <ImageManager />}
+          {currentTab === 'gallery' && <CharacterGallery />}
+          {currentTab === 'tasks' && <TasksManager />}
+          {currentTab === 'achievements' && <AchievementsManager />}
+          {currentTab === 'boosts' && <BoostsManager />}
+          {currentTab === 'gifts' && <GiftsManager />}
+          {currentTab === 'players' && <PlayersManager />}
+          {currentTab === 'cleanup' && <MediaCleanupManager />}
+          {currentTab === 'devtools' && <DevToolsManager />}
         </div>
 
         {/* Footer */}
@@ -109,7 +127,7 @@ export default function AdminMenuCore({ isOpen, onClose }: AdminMenuCoreProps) {
               <span className="text-xs text-gray-400">System Active</span>
             </div>
             <span className="text-xs text-gray-500">
-              Current: {tabs.find(t => t.id === activeTab)?.label}
+              Current: {tabs.find(t => t.id === currentTab)?.label}
             </span>
           </div>
           <button
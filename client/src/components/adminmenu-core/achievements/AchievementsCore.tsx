@@ -3,6 +3,7 @@ import { Plus, Edit, Trash2, Trophy } from 'lucide-react';
 import AchievementsEdit from './AchievementsEdit';
 import AchievementsCreate from './AchievementsCreate';
 import { apiRequest } from '@/lib/queryClient';
+import { describeReward, getRewardSpec } from '@shared/rewards';
 
 interface Achievement {
   id: string;
@@ -12,6 +13,7 @@ interface Achievement {
   target?: number;
   rewardType?: string;
   rewardAmount?: number;
+  rewardData?: Record<string, any> | null;
   icon?: string;
 }
 
@@ -104,7 +106,7 @@ export default function AchievementsCore() {
                   {achievement.requirementType || 'Custom'}: {achievement.target || 0}
                 </span>
                 <span className="bg-yellow-900/30 text-yellow-300 px-2 py-0.5 rounded">
-                  🎯 {achievement.rewardAmount || 0} {(achievement.rewardType?.toUpperCase() || 'LP')}
+                  🎯 {describeReward(getRewardSpec(achievement))}
                 </span>
               </div>
               <div className="flex gap-2">
@@ -1,15 +1,15 @@
 import React, { useState } from 'react';
 import { Plus, X } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import RequirementEditor from '../requirements/RequirementEditor';
+import RewardEditor from '../rewards/RewardEditor';
+import { toRequirementFields, type RequirementNode } from '@shared/requirements';
+import { toRewardFields, type RewardSpec } from '@shared/rewards';
 
 interface AchievementFormData {
   id: string;
   name: string;
   description: string;
-  requirementType: string;
-  target: number;
-  rewardType: string;
-  rewardAmount: number;
   icon: string;
 }
 
@@ -23,12 +23,10 @@ export default function AchievementsCreate({ onSave, onCancel }: AchievementsCre
     id: '',
     name: '',
     description: '',
-    requirementType: 'lpTotal',
-    target: 1000,
-    rewardType: 'lg',
-    rewardAmount: 10,
     icon: '🏆'
   });
+  const [requirement, setRequirement] = useState<RequirementNode>({ type: 'lpTotal', target: 1000 });
+  const [reward, setReward] = useState<RewardSpec>({ type: 'lg', amount: 10 });
   const [saving, setSaving] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -36,17 +34,9 @@ export default function AchievementsCreate({ onSave, onCancel }: AchievementsCre
     setSaving(true);
 
     try {
-      const response = await apiRequest('/api/admin/achievements', {
-        method: 'POST',
-        body: JSON.stringify(formData)
-      });
-      if (response.ok) {
-        alert('Achievement created successfully!');
-        onSave();
-      } else {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create achievement');
-      }
+      await apiRequest('POST', '/api/admin/achievements', { ...formData, ...toRequirementFields(requirement), ...toRewardFields(reward) });
+      alert('Achievement created successfully!');
+      onSave();
     } catch (error: any) {
       console.error('Failed to create achievement:', error);
       alert(error.message || 'Failed to create achievement. Check console for details.');
@@ -80,39 +70,14 @@ export default function AchievementsCreate({ onSave, onCancel }: AchievementsCre
           <textarea value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} placeholder="Earn 1,000,000 LP" className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" rows={2} required />
         </div>
 
-        <div className="grid grid-cols-3 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Icon</label>
-            <input type="text" value={formData.icon} onChange={(e) => setFormData({ ...formData, icon: e.target.value })} placeholder="🏆" className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Requirement Type *</label>
-            <select value={formData.requirementType} onChange={(e) => setFormData({ ...formData, requirementType: e.target.value })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white">
-              <option value="lpTotal">LP Total</option>
-              <option value="upgradeCount">Upgrade Count</option>
-              <option value="characterUnlocked">Characters Unlocked</option>
-              <option value="level">Player Level</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Target *</label>
-            <input type="number" value={formData.target} onChange={(e) => setFormData({ ...formData, target: parseInt(e.target.value) })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" min="1" required />
-          </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Icon</label>
+          <input type="text" value={formData.icon} onChange={(e) => setFormData({ ...formData, icon: e.target.value })} placeholder="🏆" className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" />
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Reward Type *</label>
-            <select value={formData.rewardType} onChange={(e) => setFormData({ ...formData, rewardType: e.target.value })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white">
-              <option value="lp">Lust Points (LP)</option>
-              <option value="lg">Lust Gems (LG)</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Reward Amount *</label>
-            <input type="number" value={formData.rewardAmount} onChange={(e) => setFormData({ ...formData, rewardAmount: parseInt(e.target.value) })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" min="0" required />
-          </div>
-        </div>
+        <RequirementEditor kind="achievement" value={requirement} onChange={setRequirement} />
+
+        <RewardEditor value={reward} onChange={setReward} />
 
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Reset Interval *</label>
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { Save, X } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import RequirementEditor from '../requirements/RequirementEditor';
+import RewardEditor from '../rewards/RewardEditor';
+import { getRequirementNode, toRequirementFields, type RequirementNode } from '@shared/requirements';
+import { getRewardSpec, toRewardFields, type RewardSpec } from '@shared/rewards';
 
 interface Achievement {
   id: string;
@@ -8,8 +12,11 @@ interface Achievement {
   description: string;
   requirementType: string;
   target: number;
+  requirementParams?: Record<string, any>;
+  requirement?: RequirementNode | null;
   rewardType: string;
   rewardAmount: number;
+  rewardData?: Record<string, any> | null;
   icon?: string;
 }
 
@@ -21,6 +28,8 @@ interface AchievementsEditProps {
 
 export default function AchievementsEdit({ achievement, onSave, onCancel }: AchievementsEditProps) {
   const [formData, setFormData] = useState<Achievement>(achievement);
+  const [requirement, setRequirement] = useState<RequirementNode>(() => getRequirementNode(achievement));
+  const [reward, setReward] = useState<RewardSpec>(() => getRewardSpec(achievement));
   const [saving, setSaving] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -28,19 +37,12 @@ export default function AchievementsEdit({ achievement, onSave, onCancel }: Achi
     setSaving(true);
 
     try {
-      const response = await apiRequest(`/api/admin/achievements/${achievement.id}`, {
-        method: 'PUT',
-        body: JSON.stringify(formData)
-      });
-      if (response.ok) {
-        alert('Achievement updated successfully!');
-        onSave();
-      } else {
-        throw new Error('Failed to update achievement');
-      }
-    } catch (error) {
+      await apiRequest('PUT', `/api/admin/achievements/${achievement.id}`, { ...formData, ...toRequirementFields(requirement), ...toRewardFields(reward, achievement.rewardData || {}) });
+      alert('Achievement updated successfully!');
+      onSave();
+    } catch (error: any) {
       console.error('Failed to update achievement:', error);
-      alert('Failed to update achievement. Check console for details.');
+      alert(error.message || 'Failed to update achievement. Check console for details.');
     } finally {
       setSaving(false);
     }
@@ -70,35 +72,9 @@ export default function AchievementsEdit({ achievement, onSave, onCancel }: Achi
           <textarea value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" rows={2} required />
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Requirement Type *</label>
-            <select value={formData.requirementType} onChange={(e) => setFormData({ ...formData, requirementType: e.target.value })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white">
-              <option value="lpTotal">LP Total</option>
-              <option value="upgradeCount">Upgrade Count</option>
-              <option value="characterUnlocked">Characters Unlocked</option>
-              <option value="level">Player Level</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Target *</label>
-            <input type="number" value={formData.target} onChange={(e) => setFormData({ ...formData, target: parseInt(e.target.value) })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" min="1" required />
-          </div>
-        </div>
+        <RequirementEditor kind="achievement" value={requirement} onChange={setRequirement} />
 
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Reward Type *</label>
-            <select value={formData.rewardType} onChange={(e) => setFormData({ ...formData, rewardType: e.target.value })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white">
-              <option value="lp">Lust Points (LP)</option>
-              <option value="lg">Lust Gems (LG)</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">Reward Amount *</label>
-            <input type="number" value={formData.rewardAmount} onChange={(e) => setFormData({ ...formData, rewardAmount: parseInt(e.target.value) })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" min="0" required />
-          </div>
-        </div>
+        <RewardEditor value={reward} onChange={setReward} />
 
         <div className="flex gap-3 pt-4">
           <button type="submit" disabled={saving} className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded-lg transition-colors">
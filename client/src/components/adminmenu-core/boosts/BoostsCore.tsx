@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Rocket } from 'lucide-react';
+import BoostsEdit from './BoostsEdit';
+import BoostsCreate from './BoostsCreate';
+import { apiRequest } from '@/lib/queryClient';
+import type { BoostConfig } from '@shared/gameConfig';
+
+export default function BoostsCore() {
+  const [boosts, setBoosts] = useState<BoostConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingBoost, setEditingBoost] = useState<BoostConfig | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    loadBoosts();
+  }, []);
+
+  const loadBoosts = async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest('GET', '/api/admin/boosts');
+      const data = await response.json();
+      const sorted = (data.boosts || []).sort((a: BoostConfig, b: BoostConfig) => (a.sortOrder || 0) - (b.sortOrder || 0));
+      setBoosts(sorted);
+    } catch (error) {
+      console.error('Failed to load boosts:', error);
+      alert('Failed to load boosts. Check console for details.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (boostId: string) => {
+    if (!confirm(`Delete boost "${boostId}"? This cannot be undone.`)) return;
+    
+    try {
+      await apiRequest('DELETE', `/api/admin/boosts/${boostId}`);
+      await loadBoosts();
+      alert('Boost deleted successfully!');
+    } catch (error) {
+      console.error('Failed to delete boost:', error);
+      alert('Failed to delete boost.');
+    }
+  };
+
+  if (isCreating) {
+    return <BoostsCreate onSave={() => { loadBoosts(); setIsCreating(false); }} onCancel={() => setIsCreating(false)} />;
+  }
+
+  if (editingBoost) {
+    return <BoostsEdit boost={editingBoost} onSave={() => { loadBoosts(); setEditingBoost(null); }} onCancel={() => setEditingBoost(null)} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Rocket className="w-5 h-5" />
+            Boost Shop
+          </h3>
+          <p className="text-sm text-gray-400">Timed multipliers and instant effects bought with LustGems</p>
+        </div>
+        <button onClick={() => setIsCreating(true)} className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors">
+          <Plus className="w-4 h-4" />
+          Create Boost
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-2"></div>
+            <p className="text-gray-400">Loading boosts...</p>
+          </div>
+        ) : boosts.length === 0 ? (
+          <div className="text-center py-8 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <p className="text-gray-400 mb-2">No boosts found.</p>
+            <p className="text-sm text-gray-500">Create your first boost to get started!</p>
+          </div>
+        ) : (
+          boosts.map((boost) => (
+            <div key={boost.id} className={`bg-gray-800 rounded-lg p-4 flex items-center justify-between hover:bg-gray-750 transition-colors ${boost.isActive === false ? 'opacity-60' : ''}`}>
+              <div className="flex-1">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">{boost.icon || '🚀'}</span>
+                  <div>
+                    <h4 className="font-semibold text-white">{boost.name}</h4>
+                    <p className="text-sm text-gray-400">{boost.description}</p>
+                  </div>
+                  {boost.isActive === false && (
+                    <span className="px-2 py-0.5 bg-gray-700 text-gray-300 rounded text-xs font-semibold">Inactive</span>
+                  )}
+                  {boost.isHidden && (
+                    <span className="px-2 py-0.5 bg-gray-700 text-gray-300 rounded text-xs font-semibold">Hidden</span>
+                  )}
+                </div>
+                <div className="flex gap-3 mt-2 text-xs">
+                  <span className="bg-blue-900/30 text-blue-300 px-2 py-0.5 rounded">Cost: {boost.cost} LG</span>
+                  {(boost.multiplier || 1) > 1 && boost.durationMinutes > 0 && (
+                    <span className="bg-pink-900/30 text-pink-300 px-2 py-0.5 rounded">{boost.multiplier}x for {boost.durationMinutes}min</span>
+                  )}
+                  {boost.energyRefill && (
+                    <span className="bg-cyan-900/30 text-cyan-300 px-2 py-0.5 rounded">Energy refill</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => setEditingBoost(boost)} className="p-2 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors" title="Edit Boost">
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(boost.id)} className="p-2 bg-red-600 hover:bg-red-700 text-white rounded transition-colors" title="Delete Boost">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+      
+      {!loading && boosts.length > 0 && (
+        <div className="text-sm text-gray-400 text-center pt-2 border-t border-gray-800">
+          Total Boosts: {boosts.length}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import type { BoostConfig } from '@shared/gameConfig';
+
+interface BoostsEditProps {
+  boost: BoostConfig;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+export default function BoostsEdit({ boost, onSave, onCancel }: BoostsEditProps) {
+  const [formData, setFormData] = useState<BoostConfig>({ multiplier: 1, ...boost });
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await apiRequest('PUT', `/api/admin/boosts/${boost.id}`, formData);
+      alert('Boost updated successfully!');
+      onSave();
+    } catch (error: any) {
+      console.error('Failed to update boost:', error);
+      alert(error.message || 'Failed to update boost. Check console for details.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-xl font-semibold text-white">Edit Boost: {boost.name}</h3>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white"><X className="w-5 h-5" /></button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Boost ID</label>
+            <input type="text" value={formData.id} className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-gray-400" disabled />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Name *</label>
+            <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} placeholder="2x Points Boost" className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Icon</label>
+            <input type="text" value={formData.icon} onChange={(e) => setFormData({ ...formData, icon: e.target.value })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+          <textarea value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} placeholder="Double LP from tapping for 30 minutes" className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" rows={2} />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Cost (LustGems) *</label>
+            <input type="number" value={formData.cost} onChange={(e) => setFormData({ ...formData, cost: parseInt(e.target.value) || 0 })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" min="0" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">LP Multiplier</label>
+            <input type="number" value={formData.multiplier} onChange={(e) => setFormData({ ...formData, multiplier: parseFloat(e.target.value) || 1 })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" min="1" step="0.1" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Duration (minutes)</label>
+            <input type="number" value={formData.durationMinutes} onChange={(e) => setFormData({ ...formData, durationMinutes: parseInt(e.target.value) || 0 })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" min="0" />
+            <p className="text-xs text-gray-500 mt-1">0 = instant effects only</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-4 items-end">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+            <input type="checkbox" checked={!!formData.energyRefill} onChange={(e) => setFormData({ ...formData, energyRefill: e.target.checked })} className="rounded" />
+            Instant energy refill
+          </label>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+            <input type="checkbox" checked={formData.isActive !== false} onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })} className="rounded" />
+            Active
+          </label>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+            <input type="checkbox" checked={!!formData.isHidden} onChange={(e) => setFormData({ ...formData, isHidden: e.target.checked })} className="rounded" />
+            Hidden
+          </label>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Sort Order</label>
+            <input type="number" value={formData.sortOrder} onChange={(e) => setFormData({ ...formData, sortOrder: parseInt(e.target.value) || 0 })} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white" />
+          </div>
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <button type="submit" disabled={saving} className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded-lg transition-colors">
+            <Save className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+          <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">Cancel</button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,35 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { Search, Edit, Trash2, Eye, Filter, X, Save } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { useGame } from '@/contexts/GameContext';
+import { hasCapability } from '@shared/permissions';
+import type { ImageMetadata } from '@shared/imageMetadata';
 
 interface ImageData {
   filename: string;
   path: string;
   size: number;
   uploadedAt: string;
-  metadata?: {
-    characterId: string;
-    type: string;
-    levelRequired: number;
-    nsfw: boolean;
-    vip: boolean;
-    event: boolean;
-    hideFromGallery: boolean;
-    random: boolean;
-    enableForChat: boolean;
-    chatSendPercent: number;
-    poses: string[];
-  };
+  metadata: ImageMetadata;
 }
 
+const hasCategory = (metadata: ImageMetadata | null, category: string) => !!metadata?.categories.includes(category);
+
 export default function CharacterGalleryCore() {
+  const { state } = useGame();
+  // Artists can upload and edit, deleting needs moderator or admin
+  const canDelete = hasCapability(state, 'media:delete');
   const [images, setImages] = useState<ImageData[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCharacter, setSelectedCharacter] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [editingImage, setEditingImage] = useState<ImageData | null>(null);
-  const [editedMetadata, setEditedMetadata] = useState<any>(null);
+  const [editedMetadata, setEditedMetadata] = useState<ImageMetadata | null>(null);
 
   const characters = [
     { id: 'all', name: 'All Characters' },
@@ -82,6 +78,16 @@ export default function CharacterGalleryCore() {
     setEditedMetadata({ ...image.metadata });
   };
 
+  const editField = (updates: Partial<ImageMetadata>) => {
+    if (editedMetadata) setEditedMetadata({ ...editedMetadata, ...updates });
+  };
+
+  const toggleCategory = (category: string, enabled: boolean) => {
+    if (!editedMetadata) return;
+    const others = editedMetadata.categories.filter(c => c !== category);
+    editField({ categories: enabled ? [...others, category] : others });
+  };
+
   const handleSaveEdit = async () => {
     if (!editingImage) return;
 
@@ -199,12 +205,12 @@ export default function CharacterGalleryCore() {
                   alt={image.filename}
                   className="max-w-full max-h-full object-contain"
                 />
-                {image.metadata?.nsfw && (
+                {hasCategory(image.metadata, 'nsfw') && (
                   <span className="absolute top-2 right-2 px-2 py-1 bg-red-600 text-white text-xs rounded">
                     NSFW
                   </span>
                 )}
-                {image.metadata?.vip && (
+                {hasCategory(image.metadata, 'vip') && (
                   <span className="absolute top-2 left-2 px-2 py-1 bg-yellow-600 text-white text-xs rounded">
                     VIP
                   </span>
@@ -238,12 +244,14 @@ export default function CharacterGalleryCore() {
                   >
                     <Edit className="w-3 h-3" /> Edit
                   </button>
-                  <button
-                    onClick={() => handleDelete(image.filename)}
-                    className="p-2 bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </button>
+                  {canDelete && (
+                    <button
+                      onClick={() => handleDelete(image.filename)}
+                      className="p-2 bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -268,7 +276,7 @@ export default function CharacterGalleryCore() {
                   <label className="text-xs text-gray-400">Character</label>
                   <select
                     value={editedMetadata?.characterId || ''}
-                    onChange={(e) => setEditedMetadata({ ...editedMetadata, characterId: e.target.value })}
+                    onChange={(e) => editField({ characterId: e.target.value })}
                     className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
                   >
                     {characters.filter(c => c.id !== 'all').map(char => (
@@ -280,7 +288,7 @@ export default function CharacterGalleryCore() {
                   <label className="text-xs text-gray-400">Type</label>
                   <select
                     value={editedMetadata?.type || ''}
-                    onChange={(e) => setEditedMetadata({ ...editedMetadata, type: e.target.value })}
+                    onChange={(e) => editField({ type: e.target.value })}
                     className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
                   >
                     <option value="Avatar">Avatar</option>
@@ -296,24 +304,24 @@ export default function CharacterGalleryCore() {
                 <label className="flex items-center gap-2 text-sm text-gray-300">
                   <input
                     type="checkbox"
-                    checked={editedMetadata?.nsfw || false}
-                    onChange={(e) => setEditedMetadata({ ...editedMetadata, nsfw: e.target.checked })}
+                    checked={hasCategory(editedMetadata, 'nsfw')}
+                    onChange={(e) => toggleCategory('nsfw', e.target.checked)}
                   />
                   NSFW
                 </label>
                 <label className="flex items-center gap-2 text-sm text-gray-300">
                   <input
                     type="checkbox"
-                    checked={editedMetadata?.vip || false}
-                    onChange={(e) => setEditedMetadata({ ...editedMetadata, vip: e.target.checked })}
+                    checked={hasCategory(editedMetadata, 'vip')}
+                    onChange={(e) => toggleCategory('vip', e.target.checked)}
                   />
                   VIP
                 </label>
                 <label className="flex items-center gap-2 text-sm text-gray-300">
                   <input
                     type="checkbox"
-                    checked={editedMetadata?.enableForChat || false}
-                    onChange={(e) => setEditedMetadata({ ...editedMetadata, enableForChat: e.target.checked })}
+                    checked={editedMetadata?.chatEnable || false}
+                    onChange={(e) => editField({ chatEnable: e.target.checked })}
                   />
                   Chat
                 </label>
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Gift } from 'lucide-react';
+import GiftsEdit from './GiftsEdit';
+import GiftsCreate from './GiftsCreate';
+import { apiRequest } from '@/lib/queryClient';
+import type { GiftConfig } from '@shared/gameConfig';
+
+export default function GiftsCore() {
+  const [gifts, setGifts] = useState<GiftConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingGift, setEditingGift] = useState<GiftConfig | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    loadGifts();
+  }, []);
+
+  const loadGifts = async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest('GET', '/api/admin/gifts');
+      const data = await response.json();
+      const sorted = (data.gifts || []).sort((a: GiftConfig, b: GiftConfig) => (a.sortOrder || 0) - (b.sortOrder || 0));
+      setGifts(sorted);
+    } catch (error) {
+      console.error('Failed to load gifts:', error);
+      alert('Failed to load gifts. Check console for details.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (giftId: string) => {
+    if (!confirm(`Delete gift "${giftId}"? Players keep any copies already in their inventory, but cannot give them.`)) return;
+
+    try {
+      await apiRequest('DELETE', `/api/admin/gifts/${giftId}`);
+      await loadGifts();
+      alert('Gift deleted successfully!');
+    } catch (error) {
+      console.error('Failed to delete gift:', error);
+      alert('Failed to delete gift.');
+    }
+  };
+
+  if (isCreating) {
+    return <GiftsCreate onSave={() => { loadGifts(); setIsCreating(false); }} onCancel={() => setIsCreating(false)} />;
+  }
+
+  if (editingGift) {
+    return <GiftsEdit gift={editingGift} onSave={() => { loadGifts(); setEditingGift(null); }} onCancel={() => setEditingGift(null)} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Gift className="w-5 h-5" />
+            Gift Shop
+          </h3>
+          <p className="text-sm text-gray-400">Items bought with LustGems and given to characters</p>
+        </div>
+        <button onClick={() => setIsCreating(true)} className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors">
+          <Plus className="w-4 h-4" />
+          Create Gift
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-2"></div>
+            <p className="text-gray-400">Loading gifts...</p>
+          </div>
+        ) : gifts.length === 0 ? (
+          <div className="text-center py-8 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <p className="text-gray-400 mb-2">No gifts found.</p>
+            <p className="text-sm text-gray-500">Create your first gift to get started!</p>
+          </div>
+        ) : (
+          gifts.map((gift) => (
+            <div key={gift.id} className={`bg-gray-800 rounded-lg p-4 flex items-center justify-between hover:bg-gray-750 transition-colors ${gift.isActive === false ? 'opacity-60' : ''}`}>
+              <div className="flex-1">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">{gift.icon || '🎁'}</span>
+                  <div>
+                    <h4 className="font-semibold text-white">{gift.name}</h4>
+                    <p className="text-sm text-gray-400">{gift.description}</p>
+                  </div>
+                  {gift.isActive === false && (
+                    <span className="px-2 py-0.5 bg-gray-700 text-gray-300 rounded text-xs font-semibold">Inactive</span>
+                  )}
+                  {gift.isHidden && (
+                    <span className="px-2 py-0.5 bg-gray-700 text-gray-300 rounded text-xs font-semibold">Hidden</span>
+                  )}
+                </div>
+                <div className="flex gap-3 mt-2 text-xs">
+                  <span className="bg-blue-900/30 text-blue-300 px-2 py-0.5 rounded">Cost: {gift.cost} LG</span>
+                  {(gift.affection || 0) > 0 && (
+                    <span className="bg-rose-900/30 text-rose-300 px-2 py-0.5 rounded">+{gift.affection} affection</span>
+                  )}
+                  {(gift.tapMultiplier || 1) > 1 && (gift.durationMinutes || 0) > 0 && (
+                    <span className="bg-pink-900/30 text-pink-300 px-2 py-0.5 rounded">{gift.tapMultiplier}x taps for {gift.durationMinutes}min</span>
+                  )}
+                  {gift.unlockImageId && (
+                    <span className="bg-green-900/30 text-green-300 px-2 py-0.5 rounded">Unlocks {gift.unlockImageId}</span>
+                  )}
+                  {gift.characterIds && gift.characterIds.length > 0 && (
+                    <span className="bg-gray-700 text-gray-300 px-2 py-0.5 rounded">Only: {gift.characterIds.join(', ')}</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => setEditingGift(gift)} className="p-2 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors" title="Edit Gift">
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(gift.id)} className="p-2 bg-red-600 hover:bg-red-700 text-white rounded transition-colors" title="Delete Gift">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {!loading && gifts.length > 0 && (
+        <div className="text-sm text-gray-400 text-center pt-2 border-t border-gray-800">
+          Total Gifts: {gifts.length}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import React, { useState, useRef } from 'react';
+import { Archive, CheckCircle, AlertTriangle, XCircle, Upload } from 'lucide-react';
+import type { ImageMetadata } from '@shared/imageMetadata';
+
+type ImportStatus = 'ready' | 'invalid' | 'imported' | 'failed';
+
+interface ImportItem {
+  entry: string;
+  filename: string;
+  size: number;
+  status: ImportStatus;
+  error: string | null;
+  fromManifest: boolean;
+  width: number | null;
+  height: number | null;
+  metadata: ImageMetadata | null;
+  url: string | null;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  manifest: string | null;
+  items: ImportItem[];
+  warnings: string[];
+  summary: Record<ImportStatus, number> & { total: number };
+}
+
+interface BulkImportPanelProps {
+  characters: { id: string; name: string }[];
+  onImported: () => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  ready: 'bg-blue-600',
+  invalid: 'bg-yellow-600',
+  imported: 'bg-green-600',
+  failed: 'bg-red-600'
+};
+
+const TYPES = ['Character', 'Avatar', 'NSFW', 'Background', 'Other'];
+
+export default function BulkImportPanel({ characters, onImported }: BulkImportPanelProps) {
+  const [archive, setArchive] = useState<File | null>(null);
+  const [defaults, setDefaults] = useState({ characterId: 'aria', type: 'Character' });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Same archive twice: once as a dry run for the preview, once for real
+  const runImport = async (dryRun: boolean) => {
+    if (!archive) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('archive', archive);
+      formData.append('defaults', JSON.stringify(defaults));
+      formData.append('dryRun', String(dryRun));
+
+      const response = await fetch('/api/media/import', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('sessionToken')}` },
+        body: formData
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || `Import failed: ${response.statusText}`);
+
+      setResult(data);
+      if (!dryRun && data.summary.imported > 0) onImported();
+    } catch (err: any) {
+      console.error('📦 [IMPORT] Failed:', err);
+      setError(err.message || 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectArchive = (file: File | null) => {
+    setArchive(file);
+    setResult(null);
+    setError(null);
+  };
+
+  const canImport = !!result?.dryRun && result.summary.ready > 0;
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+          <Archive className="w-4 h-4" /> Bulk Import (.zip)
+        </h4>
+        <p className="text-xs text-gray-400 mt-1">
+          Optional manifest.json or manifest.csv in the zip, columns: filename, characterId, type, unlockLevel,
+          poses, categories, nsfw, vip, chatEnable, chatSendPercent, isHidden (lists separated by |).
+          Files the manifest does not mention use the defaults below.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-end">
+        <input ref={fileInputRef} type="file" accept=".zip" className="hidden" onChange={(e) => selectArchive(e.target.files?.[0] || null)} />
+        <button onClick={() => fileInputRef.current?.click()} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm">
+          {archive ? archive.name : 'Choose zip...'}
+        </button>
+        <div>
+          <label className="text-xs text-gray-400 block">Default character</label>
+          <select
+            value={defaults.characterId}
+            onChange={(e) => { setDefaults({ ...defaults, characterId: e.target.value }); setResult(null); }}
+            className="px-2 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+          >
+            {characters.map((char) => (
+              <option key={char.id} value={char.id}>{char.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-400 block">Default type</label>
+          <select
+            value={defaults.type}
+            onChange={(e) => { setDefaults({ ...defaults, type: e.target.value }); setResult(null); }}
+            className="px-2 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+          >
+            {TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => runImport(true)}
+          disabled={!archive || busy}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm disabled:opacity-50"
+        >
+          {busy && !canImport ? 'Checking...' : 'Preview'}
+        </button>
+        <button
+          onClick={() => runImport(false)}
+          disabled={!canImport || busy}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded text-sm flex items-center gap-1 disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4" />
+          {busy && canImport ? 'Importing...' : `Import ${result?.dryRun ? result.summary.ready : 0} file(s)`}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="text-xs text-gray-300 flex flex-wrap gap-3">
+            <span>{result.dryRun ? 'Preview' : 'Import finished'}: {result.summary.total} file(s)</span>
+            {result.dryRun ? <span className="text-blue-300">{result.summary.ready} ready</span> : <span className="text-green-300">{result.summary.imported} imported</span>}
+            {result.summary.invalid > 0 && <span className="text-yellow-300">{result.summary.invalid} invalid</span>}
+            {result.summary.failed > 0 && <span className="text-red-300">{result.summary.failed} failed</span>}
+            <span className="text-gray-500">{result.manifest ? `manifest: ${result.manifest}` : 'no manifest'}</span>
+          </div>
+
+          {result.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-yellow-300 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" /> {warning}
+            </p>
+          ))}
+
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {result.items.map((item) => (
+              <div key={item.entry} className="flex items-center gap-2 bg-gray-900/60 rounded px-3 py-2 text-xs">
+                <span className={`px-2 py-0.5 rounded text-white ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                {item.status === 'imported' && <CheckCircle className="w-3 h-3 text-green-400" />}
+                {(item.status === 'invalid' || item.status === 'failed') && <XCircle className="w-3 h-3 text-red-400" />}
+                <span className="text-white truncate flex-1" title={item.entry}>{item.entry}</span>
+                {item.error ? (
+                  <span className="text-red-300">{item.error}</span>
+                ) : item.metadata && (
+                  <span className="text-gray-400">
+                    {item.metadata.characterId || 'other'}/{item.metadata.type} · Lv {item.metadata.unlockLevel}
+                    {item.metadata.categories.length > 0 && ` · ${item.metadata.categories.join(', ')}`}
+                    {item.metadata.poses.length > 0 && ` · ${item.metadata.poses.join(', ')}`}
+                    {item.width && item.height && ` · ${item.width}×${item.height}`}
+                    {!item.fromManifest && ' · defaults'}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Upload, Trash2, Image as ImageIcon, Copy, CheckCircle, X, Plus } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { useGame } from '@/contexts/GameContext';
+import { hasCapability } from '@shared/permissions';
+import { normalizeImageMetadata, toSrcSet, type ImageProcessing } from '@shared/imageMetadata';
+import BulkImportPanel from './BulkImportPanel';
 
 interface ImageFile {
   filename: string;
   path: string;
   size: number;
   uploadedAt: string;
+  metadata?: ImageProcessing;
 }
 
 interface ImageMetadata {
@@ -46,6 +51,9 @@ const savePersistentPoses = (poses: string[]) => {
 };
 
 export default function ImageUploaderCore() {
+  const { state } = useGame();
+  // Artists can upload and edit, deleting needs moderator or admin
+  const canDelete = hasCapability(state, 'media:delete');
   const [images, setImages] = useState<ImageFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
@@ -198,7 +206,8 @@ export default function ImageUploaderCore() {
       try {
         const formData = new FormData();
         formData.append('file', pending.file);
-        formData.append('metadata', JSON.stringify(pending.metadata));
+        // The form keeps its own field names; the server stores the canonical shape
+        formData.append('metadata', JSON.stringify(normalizeImageMetadata(pending.metadata)));
 
         const response = await fetch('/api/media', {
           method: 'POST',
@@ -329,6 +338,9 @@ export default function ImageUploaderCore() {
         </div>
       </div>
 
+      {/* Bulk Import */}
+      <BulkImportPanel characters={availableCharacters} onImported={loadImages} />
+
       {/* Upload Zone */}
       <div
         onDragEnter={handleDrag}
@@ -532,12 +544,25 @@ export default function ImageUploaderCore() {
           ) : (
             images.slice(0, 8).map((image) => (
               <div key={image.filename} className="bg-gray-800 rounded-lg overflow-hidden group">
-                <div className="aspect-square bg-gray-900 flex items-center justify-center overflow-hidden">
-                  <img src={image.path} alt={image.filename} className="max-w-full max-h-full object-contain" />
+                <div
+                  className="aspect-square bg-gray-900 bg-cover bg-center flex items-center justify-center overflow-hidden"
+                  style={image.metadata?.placeholder ? { backgroundImage: `url(${image.metadata.placeholder})` } : undefined}
+                >
+                  <img
+                    src={image.metadata?.variants?.[0]?.path || image.path}
+                    srcSet={image.metadata?.variants?.length ? toSrcSet(image.metadata.variants.map(v => ({ url: v.path, width: v.width }))) : undefined}
+                    sizes="(min-width: 1024px) 200px, 45vw"
+                    alt={image.filename}
+                    loading="lazy"
+                    className="max-w-full max-h-full object-contain"
+                  />
                 </div>
                 <div className="p-3 space-y-2">
                   <p className="text-sm text-white truncate">{image.filename}</p>
-                  <p className="text-xs text-gray-500">{formatFileSize(image.size)}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(image.size)}
+                    {image.metadata?.width && image.metadata?.height && ` · ${image.metadata.width}×${image.metadata.height}`}
+                  </p>
                   <div className="flex gap-2">
                     <button
                       onClick={() => copyToClipboard(image.path)}
@@ -547,9 +572,11 @@ export default function ImageUploaderCore() {
                     >
                       {copiedUrl === image.path ? <><CheckCircle className="w-3 h-3 inline" /> Copied</> : <><Copy className="w-3 h-3 inline" /> Copy</>}
                     </button>
-                    <button onClick={() => handleDelete(image.filename)} className="p-2 bg-red-600 hover:bg-red-700 rounded">
-                      <Trash2 className="w-3 h-3" />
-                    </button>
+                    {canDelete && (
+                      <button onClick={() => handleDelete(image.filename)} className="p-2 bg-red-600 hover:bg-red-700 rounded">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
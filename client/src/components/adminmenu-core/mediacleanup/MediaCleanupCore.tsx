@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Archive, RefreshCw, RotateCcw, Trash2, ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+
+type FindingKind = 'duplicate' | 'orphaned-image' | 'missing-image' | 'broken-display-image';
+
+interface CleanupFinding {
+  id: string;
+  kind: FindingKind;
+  target: string;
+  sizeBytes: number;
+  detail: string;
+  referencedBy: string[];
+  canQuarantine: boolean;
+}
+
+interface CleanupReport {
+  scannedAt: string;
+  findings: CleanupFinding[];
+  summary: Record<FindingKind, number> & { displayImageReferences: number };
+}
+
+interface QuarantineEntry {
+  id: string;
+  kind: FindingKind;
+  target: string;
+  detail: string;
+  files: string[];
+  sizeBytes: number;
+  quarantinedAt: string;
+  quarantinedBy: string;
+  purgeAfter: string;
+}
+
+const KIND_LABELS: Record<FindingKind, string> = {
+  'duplicate': 'Duplicate',
+  'orphaned-image': 'Orphaned',
+  'missing-image': 'Missing image',
+  'broken-display-image': 'Broken display image'
+};
+
+const KIND_COLORS: Record<FindingKind, string> = {
+  'duplicate': 'bg-blue-600',
+  'orphaned-image': 'bg-orange-600',
+  'missing-image': 'bg-purple-600',
+  'broken-display-image': 'bg-red-600'
+};
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export default function MediaCleanupCore() {
+  const [report, setReport] = useState<CleanupReport | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState(14);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadCleanup();
+  }, []);
+
+  const loadCleanup = async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest('GET', '/api/admin/media-cleanup');
+      const data = await response.json();
+      setReport(data.report);
+      setQuarantine(data.quarantine || []);
+      setRetentionDays(data.retentionDays);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Failed to load media cleanup:', error);
+      alert('Failed to load media cleanup. Check console for details.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs an action, then shows what the server says afterwards
+  const act = async (action: () => Promise<void>) => {
+    try {
+      setWorking(true);
+      await action();
+    } catch (error: any) {
+      console.error('Media cleanup action failed:', error);
+      alert(error.message || 'Action failed.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const rescan = () => act(async () => {
+    const response = await apiRequest('POST', '/api/admin/media-cleanup/scan');
+    setReport((await response.json()).report);
+    setSelected(new Set());
+  });
+
+  const quarantineSelected = () => {
+    if (!confirm(`Move ${selected.size} finding(s) to quarantine? They can be restored for ${retentionDays} days.`)) return;
+    act(async () => {
+      const response = await apiRequest('POST', '/api/admin/media-cleanup/quarantine', { ids: Array.from(selected) });
+      const data = await response.json();
+      const failed = data.results.filter((r: any) => !r.success);
+      if (failed.length > 0) alert(failed.map((r: any) => `${r.findingId}: ${r.error}`).join('\n'));
+      await loadCleanup();
+    });
+  };
+
+  const restore = (entry: QuarantineEntry) => act(async () => {
+    await apiRequest('POST', `/api/admin/media-cleanup/quarantine/${entry.id}/restore`);
+    await loadCleanup();
+  });
+
+  const purge = (entry?: QuarantineEntry) => {
+    const message = entry ? `Permanently delete ${entry.target}? This cannot be undone.` : 'Permanently delete every entry past its retention window?';
+    if (!confirm(message)) return;
+    act(async () => {
+      await apiRequest('DELETE', `/api/admin/media-cleanup/quarantine${entry ? `/${entry.id}` : ''}`);
+      await loadCleanup();
+    });
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelected(next);
+  };
+
+  const findings = report?.findings || [];
+  const selectable = findings.filter(f => f.canQuarantine);
+  const expiredCount = quarantine.filter(entry => new Date(entry.purgeAfter) <= new Date()).length;
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-2"></div>
+        <p className="text-gray-400">Scanning media...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Archive className="w-5 h-5" />
+            Media Cleanup
+          </h3>
+          <p className="text-sm text-gray-400">
+            Quarantined files can be restored for {retentionDays} days, then they are purged.
+            {report && ` Last scan ${new Date(report.scannedAt).toLocaleString()}.`}
+          </p>
+        </div>
+        <button onClick={rescan} disabled={working} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2 disabled:opacity-50">
+          <RefreshCw className={`w-4 h-4 ${working ? 'animate-spin' : ''}`} /> Rescan
+        </button>
+      </div>
+
+      {/* Findings */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <h4 className="text-md font-semibold text-white">
+            Findings ({findings.length})
+            {report && report.summary.displayImageReferences > 0 && (
+              <span className="text-xs text-gray-400 font-normal ml-2">
+                <ShieldCheck className="w-3 h-3 inline" /> {report.summary.displayImageReferences} display images protected
+              </span>
+            )}
+          </h4>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setSelected(selected.size === selectable.length ? new Set() : new Set(selectable.map(f => f.id)))}
+              disabled={selectable.length === 0}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm disabled:opacity-50"
+            >
+              {selected.size === selectable.length && selectable.length > 0 ? 'Select none' : 'Select all'}
+            </button>
+            <button
+              onClick={quarantineSelected}
+              disabled={selected.size === 0 || working}
+              className="px-3 py-1 bg-orange-600 hover:bg-orange-700 text-white rounded text-sm disabled:opacity-50"
+            >
+              Quarantine {selected.size > 0 ? `(${selected.size})` : ''}
+            </button>
+          </div>
+        </div>
+
+        {findings.length === 0 ? (
+          <div className="text-center py-6 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <p className="text-gray-400">Nothing to clean up.</p>
+          </div>
+        ) : (
+          findings.map((finding) => (
+            <label key={finding.id} className={`flex items-center gap-3 bg-gray-800/50 rounded-lg border border-gray-700/50 px-4 py-3 ${finding.canQuarantine ? 'cursor-pointer' : 'opacity-70'}`}>
+              <input
+                type="checkbox"
+                checked={selected.has(finding.id)}
+                disabled={!finding.canQuarantine}
+                onChange={() => toggle(finding.id)}
+                className="accent-orange-600"
+              />
+              <span className={`text-xs px-2 py-0.5 rounded text-white whitespace-nowrap ${KIND_COLORS[finding.kind]}`}>{KIND_LABELS[finding.kind]}</span>
+              <div className="min-w-0 flex-1">
+                <div className="text-white text-sm truncate" title={finding.target}>{finding.target}</div>
+                <div className="text-xs text-gray-500">{finding.detail}</div>
+              </div>
+              {finding.sizeBytes > 0 && <span className="text-xs text-gray-400 whitespace-nowrap">{formatSize(finding.sizeBytes)}</span>}
+            </label>
+          ))
+        )}
+      </div>
+
+      {/* Quarantine */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <h4 className="text-md font-semibold text-white">Quarantine ({quarantine.length})</h4>
+          <button
+            onClick={() => purge()}
+            disabled={expiredCount === 0 || working}
+            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm disabled:opacity-50"
+          >
+            Purge expired ({expiredCount})
+          </button>
+        </div>
+
+        {quarantine.length === 0 ? (
+          <div className="text-center py-6 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <p className="text-gray-400">Quarantine is empty.</p>
+          </div>
+        ) : (
+          quarantine.map((entry) => {
+            const daysLeft = Math.ceil((new Date(entry.purgeAfter).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+            return (
+              <div key={entry.id} className="flex items-center gap-3 bg-gray-800/50 rounded-lg border border-gray-700/50 px-4 py-3">
+                <span className={`text-xs px-2 py-0.5 rounded text-white whitespace-nowrap ${KIND_COLORS[entry.kind]}`}>{KIND_LABELS[entry.kind]}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="text-white text-sm truncate" title={entry.files.join('\n')}>{entry.target}</div>
+                  <div className="text-xs text-gray-500">
+                    {entry.files.length} file(s) · by {entry.quarantinedBy} on {new Date(entry.quarantinedAt).toLocaleDateString()} ·{' '}
+                    {daysLeft > 0 ? `purged in ${daysLeft} day(s)` : 'past retention'}
+                  </div>
+                </div>
+                <button onClick={() => restore(entry)} disabled={working} title="Restore" className="p-2 bg-green-600 hover:bg-green-700 rounded disabled:opacity-50">
+                  <RotateCcw className="w-4 h-4 text-white" />
+                </button>
+                <button onClick={() => purge(entry)} disabled={working} title="Delete permanently" className="p-2 bg-red-600 hover:bg-red-700 rounded disabled:opacity-50">
+                  <Trash2 className="w-4 h-4 text-white" />
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
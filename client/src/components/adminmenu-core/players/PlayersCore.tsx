@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Shield, Search } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useGame } from '@/contexts/GameContext';
+import { PLAYER_ROLES, ROLE_CAPABILITIES, ROLE_LABELS, type PlayerRole } from '@shared/permissions';
+
+interface AdminPlayer {
+  id: string;
+  username: string;
+  level: number;
+  isAdmin: boolean;
+  role: PlayerRole;
+}
+
+const ROLE_COLORS: Record<PlayerRole, string> = {
+  player: 'bg-gray-600',
+  artist: 'bg-pink-600',
+  moderator: 'bg-blue-600',
+  admin: 'bg-yellow-600'
+};
+
+export default function PlayersCore() {
+  const { state } = useGame();
+  const [players, setPlayers] = useState<AdminPlayer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    loadPlayers();
+  }, []);
+
+  const loadPlayers = async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest('GET', '/api/admin/players');
+      const data = await response.json();
+      setPlayers((data.players || []).sort((a: AdminPlayer, b: AdminPlayer) => a.username.localeCompare(b.username)));
+    } catch (error) {
+      console.error('Failed to load players:', error);
+      alert('Failed to load players. Check console for details.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeRole = async (player: AdminPlayer, role: PlayerRole) => {
+    if (role === player.role) return;
+    if (role === 'admin' && !confirm(`Give ${player.username} full admin rights?`)) return;
+
+    try {
+      setSavingId(player.id);
+      await apiRequest('PUT', `/api/admin/players/${player.id}/role`, { role });
+      setPlayers(players.map(p => p.id === player.id ? { ...p, role, isAdmin: role === 'admin' } : p));
+    } catch (error: any) {
+      console.error('Failed to change role:', error);
+      alert(error.message || 'Failed to change role.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const visible = players.filter(p => p.username.toLowerCase().includes(search.trim().toLowerCase()));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            Player Roles
+          </h3>
+          <p className="text-sm text-gray-400">Artists can upload and edit media, moderators can also delete it</p>
+        </div>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input type="text" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search players" className="pl-9 pr-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-2"></div>
+            <p className="text-gray-400">Loading players...</p>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-8 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <p className="text-gray-400">No players found.</p>
+          </div>
+        ) : (
+          visible.map((player) => {
+            const isSelf = player.username === state.username;
+            return (
+              <div key={player.id} className="flex items-center justify-between bg-gray-800/50 rounded-lg border border-gray-700/50 px-4 py-3">
+                <div className="flex items-center gap-3">
+                  <span className={`text-xs px-2 py-0.5 rounded text-white ${ROLE_COLORS[player.role]}`}>{ROLE_LABELS[player.role]}</span>
+                  <div>
+                    <div className="text-white font-medium">{player.username}</div>
+                    <div className="text-xs text-gray-500">
+                      Level {player.level} · {ROLE_CAPABILITIES[player.role].join(', ') || 'no admin tools'}
+                    </div>
+                  </div>
+                </div>
+                <select
+                  value={player.role}
+                  disabled={isSelf || savingId === player.id}
+                  onChange={(e) => changeRole(player, e.target.value as PlayerRole)}
+                  title={isSelf ? 'You cannot change your own role' : undefined}
+                  className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm disabled:opacity-50"
+                >
+                  {PLAYER_ROLES.map((role) => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
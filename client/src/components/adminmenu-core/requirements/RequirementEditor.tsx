@@ -0,0 +1,144 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useGame } from '@/contexts/GameContext';
+import {
+  isCompositeRequirement,
+  isRequirementLeaf,
+  type RequirementKind,
+  type RequirementLeaf,
+  type RequirementNode,
+  type RequirementTypeDescriptor
+} from '@shared/requirements';
+
+interface RequirementEditorProps {
+  kind: RequirementKind;
+  value: RequirementNode;
+  onChange: (value: RequirementNode) => void;
+}
+
+type Mode = 'single' | 'all' | 'any';
+
+const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white';
+
+export function useRequirementTypes(kind: RequirementKind) {
+  return useQuery({
+    queryKey: ['/api/admin/requirement-types', kind],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/requirement-types?kind=${kind}`);
+      const data = await response.json();
+      return (data.requirementTypes || []) as RequirementTypeDescriptor[];
+    },
+    staleTime: Infinity,
+  });
+}
+
+function LeafFields({ leaf, types, onChange }: { leaf: RequirementLeaf; types: RequirementTypeDescriptor[]; onChange: (leaf: RequirementLeaf) => void }) {
+  const { characters } = useGame();
+  const descriptor = types.find(t => t.type === leaf.type);
+
+  const changeType = (type: string) => {
+    const next = types.find(t => t.type === type);
+    onChange({ type, target: Math.max(leaf.target || 0, next?.minTarget ?? 1) });
+  };
+
+  const setParam = (name: string, value: string) => {
+    const params = { ...(leaf.params || {}) };
+    if (value) params[name] = value; else delete params[name];
+    onChange({ ...leaf, params });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Requirement Type *</label>
+          <select value={descriptor ? leaf.type : ''} onChange={(e) => changeType(e.target.value)} className={inputClass} required>
+            <option value="" disabled>Select a requirement...</option>
+            {types.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+          </select>
+          {!descriptor && leaf.type && (
+            <p className="text-xs text-red-400 mt-1">"{leaf.type}" is not a registered requirement and never progresses</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Target *</label>
+          <input type="number" value={leaf.target} onChange={(e) => onChange({ ...leaf, target: parseInt(e.target.value) || 0 })} className={inputClass} min={descriptor?.minTarget ?? 1} max={descriptor?.maxTarget ?? undefined} required />
+        </div>
+      </div>
+      {descriptor && <p className="text-xs text-gray-500">{descriptor.description}</p>}
+      {descriptor?.params.map(param => (
+        <div key={param.name}>
+          <label className="block text-sm font-medium text-gray-300 mb-2">{param.label}{param.required ? ' *' : ''}</label>
+          <select value={leaf.params?.[param.name] || ''} onChange={(e) => setParam(param.name, e.target.value)} className={inputClass} required={param.required}>
+            {!param.required && <option value="">Any character</option>}
+            {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Edits a task/achievement requirement. Only types registered on the server are offered;
+ * "All of" / "Any of" combine several conditions.
+ */
+export default function RequirementEditor({ kind, value, onChange }: RequirementEditorProps) {
+  const { data: types = [], isLoading } = useRequirementTypes(kind);
+
+  if (isLoading) return <div className="text-sm text-gray-400">Loading requirement types...</div>;
+
+  const mode: Mode = isCompositeRequirement(value) ? ('all' in value ? 'all' : 'any') : 'single';
+  const children: RequirementNode[] = isCompositeRequirement(value) ? ('all' in value ? value.all : value.any) : [];
+  const defaultLeaf = (): RequirementLeaf => ({ type: types[0]?.type || '', target: types[0]?.minTarget ?? 1 });
+
+  const setChildren = (next: RequirementNode[]) => onChange(mode === 'all' ? { all: next } : { any: next });
+
+  const changeMode = (next: Mode) => {
+    if (next === mode) return;
+    if (next === 'single') {
+      onChange(children.find(isRequirementLeaf) || defaultLeaf());
+    } else {
+      const list = mode === 'single' ? [value] : children;
+      onChange(next === 'all' ? { all: list } : { any: list });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Condition</label>
+        <select value={mode} onChange={(e) => changeMode(e.target.value as Mode)} className={inputClass}>
+          <option value="single">Single requirement</option>
+          <option value="all">All of (AND)</option>
+          <option value="any">Any of (OR)</option>
+        </select>
+      </div>
+
+      {mode === 'single' && isRequirementLeaf(value) && <LeafFields leaf={value} types={types} onChange={onChange} />}
+
+      {mode !== 'single' && (
+        <div className="space-y-3">
+          {children.map((child, index) => (
+            <div key={index} className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs text-gray-400">Condition {index + 1}</span>
+                <button type="button" onClick={() => setChildren(children.filter((_, i) => i !== index))} className="text-red-400 hover:text-red-300" disabled={children.length <= 1}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {isRequirementLeaf(child)
+                ? <LeafFields leaf={child} types={types} onChange={(leaf) => setChildren(children.map((c, i) => i === index ? leaf : c))} />
+                : <pre className="text-xs text-gray-400 font-mono whitespace-pre-wrap">{JSON.stringify(child, null, 2)}</pre>}
+            </div>
+          ))}
+          <button type="button" onClick={() => setChildren([...children, defaultLeaf()])} className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg">
+            <Plus className="w-4 h-4" /> Add condition
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
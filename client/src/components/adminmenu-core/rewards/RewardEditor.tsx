@@ -0,0 +1,117 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useGame } from '@/contexts/GameContext';
+import { REWARD_TYPES, getRewardTypeInfo, type RewardSpec, type RewardType } from '@shared/rewards';
+
+interface RewardEditorProps {
+  value: RewardSpec;
+  onChange: (value: RewardSpec) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white';
+
+function useAdminBoosts() {
+  return useQuery({
+    queryKey: ['/api/admin/boosts'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/admin/boosts');
+      const data = await response.json();
+      return (data.boosts || []) as { id: string; name: string; multiplier?: number }[];
+    },
+    staleTime: 60000,
+  });
+}
+
+function defaultReward(type: RewardType): RewardSpec {
+  switch (type) {
+    case 'lp': return { type, amount: 500 };
+    case 'lg': return { type, amount: 10 };
+    case 'energy': return { type, amount: 0 };
+    case 'bundle': return { type, rewards: [{ type: 'lp', amount: 500 }] };
+    default: return { type };
+  }
+}
+
+function SingleRewardFields({ reward, allowBundle, onChange }: { reward: RewardSpec; allowBundle: boolean; onChange: (reward: RewardSpec) => void }) {
+  const { characters } = useGame();
+  const { data: boosts = [] } = useAdminBoosts();
+  const info = getRewardTypeInfo(reward.type);
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Reward Type *</label>
+        <select value={reward.type} onChange={(e) => onChange(defaultReward(e.target.value as RewardType))} className={inputClass}>
+          {REWARD_TYPES.filter(t => allowBundle || t.bundleable).map(t => <option key={t.type} value={t.type}>{t.icon} {t.label}</option>)}
+        </select>
+      </div>
+      <div>
+        {info?.input === 'amount' && (
+          <>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Amount *</label>
+            <input type="number" value={reward.amount ?? 0} onChange={(e) => onChange({ ...reward, amount: parseInt(e.target.value) || 0 })} className={inputClass} min={reward.type === 'energy' ? 0 : 1} required />
+          </>
+        )}
+        {info?.input === 'boostId' && (
+          <>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Boost *</label>
+            <select value={reward.boostId || ''} onChange={(e) => onChange({ ...reward, boostId: e.target.value })} className={inputClass} required>
+              <option value="" disabled>Select a boost...</option>
+              {boosts.map(b => <option key={b.id} value={b.id}>{b.name}{b.multiplier ? ` (${b.multiplier}x)` : ''}</option>)}
+            </select>
+          </>
+        )}
+        {info?.input === 'characterId' && (
+          <>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Character *</label>
+            <select value={reward.characterId || ''} onChange={(e) => onChange({ ...reward, characterId: e.target.value })} className={inputClass} required>
+              <option value="" disabled>Select a character...</option>
+              {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </>
+        )}
+        {info?.input === 'imageId' && (
+          <>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Image ID *</label>
+            <input type="text" value={reward.imageId || ''} onChange={(e) => onChange({ ...reward, imageId: e.target.value.trim() })} placeholder="1761948107606-444194414" className={inputClass} required />
+            <p className="text-xs text-gray-500 mt-1">Upload filename without extension</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Edits a task/achievement reward. A bundle grants several rewards at once (no nested bundles).
+ */
+export default function RewardEditor({ value, onChange }: RewardEditorProps) {
+  if (value.type !== 'bundle') {
+    return <SingleRewardFields reward={value} allowBundle onChange={onChange} />;
+  }
+
+  const rewards = value.rewards || [];
+  const setRewards = (next: RewardSpec[]) => onChange({ ...value, rewards: next });
+
+  return (
+    <div className="space-y-3">
+      <SingleRewardFields reward={value} allowBundle onChange={onChange} />
+      {rewards.map((reward, index) => (
+        <div key={index} className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs text-gray-400">Reward {index + 1}</span>
+            <button type="button" onClick={() => setRewards(rewards.filter((_, i) => i !== index))} className="text-red-400 hover:text-red-300" disabled={rewards.length <= 1}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <SingleRewardFields reward={reward} allowBundle={false} onChange={(next) => setRewards(rewards.map((r, i) => i === index ? next : r))} />
+        </div>
+      ))}
+      <button type="button" onClick={() => setRewards([...rewards, defaultReward('lp')])} className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg">
+        <Plus className="w-4 h-4" /> Add reward
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from 'react';
+
+export interface TaskSchedule {
+  resetType: string;
+  rotation?: boolean;
+  startsAt?: string | null;
+  endsAt?: string | null;
+}
+
+interface TaskScheduleFieldsProps {
+  value: TaskSchedule;
+  onChange: (value: TaskSchedule) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white';
+
+// <input type="datetime-local"> works in local time without a zone; the task stores ISO strings
+const toLocalInput = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+/**
+ * Reset cadence of a task: daily (optionally in the seeded rotation pool), weekly,
+ * limited-time special or one-time.
+ */
+export default function TaskScheduleFields({ value, onChange }: TaskScheduleFieldsProps) {
+  const changeType = (resetType: string) => {
+    onChange({
+      resetType,
+      rotation: resetType === 'daily' ? value.rotation : false,
+      startsAt: resetType === 'special' ? value.startsAt : null,
+      endsAt: resetType === 'special' ? value.endsAt : null
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Reset Interval *</label>
+        <select value={value.resetType} onChange={(e) => changeType(e.target.value)} className={inputClass}>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="special">Special (limited time)</option>
+          <option value="never">Never (One-Time)</option>
+        </select>
+      </div>
+
+      {value.resetType === 'daily' && (
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+          <input type="checkbox" checked={!!value.rotation} onChange={(e) => onChange({ ...value, rotation: e.target.checked })} className="rounded" />
+          Daily rotation pool (each player gets a few pool tasks per day)
+        </label>
+      )}
+
+      {value.resetType === 'special' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Starts</label>
+            <input type="datetime-local" value={toLocalInput(value.startsAt)} onChange={(e) => onChange({ ...value, startsAt: fromLocalInput(e.target.value) })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Ends *</label>
+            <input type="datetime-local" value={toLocalInput(value.endsAt)} onChange={(e) => onChange({ ...value, endsAt: fromLocalInput(e.target.value) })} className={inputClass} required />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
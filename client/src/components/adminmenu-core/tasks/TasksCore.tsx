@@ -3,6 +3,7 @@ import { Plus, Edit, Trash2, TrendingUp } from 'lucide-react';
 import TasksEdit from './TasksEdit';
 import TasksCreate from './TasksCreate';
 import { apiRequest } from '@/lib/queryClient';
+import { describeReward, getRewardSpec } from '@shared/rewards';
 
 interface Task {
   id: string;
@@ -13,8 +14,10 @@ interface Task {
   rewardType?: string;
   rewardAmount?: number;
   resetInterval?: string;
+  resetType?: string;
+  rotation?: boolean;
   requirement?: any;
-  reward?: any;
+  rewardData?: Record<string, any> | null;
 }
 
 export default function TasksCore() {
@@ -100,9 +103,9 @@ export default function TasksCore() {
                     <h4 className="font-semibold text-white">{task.name}</h4>
                     <p className="text-sm text-gray-400">{task.description}</p>
                   </div>
-                  {task.resetInterval && (
+                  {(task.resetType || task.resetInterval) && (
                     <span className="px-2 py-0.5 bg-blue-900/30 text-blue-300 rounded text-xs font-semibold">
-                      {task.resetInterval}
+                      {task.resetType || task.resetInterval}{task.rotation ? ' · rotation' : ''}
                     </span>
                   )}
                 </div>
@@ -111,7 +114,7 @@ export default function TasksCore() {
                     {task.requirementType || 'Custom'}: {task.target || 'N/A'}
                   </span>
                   <span className="bg-green-900/30 text-green-300 px-2 py-0.5 rounded">
-                    Reward: {task.rewardAmount || 0} {(task.rewardType?.toUpperCase() || 'LP')}
+                    Reward: {describeReward(getRewardSpec(task))}
                   </span>
                 </div>
               </div>
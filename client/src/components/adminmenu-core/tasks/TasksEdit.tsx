@@ -1,13 +1,28 @@
 import React, { useState } from 'react';
 import { Save, X } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import RequirementEditor from '../requirements/RequirementEditor';
+import RewardEditor from '../rewards/RewardEditor';
+import TaskScheduleFields, { type TaskSchedule } from './TaskScheduleFields';
+import { getRequirementNode, toRequirementFields, type RequirementNode } from '@shared/requirements';
+import { getRewardSpec, toRewardFields, type RewardSpec } from '@shared/rewards';
 
 interface Task {
   id: string;
   name: string;
   description: string;
-  requirement: any;
-  reward: any;
+  requirementType?: string;
+  target?: number;
+  requirementParams?: Record<string, any>;
+  requirement?: RequirementNode | null;
+  rewardType?: string;
+  rewardAmount?: number;
+  rewardData?: Record<string, any> | null;
+  resetType?: string;
+  resetInterval?: string;
+  rotation?: boolean;
+  startsAt?: string | null;
+  endsAt?: string | null;
   repeatable: boolean;
 }
 
@@ -19,6 +34,14 @@ interface TasksEditProps {
 
 export default function TasksEdit({ task, onSave, onCancel }: TasksEditProps) {
   const [formData, setFormData] = useState<Task>(task);
+  const [requirement, setRequirement] = useState<RequirementNode>(() => getRequirementNode(task));
+  const [schedule, setSchedule] = useState<TaskSchedule>(() => ({
+    resetType: task.resetType ?? task.resetInterval ?? 'daily',
+    rotation: task.rotation,
+    startsAt: task.startsAt,
+    endsAt: task.endsAt
+  }));
+  const [reward, setReward] = useState<RewardSpec>(() => getRewardSpec(task));
   const [saving, setSaving] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -26,19 +49,12 @@ export default function TasksEdit({ task, onSave, onCancel }: TasksEditProps) {
     setSaving(true);
 
     try {
-      const response = await apiRequest(`/api/admin/tasks/${task.id}`, {
-        method: 'PUT',
-        body: JSON.stringify(formData)
-      });
-      if (response.ok) {
-        alert('Task updated successfully!');
-        onSave();
-      } else {
-        throw new Error('Failed to update task');
-      }
-    } catch (error) {
+      await apiRequest('PUT', `/api/admin/tasks/${task.id}`, { ...formData, ...schedule, ...toRequirementFields(requirement), ...toRewardFields(reward, task.rewardData || {}) });
+      alert('Task updated successfully!');
+      onSave();
+    } catch (error: any) {
       console.error('Failed to update task:', error);
-      alert('Failed to update task. Check console for details.');
+      alert(error.message || 'Failed to update task. Check console for details.');
     } finally {
       setSaving(false);
     }
@@ -69,15 +85,11 @@ export default function TasksEdit({ task, onSave, onCancel }: TasksEditProps) {
           </label>
         </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-300 mb-2">Requirement (JSON)</label>
-          <textarea value={JSON.stringify(formData.requirement, null, 2)} onChange={(e) => { try { setFormData({ ...formData, requirement: JSON.parse(e.target.value) }); } catch {} }} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm" rows={4} />
-        </div>
+        <TaskScheduleFields value={schedule} onChange={setSchedule} />
 
-        <div>
-          <label className="block text-sm font-medium text-gray-300 mb-2">Reward (JSON)</label>
-          <textarea value={JSON.stringify(formData.reward, null, 2)} onChange={(e) => { try { setFormData({ ...formData, reward: JSON.parse(e.target.value) }); } catch {} }} className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm" rows={4} />
-        </div>
+        <RequirementEditor kind="task" value={requirement} onChange={setRequirement} />
+
+        <RewardEditor value={reward} onChange={setReward} />
 
         <div className="flex gap-3 pt-4">
           <button type="submit" disabled={saving} className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded-lg transition-colors">
@@ -97,6 +97,9 @@ export default function UpgradesCreate({ onSave, onCancel }: UpgradesCreateProps
               <option value="perTap">Per Tap</option>
               <option value="perHour">Per Hour</option>
               <option value="energyMax">Energy Max</option>
+              <option value="energyRegen">Energy Regen</option>
+              <option value="critChance">Crit Chance (%)</option>
+              <option value="critMultiplier">Crit Multiplier</option>
               <option value="other">Other</option>
             </select>
           </div>
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
@@ -13,6 +13,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Trophy, Clock, Star, Gift, CheckCircle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useGame } from "@/contexts/GameContext";
+import { describeReward, getRewardSpec } from "@shared/rewards";
 
 interface Props {
   isOpen: boolean;
@@ -30,8 +31,19 @@ interface Task {
   isClaimed: boolean;
   rewardType: string;
   rewardAmount: number;
+  cadence: TaskCadence;
+  inRotation?: boolean;
+  endsAt?: string | null;
   timeRemaining?: number;
 }
+type TaskCadence = "daily" | "weekly" | "special" | "oneTime";
+
+const CADENCE_SECTIONS: { cadence: TaskCadence; title: string }[] = [
+  { cadence: "daily", title: "Daily" },
+  { cadence: "weekly", title: "Weekly" },
+  { cadence: "special", title: "Limited Time" },
+  { cadence: "oneTime", title: "One-Time" },
+];
 interface Achievement {
   id: string;
   name: string;
@@ -53,6 +65,14 @@ export default function TasksMenu({ isOpen, onClose }: Props) {
   const { refetch: refetchPlayer } = useGame();
   const qc = useQueryClient();
   const [activeTab, setActiveTab] = useState("tasks");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Ticks the countdowns while the menu is open
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen]);
 
   const { data: tasksData, refetch: refetchTasks } = useQuery({
     queryKey: ["/api/tasks"],
@@ -98,10 +118,24 @@ export default function TasksMenu({ isOpen, onClose }: Props) {
   const tasks: Task[] = tasksData?.tasks || [];
   const achievements: Achievement[] = achievementsData?.achievements || [];
   const formatTime = (s: number) => {
-    const h = Math.floor(s / 3600),
+    const d = Math.floor(s / 86400),
+      h = Math.floor((s % 86400) / 3600),
       m = Math.floor((s % 3600) / 60);
-    return `${h}h ${m}m`;
+    if (d > 0) return `${d}d ${h}h`;
+    if (h > 0) return `${h}h ${m}m`;
+    return `${m}m ${Math.floor(s % 60)}s`;
+  };
+  const secondsUntil = (iso?: string | null) =>
+    iso ? Math.max(0, Math.floor((new Date(iso).getTime() - now) / 1000)) : null;
+  const sectionCountdown = (cadence: TaskCadence) => {
+    const nextReset = cadence === "daily" || cadence === "weekly" ? tasksData?.nextResets?.[cadence] : null;
+    const seconds = secondsUntil(nextReset);
+    return seconds === null ? null : `Resets in ${formatTime(seconds)}`;
   };
+  const taskSections = CADENCE_SECTIONS.map((section) => ({
+    ...section,
+    tasks: tasks.filter((t) => (t.cadence || "oneTime") === section.cadence),
+  })).filter((section) => section.tasks.length > 0);
   const getRarityColor = (r: string) =>
     ({
       legendary: "text-yellow-400 border-yellow-400/30 bg-yellow-400/10",
@@ -161,65 +195,79 @@ export default function TasksMenu({ isOpen, onClose }: Props) {
                 <div>No tasks available</div>
               </div>
             ) : (
-              tasks.map((t) => (
-                <div
-                  key={t.id}
-                  className="p-4 bg-gray-800/30 rounded-lg border border-gray-700/50"
-                >
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex items-start gap-3">
-                      <div className="text-2xl">{t.icon}</div>
-                      <div>
-                        <h3 className="font-semibold text-white">{t.name}</h3>
-                        <p className="text-gray-400 text-sm">{t.description}</p>
-                        {t.timeRemaining && (
-                          <div className="text-xs text-orange-400 mt-1">
-                            ⏰ {formatTime(t.timeRemaining)} remaining
+              taskSections.map((section) => (
+                <div key={section.cadence} className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-purple-300">
+                      {section.title}
+                    </h3>
+                    {sectionCountdown(section.cadence) && (
+                      <span className="flex items-center gap-1 text-xs text-gray-400">
+                        <Clock className="w-3 h-3" />
+                        {sectionCountdown(section.cadence)}
+                      </span>
+                    )}
+                  </div>
+                  {section.tasks.map((t) => (
+                    <div
+                      key={t.id}
+                      className="p-4 bg-gray-800/30 rounded-lg border border-gray-700/50"
+                    >
+                      <div className="flex items-start justify-between mb-3">
+                        <div className="flex items-start gap-3">
+                          <div className="text-2xl">{t.icon}</div>
+                          <div>
+                            <h3 className="font-semibold text-white">{t.name}</h3>
+                            <p className="text-gray-400 text-sm">{t.description}</p>
+                            {t.cadence === "special" && t.endsAt && (
+                              <div className="text-xs text-orange-400 mt-1">
+                                ⏰ {formatTime(secondsUntil(t.endsAt) || 0)} remaining
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <div className="text-right text-sm">
+                            <div className="text-purple-300 font-medium">
+                              {describeReward(getRewardSpec(t))}
+                            </div>
                           </div>
-                        )}
+                          {t.isClaimed ? (
+                            <Badge className="bg-gray-600/20 text-gray-300 border-gray-400/30">
+                              <CheckCircle className="w-3 h-3 mr-1" />
+                              Claimed
+                            </Badge>
+                          ) : t.isCompleted ? (
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700"
+                              onClick={() => claimTaskMutation.mutate(t.id)}
+                              disabled={claimTaskMutation.isPending}
+                            >
+                              <Gift className="w-3 h-3 mr-1" />
+                              Claim
+                            </Button>
+                          ) : (
+                            <Badge className="bg-gray-600/20 text-gray-300 border-gray-400/30">
+                              In Progress
+                            </Badge>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="text-right text-sm">
-                        <div className="text-purple-300 font-medium">
-                          {t.rewardType.toUpperCase()} +
-                          {t.rewardAmount.toLocaleString()}
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-400">Progress</span>
+                          <span className="text-white">
+                            {Math.round(t.progress)}/{t.target}
+                          </span>
                         </div>
+                        <Progress
+                          value={(t.progress / t.target) * 100}
+                          className="h-2"
+                        />
                       </div>
-                      {t.isClaimed ? (
-                        <Badge className="bg-gray-600/20 text-gray-300 border-gray-400/30">
-                          <CheckCircle className="w-3 h-3 mr-1" />
-                          Claimed
-                        </Badge>
-                      ) : t.isCompleted ? (
-                        <Button
-                          size="sm"
-                          className="bg-green-600 hover:bg-green-700"
-                          onClick={() => claimTaskMutation.mutate(t.id)}
-                          disabled={claimTaskMutation.isPending}
-                        >
-                          <Gift className="w-3 h-3 mr-1" />
-                          Claim
-                        </Button>
-                      ) : (
-                        <Badge className="bg-gray-600/20 text-gray-300 border-gray-400/30">
-                          In Progress
-                        </Badge>
-                      )}
                     </div>
-                  </div>
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-400">Progress</span>
-                      <span className="text-white">
-                        {Math.round(t.progress)}/{t.target}
-                      </span>
-                    </div>
-                    <Progress
-                      value={(t.progress / t.target) * 100}
-                      className="h-2"
-                    />
-                  </div>
+                  ))}
                 </div>
               ))
             )}
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useGame } from '@/contexts/GameContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { Trophy, Clock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { LeaderboardEntry, LeaderboardId, LeaderboardResult } from '@shared/gameConfig';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface BoardsResponse {
+  leaderboards: { id: LeaderboardId; label: string; window: LeaderboardResult['window'] }[];
+}
+
+const RANK_STYLES: Record<number, string> = {
+  1: 'text-yellow-300',
+  2: 'text-gray-300',
+  3: 'text-orange-400'
+};
+
+const formatCountdown = (resetsAt: string) => {
+  const minutes = Math.max(0, Math.ceil((new Date(resetsAt).getTime() - Date.now()) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+function EntryRow({ entry, highlight }: { entry: LeaderboardEntry; highlight: boolean }) {
+  return (
+    <div className={`flex items-center justify-between px-3 py-2 rounded text-sm ${highlight ? 'bg-purple-600/30 border border-purple-400/40' : 'bg-gray-800/60'}`}>
+      <span className="flex items-center gap-3 truncate">
+        <span className={`w-8 text-right font-bold ${RANK_STYLES[entry.rank] || 'text-gray-400'}`}>#{entry.rank}</span>
+        <span className="truncate text-white">{entry.username}</span>
+      </span>
+      <span className="font-semibold text-purple-200">{entry.value.toLocaleString()}</span>
+    </div>
+  );
+}
+
+export default function LeaderboardMenu({ isOpen, onClose }: Props) {
+  const { state } = useGame();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [boardId, setBoardId] = useState<LeaderboardId>('lp-all-time');
+  const [saving, setSaving] = useState(false);
+
+  const { data: boardsData } = useQuery<BoardsResponse>({
+    queryKey: ['/api/leaderboards'],
+    enabled: isOpen
+  });
+  const { data: board, isLoading } = useQuery<LeaderboardResult>({
+    queryKey: [`/api/leaderboards/${boardId}`],
+    enabled: isOpen,
+    staleTime: 0
+  });
+
+  const boards = boardsData?.leaderboards || [];
+  const entries = board?.entries || [];
+  const meInTop = !!board?.me && entries.some(e => e.playerId === board.me!.playerId);
+
+  const toggleOptOut = async (optOut: boolean) => {
+    setSaving(true);
+    try {
+      await apiRequest('PATCH', '/api/player/me', { leaderboardOptOut: optOut });
+      await queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith('/api/leaderboards/') });
+    } catch (error: any) {
+      toast({ title: 'Could not update setting', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg bg-gray-900/95 border-purple-500/30">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-yellow-300">
+            <Trophy className="w-5 h-5" />
+            Leaderboards
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {boards.map((b) => (
+            <button
+              key={b.id}
+              onClick={() => setBoardId(b.id)}
+              className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+                boardId === b.id ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {b.label}
+            </button>
+          ))}
+        </div>
+
+        {board?.resetsAt && (
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <Clock className="w-3 h-3" />
+            Resets in {formatCountdown(board.resetsAt)}
+          </div>
+        )}
+
+        <div className="space-y-1 max-h-[50vh] overflow-y-auto">
+          {isLoading && <div className="text-center text-sm text-gray-400 py-6">Loading leaderboard...</div>}
+          {!isLoading && entries.length === 0 && (
+            <div className="text-center text-sm text-gray-400 py-6">Nobody is ranked here yet.</div>
+          )}
+          {entries.map((entry) => (
+            <EntryRow key={entry.playerId} entry={entry} highlight={entry.playerId === board?.me?.playerId} />
+          ))}
+        </div>
+
+        {/* Own rank stays visible even when outside the top list */}
+        {board?.me && !meInTop && (
+          <div className="border-t border-gray-700 pt-2">
+            <EntryRow entry={board.me} highlight />
+          </div>
+        )}
+        {board && !board.me && !board.optedOut && !state.isAdmin && (
+          <div className="text-xs text-gray-500 text-center">You are not ranked on this board yet.</div>
+        )}
+        {board && (
+          <div className="text-xs text-gray-500 text-center">{board.totalPlayers.toLocaleString()} ranked players</div>
+        )}
+
+        {!state.isAdmin && (
+          <label className="flex items-center justify-between gap-3 text-sm text-gray-300 border-t border-gray-700 pt-3">
+            <span>Hide me from leaderboards</span>
+            <Switch checked={!!board?.optedOut} disabled={saving || !board} onCheckedChange={toggleOptOut} />
+          </label>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
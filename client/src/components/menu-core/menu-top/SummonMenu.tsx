@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useGame } from '@/contexts/GameContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Gem, Sparkles, ChevronDown, ChevronUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { GachaBannerConfig, GachaOdds, GachaPullRecord, Rarity } from '@shared/gameConfig';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface BannerView extends GachaBannerConfig {
+  odds: GachaOdds;
+  status: { pulls: number; pity: number; pullsUntilPity: number | null };
+}
+
+interface BannersResponse {
+  banners: BannerView[];
+  maxPullsPerRequest: number;
+}
+
+const RARITY_STYLES: Record<Rarity, string> = {
+  common: 'bg-gray-600',
+  rare: 'bg-blue-600',
+  epic: 'bg-purple-600',
+  legendary: 'bg-yellow-600'
+};
+
+const percent = (probability: number) => `${(probability * 100).toFixed(probability < 0.01 ? 2 : 1)}%`;
+
+export default function SummonMenu({ isOpen, onClose }: Props) {
+  const { state, dispatch } = useGame();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pulling, setPulling] = useState(false);
+  const [lastPulls, setLastPulls] = useState<GachaPullRecord[]>([]);
+  const [oddsOpen, setOddsOpen] = useState<string | null>(null);
+
+  // Odds are the server's own roll tables, so what is shown here is exactly what can drop
+  const { data, isLoading } = useQuery<BannersResponse>({
+    queryKey: ['/api/gacha/banners'],
+    enabled: isOpen,
+    staleTime: 0
+  });
+  const banners = data?.banners || [];
+  const multiPull = data?.maxPullsPerRequest || 10;
+
+  const pull = async (banner: BannerView, count: number) => {
+    setPulling(true);
+    try {
+      const response = await apiRequest('POST', `/api/player/gacha/${banner.id}/pull`, { count });
+      const result = await response.json();
+      const pulls: GachaPullRecord[] = result.pulls || [];
+      setLastPulls(pulls);
+
+      const fresh = pulls.filter(p => !p.duplicate);
+      const refunded = pulls.reduce((sum, p) => sum + p.gemsRefunded, 0);
+      toast({
+        title: `✨ ${banner.name}`,
+        description: [
+          fresh.length > 0 ? `New: ${fresh.map(p => p.name).join(', ')}` : 'No new items',
+          refunded > 0 ? `+${refunded} 💎 from duplicates` : ''
+        ].filter(Boolean).join(' · ')
+      });
+
+      dispatch({ type: 'REFRESH_FROM_SERVER' });
+      await queryClient.invalidateQueries({ queryKey: ['/api/gacha/banners'] });
+    } catch (error: any) {
+      toast({ title: 'Summon Failed', description: error.message, variant: 'destructive' });
+    } finally {
+      setPulling(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl bg-gray-900/95 border-purple-500/30">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-yellow-300">
+            <Sparkles className="w-5 h-5" />
+            Summon
+          </DialogTitle>
+          <div className="flex items-center gap-2 text-sm text-blue-300">
+            <Gem className="w-4 h-4" />
+            <span>Your LustGems: <strong>{(state.lustGems || 0).toLocaleString()}</strong></span>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {isLoading && <div className="text-center text-sm text-gray-400 py-6">Loading banners...</div>}
+          {!isLoading && banners.length === 0 && (
+            <div className="text-center text-sm text-gray-400 py-6">No banners are running right now.</div>
+          )}
+
+          {banners.map((banner) => {
+            const pity = banner.odds.pity;
+            return (
+              <div key={banner.id} className="p-4 rounded-lg border border-purple-500/30 bg-gray-800/40 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <span className="text-3xl">{banner.icon || '✨'}</span>
+                    <div>
+                      <div className="font-semibold text-white">{banner.name}</div>
+                      <div className="text-sm text-gray-400">{banner.description}</div>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {[1, multiPull].map((count) => (
+                      <Button
+                        key={count}
+                        size="sm"
+                        disabled={pulling || (state.lustGems || 0) < banner.cost * count}
+                        onClick={() => pull(banner, count)}
+                        className="bg-purple-600 hover:bg-purple-700 text-white"
+                      >
+                        x{count} · <Gem className="w-3 h-3 mx-1" />{banner.cost * count}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {pity && (
+                  <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                      <span>Guaranteed {pity.rarity} in {banner.status.pullsUntilPity} pull{banner.status.pullsUntilPity === 1 ? '' : 's'}</span>
+                      <span>{banner.status.pity}/{pity.pulls}</span>
+                    </div>
+                    <Progress value={(banner.status.pity / pity.pulls) * 100} className="h-1.5" />
+                  </div>
+                )}
+
+                <button
+                  onClick={() => setOddsOpen(oddsOpen === banner.id ? null : banner.id)}
+                  className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-100"
+                >
+                  {oddsOpen === banner.id ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                  Drop rates
+                </button>
+                {oddsOpen === banner.id && (
+                  <div className="space-y-2 text-xs">
+                    <div className="flex flex-wrap gap-2">
+                      {banner.odds.rarities.map(({ rarity, probability }) => (
+                        <Badge key={rarity} className={`${RARITY_STYLES[rarity]} capitalize`}>{rarity} {percent(probability)}</Badge>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-300">
+                      {banner.odds.entries.map((entry) => (
+                        <div key={`${entry.type}-${entry.id}`} className="flex justify-between">
+                          <span className="truncate">{entry.type === 'character' ? '👤' : '🖼️'} {entry.name}</span>
+                          <span className="text-gray-400">{percent(entry.probability)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="text-gray-500">Odds version {banner.odds.version}</div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {lastPulls.length > 0 && (
+            <div className="p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/5">
+              <div className="text-sm font-semibold text-yellow-300 mb-2">Last summon</div>
+              <div className="grid grid-cols-2 gap-2">
+                {lastPulls.map((record) => (
+                  <div key={record.id} className="flex items-center justify-between text-xs bg-gray-800/60 rounded px-2 py-1">
+                    <span className="flex items-center gap-2 truncate">
+                      <Badge className={`${RARITY_STYLES[record.rarity]} capitalize`}>{record.rarity}</Badge>
+                      <span className="truncate text-white">{record.name}</span>
+                    </span>
+                    <span className={record.duplicate ? 'text-gray-400' : 'text-green-400'}>
+                      {record.duplicate ? `+${record.gemsRefunded} 💎` : 'NEW'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,12 @@
 import React from 'react';
 import { useGame } from '@/contexts/GameContext';
-import { User, Crown, Zap, Flame, Image } from 'lucide-react';
+import { User, Crown, Zap, Flame, Image, Sparkles, Trophy } from 'lucide-react';
 import PlayerInfoMenu from './PlayerInfoMenu';
 import CharacterSelectionMenu from './CharacterSelectionMenu';
 import CharacterGalleryMenu from './CharacterGalleryMenu';
 import BoostStatusMenu from './BoostStatusMenu';
+import SummonMenu from './SummonMenu';
+import LeaderboardMenu from './LeaderboardMenu';
 
 export interface TopMenuConfig {
   id: string;
@@ -17,7 +19,9 @@ const TOP_MENUS: TopMenuConfig[] = [
   { id: 'player-info', component: PlayerInfoMenu, position: 'left' },
   { id: 'character-selection', component: CharacterSelectionMenu, position: 'center' },
   { id: 'character-gallery', component: CharacterGalleryMenu, position: 'center' },
-  { id: 'boost-status', component: BoostStatusMenu, position: 'right' }
+  { id: 'boost-status', component: BoostStatusMenu, position: 'right' },
+  { id: 'summon', component: SummonMenu, position: 'center' },
+  { id: 'leaderboards', component: LeaderboardMenu, position: 'center' }
 ];
 
 interface Props {
@@ -60,14 +64,30 @@ export default function TopMenuManager({ activeMenu, openMenu, closeMenu }: Prop
               </div>
             </button>
             
-            {/* Character Selection Button (Crown) */}
-            <button 
-              onClick={() => openMenu('character-selection')} 
-              className="bg-purple-600/20 hover:bg-purple-600/40 px-2 py-2 rounded-full border border-purple-500/30 flex items-center justify-center transition-colors"
-              title="Character Selection"
-            >
-              <Crown className="w-5 h-5 text-purple-400" />
-            </button>
+            {/* Character Selection Button (Crown) + Summon + Leaderboards */}
+            <div className="flex items-center gap-2">
+              <button 
+                onClick={() => openMenu('character-selection')} 
+                className="bg-purple-600/20 hover:bg-purple-600/40 px-2 py-2 rounded-full border border-purple-500/30 flex items-center justify-center transition-colors"
+                title="Character Selection"
+              >
+                <Crown className="w-5 h-5 text-purple-400" />
+              </button>
+              <button 
+                onClick={() => openMenu('summon')} 
+                className="bg-yellow-600/20 hover:bg-yellow-600/40 px-2 py-2 rounded-full border border-yellow-500/30 flex items-center justify-center transition-colors"
+                title="Summon"
+              >
+                <Sparkles className="w-5 h-5 text-yellow-400" />
+              </button>
+              <button 
+                onClick={() => openMenu('leaderboards')} 
+                className="bg-amber-600/20 hover:bg-amber-600/40 px-2 py-2 rounded-full border border-amber-500/30 flex items-center justify-center transition-colors"
+                title="Leaderboards"
+              >
+                <Trophy className="w-5 h-5 text-amber-400" />
+              </button>
+            </div>
             
             {/* LP/HR Display */}
             <div className="text-center">
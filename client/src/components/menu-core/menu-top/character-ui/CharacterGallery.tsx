@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useGame } from '@/contexts/GameContext';
 import { Lock, Image as ImageIcon } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { toSrcSet } from '@shared/imageMetadata';
 
 interface CharacterGalleryProps {
   isOpen: boolean;
@@ -13,20 +14,36 @@ interface GalleryImage {
   filename: string;
   url: string;
   path: string;
+  // WebP variants (signed like `url`), smallest first; empty for locked images and old uploads
+  sources: { url: string; width: number }[];
+  width: number | null;
+  height: number | null;
+  placeholder: string | null;
   characterId: string;
   type: string;
   unlockLevel?: number;
   isUnlocked: boolean;
+  lockReason: 'level' | 'character' | 'vip' | 'nsfw' | 'hidden' | null;
   metadata: {
     nsfw: boolean;
     vip: boolean;
     poses: string[];
-    category?: string;
   };
 }
 
+// Grid columns go from 2 to 5 as the screen grows, so a tile is never much wider than half the viewport
+const GALLERY_TILE_SIZES = '(min-width: 1280px) 20vw, (min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw';
+
+const LOCK_LABELS: Record<string, (image: GalleryImage) => string> = {
+  level: (image) => `Level ${image.unlockLevel || '?'}`,
+  character: () => 'Character locked',
+  vip: () => 'VIP only',
+  nsfw: () => 'NSFW hidden',
+  hidden: () => 'Hidden',
+};
+
 export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryProps) {
-  const { state, characters, updatePlayer } = useGame();
+  const { state, characters, updatePlayer, refreshPlayerState } = useGame();
   const [selectedCharacter, setSelectedCharacter] = useState<string>('');
   const [images, setImages] = useState<GalleryImage[]>([]);
   const [loading, setLoading] = useState(false);
@@ -45,7 +62,8 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
     }
   }, [isOpen, state.activeCharacter]);
 
-  // ✅ FIXED: Parse /api/media response correctly
+  // 🔐 Server decides what is unlocked - unlocked images come back with short-lived signed URLs,
+  // locked ones with a URL the media gate answers with a blurred placeholder
   const loadImages = async (characterId: string) => {
     try {
       setLoading(true);
@@ -53,76 +71,12 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
 
       console.log(`🔍 [GALLERY] Loading images for character: ${characterId}`);
 
-      const response = await apiRequest('GET', '/api/media');
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`📦 [GALLERY] Received ${data.media?.length || 0} total media files`);
-
-        const characterImages = (data.media || [])
-          .filter((img: any) => {
-            // ✅ Extract characterId from path if not in metadata
-            let imgCharId = img.metadata?.characterId;
-            
-            if (!imgCharId && img.path) {
-              // Path format: /uploads/characters/CHARACTERID/TYPE/filename.png
-              const pathParts = img.path.split('/');
-              const charactersIndex = pathParts.indexOf('characters');
-              if (charactersIndex !== -1 && pathParts.length > charactersIndex + 1) {
-                imgCharId = pathParts[charactersIndex + 1];
-              }
-            }
-            
-            const matches = imgCharId?.toLowerCase() === characterId.toLowerCase();
-            if (matches) {
-              console.log(`✅ [GALLERY] Match found: ${img.filename} for ${characterId}`);
-            }
-            return matches;
-          })
-          .map((img: any) => {
-            // ✅ Extract characterId from path
-            let imgCharId = img.metadata?.characterId;
-            if (!imgCharId && img.path) {
-              const pathParts = img.path.split('/');
-              const charactersIndex = pathParts.indexOf('characters');
-              if (charactersIndex !== -1 && pathParts.length > charactersIndex + 1) {
-                imgCharId = pathParts[charactersIndex + 1];
-              }
-            }
-
-            // ✅ Use the path from API response directly
-            const imagePath = img.path || img.url || '';
-
-            return {
-              id: img.filename?.split('.')[0] || Math.random().toString(36),
-              filename: img.filename || 'unknown',
-              url: imagePath,
-              path: imagePath,
-              characterId: imgCharId || characterId,
-              type: img.metadata?.type || 'character',
-              unlockLevel: img.metadata?.unlockLevel || 1,
-              isUnlocked: !img.metadata?.unlockLevel || state.level >= img.metadata.unlockLevel,
-              metadata: {
-                nsfw: img.metadata?.nsfw || img.metadata?.category?.includes('nsfw') || false,
-                vip: img.metadata?.vip || img.metadata?.category?.includes('vip') || false,
-                poses: img.metadata?.poses || [],
-                category: img.metadata?.category || 'default',
-              }
-            };
-          });
-
-        console.log(`✅ [GALLERY] Loaded ${characterImages.length} images for ${characterId}`);
-        if (characterImages.length > 0) {
-          console.log('🖼️ [GALLERY] First image:', characterImages[0]);
-        } else {
-          console.warn(`⚠️ [GALLERY] No images found for character: ${characterId}`);
-        }
+      const response = await apiRequest('GET', `/api/gallery/${encodeURIComponent(characterId)}`);
+      const data = await response.json();
+      const characterImages: GalleryImage[] = data.images || [];
 
-        setImages(characterImages);
-      } else {
-        const errorText = await response.text();
-        console.error('❌ [GALLERY] API Error:', errorText);
-        setError(`Failed to load images: ${response.status}`);
-      }
+      console.log(`✅ [GALLERY] Loaded ${characterImages.length} images for ${characterId}`);
+      setImages(characterImages);
     } catch (error: any) {
       console.error('❌ [GALLERY] Exception:', error);
       setError(error.message || 'Failed to load images');
@@ -131,6 +85,19 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
     }
   };
 
+  const toggleNsfw = async () => {
+    try {
+      await apiRequest('PATCH', '/api/player/me', { nsfwEnabled: !state.nsfwEnabled });
+      await refreshPlayerState();
+      if (selectedCharacter) {
+        await loadImages(selectedCharacter);
+      }
+    } catch (error: any) {
+      console.error('❌ [GALLERY] NSFW toggle failed:', error);
+      setError(error.message || 'Failed to update NSFW setting');
+    }
+  };
+
   // ✅ FIXED: Proper displayImage API call receiving full image object
   const handleSetDisplayImage = async (selected: GalleryImage) => {
     try {
@@ -177,6 +144,7 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
 
   const unlockedImages = images.filter(img => img.isUnlocked);
   const lockedImages = images.filter(img => !img.isUnlocked);
+  const hasNsfwImages = images.some(img => img.metadata.nsfw);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
@@ -201,6 +169,16 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
           </div>
           {/* Character Filter */}
           <div className="flex items-center gap-3">
+            {hasNsfwImages && (
+              <button
+                onClick={toggleNsfw}
+                className={`px-3 py-1.5 rounded-lg text-xs font-semibold whitespace-nowrap transition-colors ${
+                  state.nsfwEnabled ? 'bg-red-500/80 text-white hover:bg-red-500' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {state.nsfwEnabled ? '🔞 NSFW on' : '🔞 NSFW off'}
+              </button>
+            )}
             <label className="text-sm text-gray-300 font-medium">Character:</label>
             <div className="flex gap-2 overflow-x-auto pb-2">
               {characters
@@ -254,11 +232,16 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
                       return (
                         <div
                           key={image.id}
-                          className="relative group aspect-[3/4] rounded-xl overflow-hidden border-2 border-purple-500/30 hover:border-purple-500 transition-all duration-200 bg-gray-900"
+                          className="relative group aspect-[3/4] rounded-xl overflow-hidden border-2 border-purple-500/30 hover:border-purple-500 transition-all duration-200 bg-gray-900 bg-cover bg-center"
+                          style={image.placeholder ? { backgroundImage: `url(${image.placeholder})` } : undefined}
                         >
                           {/* ✅ FIXED: Image loading with error handling */}
                           <img
-                            src={image.url}
+                            src={image.sources[0]?.url || image.url}
+                            srcSet={image.sources.length > 0 ? toSrcSet(image.sources) : undefined}
+                            sizes={GALLERY_TILE_SIZES}
+                            width={image.width ?? undefined}
+                            height={image.height ?? undefined}
                             alt={image.filename}
                             className="w-full h-full object-cover"
                             crossOrigin="anonymous"
@@ -333,7 +316,7 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
                         className="relative aspect-[3/4] rounded-xl overflow-hidden border-2 border-gray-700 bg-gray-900 opacity-60"
                       >
                         <img
-                          src={image.url}
+                          src={image.placeholder || image.url}
                           alt={image.filename}
                           className="w-full h-full object-cover blur-sm"
                           crossOrigin="anonymous"
@@ -343,7 +326,7 @@ export default function CharacterGallery({ isOpen, onClose }: CharacterGalleryPr
                           <div className="text-center">
                             <Lock className="w-8 h-8 text-gray-400 mx-auto mb-2" />
                             <p className="text-xs text-gray-300 font-semibold">
-                              Level {image.unlockLevel || '?'}
+                              {(LOCK_LABELS[image.lockReason || 'level'] || LOCK_LABELS.level)(image)}
                             </p>
                           </div>
                         </div>
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useGame } from '@/contexts/GameContext';
-import { Lock, Check, Image as ImageIcon } from 'lucide-react';
+import { Lock, Check, Heart, Gift, Image as ImageIcon } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import GiftPanel from '@/components/GiftPanel';
+import type { AffectionStatus } from '@shared/gameConfig';
 
 interface CharacterSelectionProps {
   isOpen: boolean;
@@ -15,6 +18,18 @@ export default function CharacterSelection({ isOpen, onClose, openMenu }: Charac
   const [error, setError] = useState<string | null>(null);
   const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [giftOpen, setGiftOpen] = useState(false);
+
+  const { data: affection = [] } = useQuery({
+    queryKey: ['/api/player/affection'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/player/affection');
+      const data = await response.json();
+      return (data.affection || []) as AffectionStatus[];
+    },
+    enabled: isOpen,
+  });
+  const affectionById = new Map(affection.map(a => [a.characterId, a]));
 
   const handleCardClick = (characterId: string) => {
     setSelectedCharacterId(characterId);
@@ -28,7 +43,7 @@ export default function CharacterSelection({ isOpen, onClose, openMenu }: Charac
       setError(null);
       setSuccessMessage(null);
       
-      const response = await apiRequest('GET', '/api/player/active-character');
+      const response = await apiRequest('PATCH', '/api/player/active-character', { characterId: selectedCharacterId });
       
       if (response.ok) {
         const data = await response.json();
@@ -65,13 +80,16 @@ export default function CharacterSelection({ isOpen, onClose, openMenu }: Charac
 
   if (!isOpen) return null;
 
-  const unlockedCharacters = characters.filter(
-    char => !char.unlockLevel || state.level >= char.unlockLevel
-  );
+  // Summons can unlock a character before its level
+  const isUnlocked = (char: typeof characters[number]) =>
+    !char.unlockLevel || state.level >= char.unlockLevel || (state.unlockedCharacters || []).includes(char.id);
 
-  const lockedCharacters = characters.filter(
-    char => char.unlockLevel && state.level < char.unlockLevel
-  );
+  const unlockedCharacters = characters.filter(isUnlocked);
+
+  const lockedCharacters = characters.filter(char => !isUnlocked(char));
+
+  // Gifts go to the card the player picked, otherwise to the active character
+  const giftTarget = characters.find(c => c.id === (selectedCharacterId || state.activeCharacter));
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
@@ -139,6 +157,10 @@ export default function CharacterSelection({ isOpen, onClose, openMenu }: Charac
                 {unlockedCharacters.map((character) => {
                   const isActive = state.activeCharacter === character.id;
                   const isSelected = selectedCharacterId === character.id;
+                  const bond = affectionById.get(character.id);
+                  const bondPercent = bond
+                    ? bond.nextTierPoints === null ? 100 : Math.min(100, ((bond.points - bond.tierPoints) / (bond.nextTierPoints - bond.tierPoints)) * 100)
+                    : 0;
                   return (
                     <button
                       key={character.id}
@@ -179,12 +201,23 @@ export default function CharacterSelection({ isOpen, onClose, openMenu }: Charac
                             Unlocked at Lv.{character.unlockLevel}
                           </p>
                         )}
+                        {bond && (
+                          <div className="mt-2" title={bond.nextTierPoints === null ? `${bond.points} affection (max)` : `${bond.points}/${bond.nextTierPoints} affection`}>
+                            <div className="flex items-center justify-between text-[10px] text-pink-300 mb-1">
+                              <span className="flex items-center gap-1"><Heart className="w-3 h-3" />{bond.tierName}</span>
+                              {bond.tapMultiplier > 1 && <span>x{bond.tapMultiplier}</span>}
+                            </div>
+                            <div className="h-1.5 rounded-full bg-gray-700 overflow-hidden">
+                              <div className="h-full bg-gradient-to-r from-pink-500 to-rose-400" style={{ width: `${bondPercent}%` }} />
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </button>
                   );
                 })}
               </div>
-              <div className="flex justify-center mt-8">
+              <div className="flex justify-center gap-3 mt-8">
                 <button
                   className="px-8 py-3 rounded-lg bg-purple-600 text-white font-bold text-lg shadow hover:bg-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed mt-2"
                   disabled={!selectedCharacterId || loading || selectedCharacterId === state.activeCharacter}
@@ -192,6 +225,14 @@ export default function CharacterSelection({ isOpen, onClose, openMenu }: Charac
                 >
                   {loading ? 'Selecting...' : `Select ${selectedCharacterId ? characters.find(x=>x.id===selectedCharacterId)?.name : ''}`}
                 </button>
+                <button
+                  className="flex items-center gap-2 px-6 py-3 rounded-lg bg-pink-600 text-white font-bold text-lg shadow hover:bg-pink-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed mt-2"
+                  disabled={!giftTarget || loading}
+                  onClick={() => setGiftOpen(true)}
+                >
+                  <Gift className="w-5 h-5" />
+                  {giftTarget ? `Gift ${giftTarget.name}` : 'Gift'}
+                </button>
               </div>
             </div>
           )}
@@ -235,6 +276,15 @@ export default function CharacterSelection({ isOpen, onClose, openMenu }: Charac
             </div>
           )}
           
+          {giftTarget && (
+            <GiftPanel
+              isOpen={giftOpen}
+              onClose={() => setGiftOpen(false)}
+              characterId={giftTarget.id}
+              characterName={giftTarget.name}
+            />
+          )}
+
           {characters.length === 0 && (
             <div className="text-center py-12">
               <div className="w-16 h-16 rounded-full bg-gray-800 flex items-center justify-center mx-auto mb-4">
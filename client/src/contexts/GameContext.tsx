@@ -1,7 +1,9 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { DEFAULT_THEME, calculateUpgradeCost, calculateUpgradeValue, checkLevelRequirements, applyTheme, type UpgradeConfig, type CharacterConfig, type ImageConfig, type LevelConfig, type ThemeConfig } from '@shared/gameConfig';
+import { getPlayerRole, type PlayerRole } from '@shared/permissions';
 import { queryClient } from '@/lib/queryClient';
 import { invalidateAllGameQueries } from '@/utils/queryInvalidation';
+import { toast } from '@/hooks/use-toast';
 
 interface GameState {
   points: number;
@@ -21,6 +23,9 @@ interface GameState {
   passiveIncomeCap: number;
   energyRegenRate: number;
   isAdmin: boolean;
+  role: PlayerRole;
+  isVip: boolean;
+  nsfwEnabled: boolean;
   displayImage: string | null;
   lastTapValue?: number;
   boostActive: boolean;
@@ -35,6 +40,12 @@ interface GameState {
   telegramId?: string;
 }
 
+// A tap the server rolled as critical, identified by the timestamp tap() returned
+export interface CritHit {
+  timestamp: number;
+  value: number;
+}
+
 interface GameContextType {
   state: GameState;
   upgrades: UpgradeConfig[];
@@ -44,7 +55,8 @@ interface GameContextType {
   theme: ThemeConfig;
   connectionStatus: 'connected' | 'timeout' | 'offline' | 'connecting';
   lastError: string | null;
-  tap: () => void;
+  tap: () => number | null;
+  critHits: CritHit[];
   purchaseUpgrade: (upgradeId: string) => Promise<boolean>;
   selectCharacter: (characterId: string) => Promise<boolean>;
   selectImage: (imageId: string) => void;
@@ -72,6 +84,12 @@ interface GameContextType {
 
 const GameContext = createContext<GameContextType | undefined>(undefined);
 
+// Taps are applied optimistically and sent to the server in batches; the server response is authoritative
+const TAP_FLUSH_INTERVAL_MS = 1000;
+const TAP_FLUSH_MAX_BATCH = 50;
+// Server-side TAP_LIMITS.MAX_BATCH_SIZE - a backlog after failed requests is sent in chunks this size
+const TAP_FLUSH_MAX_SEND = 200;
+
 const createInitialState = (): GameState => ({
   points: 0,
   lustPoints: 0,
@@ -90,6 +108,9 @@ const createInitialState = (): GameState => ({
   passiveIncomeCap: 10000,
   energyRegenRate: 1,
   isAdmin: false,
+  role: 'player',
+  isVip: false,
+  nsfwEnabled: false,
   displayImage: '/uploads/characters/aria/aria-avatar.png',
   lastTapValue: 1,
   boostActive: false,
@@ -104,6 +125,12 @@ const createInitialState = (): GameState => ({
   telegramId: ''
 });
 
+const formatAwayDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
 const apiRequest = async (url: string, options: RequestInit = {}, timeoutMs: number = 3000): Promise<Response> => {
   const sessionToken = localStorage.getItem('sessionToken');
   const defaultHeaders: Record<string, string> = {
@@ -143,6 +170,10 @@ export function GameProvider({ children }: { children: ReactNode }) {
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'timeout' | 'offline' | 'connecting'>('connecting');
   const [lastError, setLastError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [critHits, setCritHits] = useState<CritHit[]>([]);
+  const pendingTapsRef = useRef<number[]>([]);
+  const tapFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const tapFlushInFlightRef = useRef(false);
 
   const calculateTapValue = useCallback(() => {
     const tapPowerUpgrades = upgrades.filter(u => u.type === 'perTap');
@@ -258,6 +289,9 @@ export function GameProvider({ children }: { children: ReactNode }) {
         passiveIncomeCap: 10000,
         energyRegenRate: player.energyRegenRate || 1,
         isAdmin: player.isAdmin || false,
+        role: getPlayerRole(player),
+        isVip: player.isVip || false,
+        nsfwEnabled: player.nsfwEnabled || false,
         boostActive: player.boostActive || false,
         boostMultiplier: player.boostMultiplier || 1.0,
         boostExpiresAt: player.boostExpiresAt ? new Date(player.boostExpiresAt) : null,
@@ -272,6 +306,18 @@ export function GameProvider({ children }: { children: ReactNode }) {
       
       setState(newState);
 
+      // Offline income is already in player.lustPoints - this only shows the report once, then acknowledges it
+      const offlineEarnings = authData.offlineEarnings;
+      if (offlineEarnings && offlineEarnings.amount > 0) {
+        console.log(`├── 💤 Offline earnings: +${offlineEarnings.amount} LP over ${offlineEarnings.seconds}s`);
+        toast({
+          title: '💤 While you were away...',
+          description: `You earned ${Math.floor(offlineEarnings.amount).toLocaleString()} LP in ${formatAwayDuration(offlineEarnings.seconds)}${offlineEarnings.capped ? ' (offline limit reached)' : ''}.`,
+        });
+        apiRequest('/api/player/offline-earnings/ack', { method: 'POST' }, 3000)
+          .catch(err => console.error('❌ Offline earnings ack failed:', err));
+      }
+
       setConnectionStatus('connected');
       setLastError(null);
       setRetryCount(0);
@@ -307,7 +353,14 @@ export function GameProvider({ children }: { children: ReactNode }) {
           ...prev,
           selectedCharacterId: player.selectedCharacterId || prev.selectedCharacterId,
           activeCharacter: player.activeCharacter || prev.activeCharacter,
-          displayImage: player.displayImage || prev.displayImage
+          displayImage: player.displayImage || prev.displayImage,
+          // Energy regenerates on the server, so its value replaces the local projection
+          energy: typeof player.energy === 'number' ? player.energy : prev.energy,
+          energyMax: player.energyMax || prev.energyMax,
+          energyRegenRate: player.energyRegenRate || prev.energyRegenRate,
+          role: getPlayerRole(player),
+          isVip: player.isVip ?? prev.isVip,
+          nsfwEnabled: player.nsfwEnabled ?? prev.nsfwEnabled
         }));
       }
     } catch (err) {
@@ -330,7 +383,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     if (!isInitialized || !state.username || connectionStatus !== 'connected') return;
     
-    let syncCounter = 0;
+    // Local projection only - energy and points are server-owned and are not PATCHed back
     const interval = setInterval(() => {
       setState(prev => {
         let newEnergy = Math.min(prev.energyMax, prev.energy + prev.energyRegenRate);
@@ -338,7 +391,8 @@ export function GameProvider({ children }: { children: ReactNode }) {
         let newLustPoints = prev.lustPoints;
 
         if (prev.passiveIncomeRate > 0 && prev.points < prev.passiveIncomeCap) {
-          const incomePerSecond = prev.passiveIncomeRate / 3600;
+          const boostActive = prev.boostActive && prev.boostExpiresAt && new Date() < prev.boostExpiresAt;
+          const incomePerSecond = (prev.passiveIncomeRate / 3600) * (boostActive ? prev.boostMultiplier : 1);
           newPoints = Math.min(prev.passiveIncomeCap, prev.points + incomePerSecond);
           newLustPoints = newPoints;
         }
@@ -348,19 +402,6 @@ export function GameProvider({ children }: { children: ReactNode }) {
 
         if (!energyChanged && !pointsChanged) return prev;
 
-        syncCounter++;
-        if (syncCounter >= 120) {
-          syncCounter = 0;
-          apiRequest('/api/player/me', {
-            method: 'PATCH',
-            body: JSON.stringify({
-              energy: Math.round(newEnergy),
-              points: Math.round(newPoints),
-              lustPoints: Math.round(newLustPoints)
-            })
-          }, 2000).catch(() => {});
-        }
-
         return { ...prev, energy: newEnergy, points: newPoints, lustPoints: newLustPoints };
       });
     }, 1000);
@@ -368,39 +409,114 @@ export function GameProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(interval);
   }, [isInitialized, state.username, connectionStatus]);
 
-  const tap = useCallback(async () => {
-    setState(prev => {
-      if (prev.energy < 1) return prev;
+  const flushTaps = useCallback(async () => {
+    if (tapFlushTimerRef.current) {
+      clearTimeout(tapFlushTimerRef.current);
+      tapFlushTimerRef.current = null;
+    }
 
-      const actualTapValue = calculateTapValue();
-      const newPoints = prev.points + actualTapValue;
-      const newLustPoints = prev.lustPoints + actualTapValue;
-      const newEnergy = prev.energy - 1;
-      const newTotalTapsToday = prev.totalTapsToday + 1;
-      const newTotalTapsAllTime = prev.totalTapsAllTime + 1;
+    // One batch at a time - the server only accepts taps after the last one it processed,
+    // so a later batch landing first would get this one rejected. The running flush picks up what is left.
+    if (tapFlushInFlightRef.current) return;
+    const timestamps = pendingTapsRef.current.splice(0, TAP_FLUSH_MAX_SEND);
+    if (timestamps.length === 0) return;
+    tapFlushInFlightRef.current = true;
 
-      apiRequest('/api/player/me', {
-        method: 'PATCH',
-        body: JSON.stringify({
-          points: Math.round(newPoints),
-          lustPoints: Math.round(newLustPoints),
-          energy: Math.round(newEnergy),
-          totalTapsToday: newTotalTapsToday,
-          totalTapsAllTime: newTotalTapsAllTime
-        })
-      }, 2000).catch(() => {});
-
-      return {
+    let requeue = true;
+    try {
+      // Offsets relative to the send time, so the server can rebase them on its own clock
+      const sentAt = Date.now();
+      const offsets = timestamps.map(ts => Math.max(0, sentAt - ts));
+      const response = await apiRequest('/api/player/taps', {
+        method: 'POST',
+        body: JSON.stringify({ count: offsets.length, offsets, clientValue: calculateTapValue() }),
+        keepalive: true
+      }, 5000);
+
+      // A rejected batch would be rejected again - only network and server errors are retried
+      if (response.status >= 400 && response.status < 500) requeue = false;
+      if (!response.ok) throw new Error(`Tap sync failed (${response.status})`);
+      requeue = false;
+
+      const data = await response.json();
+      const player = data.player;
+      // Re-apply taps queued while this batch was in flight on top of the server totals
+      const stillPending = pendingTapsRef.current.length;
+
+      setState(prev => ({
         ...prev,
-        points: newPoints,
-        lustPoints: newLustPoints,
-        energy: newEnergy,
-        lastTapValue: actualTapValue,
-        totalTapsToday: newTotalTapsToday,
-        totalTapsAllTime: newTotalTapsAllTime
-      };
-    });
+        points: (player.points || 0) + stillPending * data.tapValue,
+        lustPoints: (player.lustPoints || player.points || 0) + stillPending * data.tapValue,
+        energy: Math.max(0, (player.energy || 0) - stillPending),
+        lastTapValue: data.tapValue,
+        totalTapsToday: (player.totalTapsToday || 0) + stillPending,
+        totalTapsAllTime: (player.totalTapsAllTime || 0) + stillPending
+      }));
+      if (data.crits?.length) {
+        setCritHits(data.crits.map((crit: { offset: number; value: number }) => ({ timestamp: sentAt - crit.offset, value: crit.value })));
+      }
+
+      if (data.rejected > 0) {
+        console.warn(`⚠️ Server rejected ${data.rejected} taps:`, data.reasons);
+      }
+    } catch (err) {
+      console.error('❌ Tap sync failed:', err);
+    } finally {
+      tapFlushInFlightRef.current = false;
+      // Failed taps go back in front of the queue; the server drops any that have gone stale meanwhile
+      if (requeue) pendingTapsRef.current = [...timestamps, ...pendingTapsRef.current];
+      if (pendingTapsRef.current.length > 0 && !tapFlushTimerRef.current) {
+        tapFlushTimerRef.current = setTimeout(() => flushTapsRef.current(), TAP_FLUSH_INTERVAL_MS);
+      }
+    }
   }, [calculateTapValue]);
+  const flushTapsRef = useRef(flushTaps);
+  flushTapsRef.current = flushTaps;
+
+  const tap = useCallback(() => {
+    if (state.energy < 1) return null;
+
+    const actualTapValue = calculateTapValue();
+    setState(prev => ({
+      ...prev,
+      points: prev.points + actualTapValue,
+      lustPoints: prev.lustPoints + actualTapValue,
+      energy: prev.energy - 1,
+      lastTapValue: actualTapValue,
+      totalTapsToday: prev.totalTapsToday + 1,
+      totalTapsAllTime: prev.totalTapsAllTime + 1
+    }));
+
+    const timestamp = Date.now();
+    pendingTapsRef.current.push(timestamp);
+    if (pendingTapsRef.current.length >= TAP_FLUSH_MAX_BATCH) {
+      flushTaps();
+    } else if (!tapFlushTimerRef.current) {
+      tapFlushTimerRef.current = setTimeout(flushTaps, TAP_FLUSH_INTERVAL_MS);
+    }
+    return timestamp;
+  }, [state.energy, calculateTapValue, flushTaps]);
+
+  // Taps still queued on unmount are sent rather than dropped
+  useEffect(() => {
+    return () => {
+      flushTapsRef.current();
+    };
+  }, []);
+
+  // Timers are throttled while the Telegram WebApp is backgrounded - resync with server regen on return
+  useEffect(() => {
+    if (!isInitialized || connectionStatus !== 'connected') return;
+
+    const handleVisibilityChange = async () => {
+      if (document.visibilityState !== 'visible') return;
+      await flushTaps();
+      await refreshPlayerState();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [isInitialized, connectionStatus, flushTaps, refreshPlayerState]);
 
   const dispatch = useCallback((action: any) => {
     switch (action.type) {
@@ -609,6 +725,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
       connectionStatus,
       lastError,
       tap,
+      critHits,
       purchaseUpgrade,
       selectCharacter,
       selectImage,
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query"
+import { apiRequest } from "@/lib/queryClient"
+
+interface SignedMediaResponse {
+  urls: Record<string, { url: string; isUnlocked: boolean; lockReason: string | null }>
+  expiresAt: string
+}
+
+// Signed /uploads URLs expire server-side; refresh well before that
+const REFRESH_MS = 5 * 60 * 1000
+
+/**
+ * Resolves an /uploads path to a URL the media gate will serve for this player.
+ * Other URLs (external, data:, etc.) are returned unchanged.
+ */
+export function useSignedMediaUrl(path: string | null | undefined) {
+  const needsSigning = !!path && path.startsWith("/uploads/")
+
+  const { data } = useQuery({
+    queryKey: ["/api/media/sign", path],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/media/sign", { paths: [path] })
+      return (await response.json()) as SignedMediaResponse
+    },
+    enabled: needsSigning,
+    staleTime: REFRESH_MS,
+    refetchInterval: REFRESH_MS,
+  })
+
+  if (!needsSigning) return path
+  return data?.urls[path!]?.url ?? path
+}
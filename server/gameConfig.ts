@@ -106,6 +106,11 @@ export const GAME_CONSTANTS = {
   // Boosts
   DEFAULT_BOOST_DURATION_MS: 300000, // 5 minutes
   DEFAULT_BOOST_MULTIPLIER: 2.0,
+  
+  // Critical hits (chance in percent, rolled per tap on the server)
+  BASE_CRIT_CHANCE: 0,
+  MAX_CRIT_CHANCE: 50,
+  BASE_CRIT_MULTIPLIER: 2.0,
 } as const;
 
 // ============================================================================
@@ -7,6 +7,7 @@ import { fileURLToPath } from "url";
 import fs from "fs";
 import logger from "./logger";
 import adminRouter from "./routes/admin";
+import mediaGateRouter from "./routes/media";
 import { requireAuth, requireAdmin } from "./middleware/auth";
 import ErrorQueue from '../LunaBug/plugins/luna/errorQueue';
 import { registerErrorQueueCommands } from '../LunaBug/plugins/luna/cli/errorQueueCommands';
@@ -195,10 +196,10 @@ app.use((req, res, next) => {
 
   logger.info('✅ All API routes registered successfully');
 
-  // ✅ Phase 7: Static file serving
-  logger.info('📁 [PHASE 7] Setting up static file serving...');
-  app.use("/uploads", express.static(path.join(__dirname, "..", "uploads")));
-  logger.info('✅ Static files configured at /uploads');
+  // ✅ Phase 7: Gated media serving (restricted images need a signed URL)
+  logger.info('📁 [PHASE 7] Setting up gated media serving...');
+  app.use("/uploads", mediaGateRouter);
+  logger.info('✅ Media gate configured at /uploads');
 
   // ✅ Phase 8: Vite setup or static serving (BEFORE error handler!)
   logger.info('👨‍💻 [PHASE 8] Setting up frontend serving...');
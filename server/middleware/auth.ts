@@ -1,5 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
+import { playerStateManager } from "../utils/playerStateManager";
+import { getPlayerRole, hasCapability, type Capability } from "@shared/permissions";
 
 declare module 'express-serve-static-core' {
   interface Request {
@@ -96,4 +98,40 @@ export function optionalAdmin(req: Request, res: Response, next: NextFunction) {
     error: 'Admin access required', 
     message: 'You need admin privileges or a valid admin token to access this resource.' 
   });
-}
\ No newline at end of file
+}
+
+// Role-based check for routes that artists/moderators may use without full admin rights.
+// The role lives in player-state.json, so it is read fresh instead of from the session.
+export function requireCapability(capability: Capability) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const adminToken = req.headers['x-admin-token'] as string;
+    const envAdminToken = process.env.ADMIN_TOKEN;
+    if (envAdminToken && adminToken === envAdminToken) {
+      return next();
+    }
+
+    if (!req.player) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to access this resource.'
+      });
+    }
+
+    try {
+      const state = await playerStateManager.loadPlayer(req.player);
+      const player = { isAdmin: req.player.isAdmin || state?.isAdmin, role: state?.role };
+      if (!hasCapability(player, capability)) {
+        console.warn(`🛡️ [PERMISSIONS] ${req.player.username} (${getPlayerRole(player)}) denied ${capability}`);
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `Your role does not allow ${capability}.`,
+          capability
+        });
+      }
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({ error: 'Permission check failed' });
+    }
+  };
+}
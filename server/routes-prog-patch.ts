@@ -5,7 +5,6 @@ import multer from "multer";
 import path from "path";
 import { fileURLToPath } from "url";
 import fs from "fs";
-import { AuthDataValidator } from "@telegram-auth/server";
 import { requireAuth, requireAdmin } from "./middleware/auth";
 import { 
   saveUpgradeToJSON, 
@@ -4,26 +4,58 @@ import multer from 'multer';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs/promises';
-import { requireAuth, requireAdmin } from './middleware/auth';
+import { requireAuth, requireAdmin, requireCapability } from './middleware/auth';
 import { 
   getUpgradesFromMemory, 
   getCharactersFromMemory, 
+  getCharacterFromMemory,
   getLevelsFromMemory, 
   getUpgradeFromMemory,
   getTasksFromMemory,
   getAchievementsFromMemory,
   getTaskFromMemory,
   getAchievementFromMemory,
+  getBoostsFromMemory,
+  getBoostFromMemory,
+  getGiftsFromMemory,
+  getGiftFromMemory,
+  getBannersFromMemory,
+  getBannerFromMemory,
   saveGameData,
+  deleteGameData,
   syncUpgrades,
   syncCharacters,
   syncTasks,
   syncAchievements,
-  syncLevels
+  syncLevels,
+  syncBoosts,
+  syncGifts
 } from './utils/unifiedDataLoader';
-import { getPlayerState, updatePlayerState, purchaseUpgradeForPlayer, playerStateManager } from './utils/playerStateManager';
+import { getPlayerState, updatePlayerState, purchaseUpgradeForPlayer, processTapBatchForPlayer, applyLevelUpForPlayer, activateBoostForPlayer, buyGiftForPlayer, giveGiftForPlayer, addChatAffectionForPlayer, getActiveBoostMultiplier, isCharacterUnlocked, playerStateManager } from './utils/playerStateManager';
+import { getAffectionStatus } from './utils/affection';
+import { getBannerOdds, getBannerPityStatus, getPullHistory, isBannerPublic, pullBannerForPlayer, GACHA_CONFIG } from './utils/gacha';
+import { getLeaderboard, invalidateLeaderboards, isLeaderboardId, listLeaderboards } from './utils/leaderboards';
+import { getPlayerRole, hasCapability, isPlayerRole, PLAYER_ROLES } from '@shared/permissions';
+import { acceptsGift, getCharacterGiftMultiplier, getGiftCount, isBlockedByStrongerGift, validateGiftConfig, GIFT_CONFIG } from './utils/gifts';
+import { tapBatchSchema } from './utils/tapValidator';
+import { checkClientPlayerPatch, checkAdminPlayerPatch } from './utils/playerFieldPolicy';
 import { storage } from './storage';
-import crypto from 'crypto';
+import { generateSecureToken, getSessionExpiry } from './utils/auth';
+import { verifyTelegramInitData, getTelegramDisplayName } from './utils/telegramAuth';
+import { getNextResetAt, getTaskResetPeriod } from './utils/resetScheduler';
+import { listRequirementTypes, validateRequirementConfig } from './utils/requirementRegistry';
+import { resolveRewards, validateRewardConfig } from './utils/rewardResolver';
+import { getAvailableTasks, getTaskCadence, getTaskEndsAt, isTaskAvailable, isRotationTask, validateTaskSchedule } from './utils/taskPools';
+import { getRewardSpec, type RewardSummary } from '@shared/rewards';
+import { emitGameEvent } from './utils/gameEvents';
+import { getPlayerProgress, resolveTaskProgress, resolveAchievementProgress, markProgressClaimed } from './utils/playerProgress';
+import { streamCharacterReply, getChatHistory, clearChatHistory, acquireChatSlot, releaseChatSlot, CHAT_CONFIG, type ChatReplyResult } from './utils/characterChat';
+import { pickChatImage } from './utils/chatMedia';
+import { getMediaUrlForPlayer, signMediaUrl, MEDIA_ACCESS_CONFIG } from './utils/mediaAccess';
+import { deleteImageMetadata, findMediaFile, getFolderFallback, listCharacterMediaFiles, listMedia, METADATA_DIR, saveImageMetadata, validateImageMetadataInput } from './utils/mediaRepository';
+import { deleteImageVariants } from './utils/imagePipeline';
+import { storeUploadedImage } from './utils/mediaUpload';
+import { importMediaArchive, validateMediaImportArchive, MEDIA_IMPORT_CONFIG } from './utils/mediaImport';
 // ✅ REMOVED: import playerRoutes - this causes TypeScript error and is loaded dynamically in index.ts
 
 const __filename = fileURLToPath(import.meta.url);
@@ -32,54 +64,16 @@ const __dirname = path.dirname(__filename);
 const withTracking = async <T,>(name: string, op: () => Promise<T>): Promise<T> => { try { return await op(); } catch (e: any) { console.error(`[${name}] Error:`, e.message); throw e; } };
 
 const uploadsDir = path.join(__dirname, '../uploads');
-const metadataDir = path.join(__dirname, '../main-gamedata/progressive-data/images');
 
 // Create directories if they don't exist
 try {
   await fs.mkdir(uploadsDir, { recursive: true });
-  await fs.mkdir(metadataDir, { recursive: true });
+  await fs.mkdir(METADATA_DIR, { recursive: true });
   console.log('✅ Upload directories ready');
 } catch (e) {
   console.error('Failed to create upload directories:', e);
 }
 
-// 📁 AUTO FOLDER ORGANIZATION HELPER - ✅ FIXED: uploads/characters/CHARACTERID/TYPE/
-async function organizeImageFile(
-  tempPath: string,
-  originalFilename: string,
-  characterId: string,
-  type: string
-): Promise<string> {
-  try {
-    // ✅ Create organized folder structure: /uploads/characters/characterId/type/
-    const characterFolder = path.join(uploadsDir, 'characters', characterId.toLowerCase());
-    const typeFolder = path.join(characterFolder, type.toLowerCase());
-    
-    // Create folders if they don't exist
-    await fs.mkdir(characterFolder, { recursive: true });
-    await fs.mkdir(typeFolder, { recursive: true });
-    
-    // Generate unique filename
-    const timestamp = Date.now();
-    const ext = path.extname(originalFilename);
-    const uniqueFilename = `${timestamp}-${Math.random().toString(36).substring(7)}${ext}`;
-    
-    const finalPath = path.join(typeFolder, uniqueFilename);
-    
-    // Move file from temp to organized location
-    await fs.rename(tempPath, finalPath);
-    
-    // ✅ Return web-accessible path with 'characters' folder
-    const webPath = `/uploads/characters/${characterId.toLowerCase()}/${type.toLowerCase()}/${uniqueFilename}`;
-    console.log(`📁 [ORGANIZE] File organized: ${webPath}`);
-    
-    return webPath;
-  } catch (error) {
-    console.error('📁 [ORGANIZE] Failed:', error);
-    return `/uploads/${path.basename(tempPath)}`;
-  }
-}
-
 const upload = multer({
   storage: multer.diskStorage({
     destination: (req, file, cb) => { cb(null, uploadsDir); },
@@ -97,23 +91,24 @@ const upload = multer({
   }
 });
 
-function calculateTaskProgress(player: any, task: any): number {
-  switch (task.requirementType) {
-    case 'tapCount': return Math.min(player.totalTapsToday || 0, task.target);
-    case 'upgradesPurchased': return Math.min(player.upgradesPurchasedToday || 0, task.target);
-    case 'lpEarned': return Math.min(player.lpEarnedToday || 0, task.target);
-    default: return 0;
+// Bulk imports are read straight from memory; the zip itself is never written to uploads/
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MEDIA_IMPORT_CONFIG.MAX_ARCHIVE_MB * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.zip') { cb(null, true); } else { cb(new Error('Only .zip archives allowed')); }
   }
-}
+});
 
-function calculateAchievementProgress(player: any, achievement: any): number {
-  switch (achievement.requirementType) {
-    case 'lpTotal': return Math.min(player.lustPoints || player.points || 0, achievement.target);
-    case 'upgradeCount': return Math.min(Object.keys(player.upgrades || {}).length, achievement.target);
-    case 'characterUnlocked': return (player.unlockedCharacters || []).length >= achievement.target ? achievement.target : 0;
-    case 'level': return Math.min(player.level || 1, achievement.target);
-    default: return 0;
-  }
+// A boost must either run a timed multiplier or have an instant effect, otherwise it just burns gems
+function validateBoostConfig(boost: any): string | null {
+  if (!boost || typeof boost.id !== 'string' || !boost.id.trim()) return 'Valid boost ID is required';
+  if (typeof boost.cost !== 'number' || boost.cost < 0) return 'cost must be a non-negative number of lustGems';
+  if (typeof boost.durationMinutes !== 'number' || boost.durationMinutes < 0) return 'durationMinutes must be a non-negative number';
+  if (boost.multiplier !== undefined && (typeof boost.multiplier !== 'number' || boost.multiplier < 1)) return 'multiplier must be a number >= 1';
+  const hasTimedEffect = boost.durationMinutes > 0 && (boost.multiplier || 1) > 1;
+  if (!hasTimedEffect && !boost.energyRefill) return 'Boost needs a multiplier with a duration, or an instant effect';
+  return null;
 }
 
 async function findExistingPlayerData(username: string): Promise<any | null> {
@@ -144,41 +139,18 @@ async function findExistingPlayerData(username: string): Promise<any | null> {
   }
 }
 
-// 🗂️ RECURSIVE FILE FINDER FOR ORGANIZED STRUCTURE
-async function findImageFile(filename: string): Promise<string | null> {
-  try {
-    const charactersDir = path.join(uploadsDir, 'characters');
-    const characters = await fs.readdir(charactersDir);
-    
-    for (const char of characters) {
-      const charPath = path.join(charactersDir, char);
-      const stat = await fs.stat(charPath);
-      if (!stat.isDirectory()) continue;
-      
-      const types = await fs.readdir(charPath);
-      for (const type of types) {
-        const typePath = path.join(charPath, type);
-        const typeStat = await fs.stat(typePath);
-        if (!typeStat.isDirectory()) continue;
-        
-        const files = await fs.readdir(typePath);
-        if (files.includes(filename)) {
-          return path.join(typePath, filename);
-        }
-      }
-    }
-  } catch (e) {
-    console.error('🔍 [SEARCH] Error searching for file:', e);
-  }
-  
-  // Fallback: check root uploads folder
-  const rootPath = path.join(uploadsDir, filename);
-  try {
-    await fs.access(rootPath);
-    return rootPath;
-  } catch {
-    return null;
-  }
+// 🔑 SESSION ISSUER - shared by dev and Telegram login
+async function issuePlayerSession(player: any) {
+  const sessionToken = generateSecureToken();
+  await storage.createSession({ token: sessionToken, playerId: player.id, expiresAt: getSessionExpiry() });
+  const playerState = await getPlayerState(player);
+  return { sessionToken, player: playerState };
+}
+
+// Same role lookup as requireCapability: the role is read fresh from player-state.json
+async function canSeeHiddenMedia(player: any): Promise<boolean> {
+  const state = await getPlayerState(player);
+  return hasCapability({ isAdmin: player.isAdmin || state?.isAdmin, role: state?.role }, 'media:edit');
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -267,25 +239,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const sessionToken = crypto.randomBytes(32).toString('hex');
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 30);
-      await storage.createSession({ token: sessionToken, playerId: player.id, expiresAt });
+      const session = await issuePlayerSession(player);
+      console.log(`🎮 [DEV AUTH] Loaded player state - isAdmin: ${session.player.isAdmin}`);
       
-      const playerState = await getPlayerState(player);
-      console.log(`🎮 [DEV AUTH] Loaded player state - isAdmin: ${playerState.isAdmin}`);
-      
-      res.json({ success: true, sessionToken, player: playerState });
+      res.json({ success: true, ...session });
     } catch (error: any) {
       console.error('[DEV AUTH] Error:', error);
       res.status(500).json({ success: false, error: error.message || 'Dev login failed' });
     }
   });
 
+  // 📱 TELEGRAM WEBAPP LOGIN: verify initData HMAC, then create/look up the player
+  app.post('/api/auth/telegram', async (req, res) => {
+    try {
+      const botToken = process.env.TELEGRAM_BOT_TOKEN;
+      if (!botToken) {
+        console.error('❌ [TG AUTH] TELEGRAM_BOT_TOKEN is not set');
+        return res.status(500).json({ success: false, error: 'Telegram login is not configured' });
+      }
+
+      const { initData } = req.body || {};
+      const verification = verifyTelegramInitData(initData, botToken);
+      if (!verification.valid) {
+        console.warn(`⚠️  [TG AUTH] Rejected initData: ${verification.reason}`);
+        return res.status(401).json({ success: false, error: verification.reason });
+      }
+
+      const telegramId = String(verification.user.id);
+      let player: any = await storage.getPlayerByTelegramId(telegramId);
+
+      if (!player) {
+        const username = getTelegramDisplayName(verification.user);
+        console.log(`🆕 [TG AUTH] Creating new player for Telegram user ${telegramId} (${username})`);
+        player = await storage.createPlayer({
+          username,
+          telegramId,
+          points: 0,
+          lustPoints: 0,
+          lustGems: 0,
+          energy: 1000,
+          energyMax: 1000,
+          level: 1,
+          passiveIncomeRate: 0,
+          lastTapValue: 1,
+          selectedCharacterId: 'aria',
+          displayImage: '/uploads/characters/aria/character/default.png',
+          isAdmin: false,
+          consecutiveDays: 0
+        });
+      } else {
+        console.log(`✅ [TG AUTH] Found existing player ${player.id} for Telegram user ${telegramId}`);
+      }
+
+      const session = await issuePlayerSession(player);
+      res.json({ success: true, ...session });
+    } catch (error: any) {
+      console.error('[TG AUTH] Error:', error);
+      res.status(500).json({ success: false, error: error.message || 'Telegram login failed' });
+    }
+  });
+
   app.get('/api/auth/me', requireAuth, async (req, res) => { 
     try { 
       const p = await withTracking('auth/me', () => getPlayerState(req.player!)); 
-      res.json({ success: true, player: p }); 
+      res.json({ success: true, player: p, offlineEarnings: p.offlineEarnings || null }); 
     } catch (e: any) { 
       res.status(500).json({ error: e.message }); 
     } 
@@ -300,27 +317,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } 
   });
 
+  // The "while you were away" report stays on the player until the client confirms it was shown
+  app.post('/api/player/offline-earnings/ack', requireAuth, async (req, res) => {
+    try {
+      const p = await getPlayerState(req.player!);
+      if (!p.offlineEarnings) return res.json({ success: true, player: p });
+      const u = await withTracking('offline-earnings/ack', () => updatePlayerState(req.player!, { offlineEarnings: null }));
+      res.json({ success: true, player: u });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
   app.patch('/api/player/me', requireAuth, async (req, res) => { 
     try { 
-      const u = await withTracking('player/patch', () => updatePlayerState(req.player!, req.body)); 
+      const p = await getPlayerState(req.player!);
+      const check = checkClientPlayerPatch(req.body, p);
+      if (!check.ok) {
+        console.warn(`🛡️ [PLAYER PATCH] Rejected fields from ${req.player!.username}:`, check.error.serverOnlyFields || check.error.details);
+        return res.status(400).json(check.error);
+      }
+      const u = await withTracking('player/patch', () => updatePlayerState(req.player!, check.data)); 
+      if (check.data.leaderboardOptOut !== undefined) invalidateLeaderboards();
       res.json({ player: u }); 
     } catch (e: any) { 
       res.status(500).json({ error: e.message }); 
     } 
   });
 
+  // 👆 SERVER-AUTHORITATIVE TAPS: client sends a batch, server recomputes value/energy
+  app.post('/api/player/taps', requireAuth, async (req, res) => {
+    try {
+      const parsed = tapBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid tap batch', details: parsed.error.flatten() });
+      }
+      
+      const receivedAt = Date.now();
+      const result = await withTracking('player/taps', () => processTapBatchForPlayer(req.player!, parsed.data, receivedAt));
+      if (result.accepted > 0) {
+        await emitGameEvent(req.player!, {
+          type: 'tap',
+          taps: result.accepted,
+          lpEarned: result.lpEarned,
+          crits: result.crits.length,
+          characterId: result.characterId
+        }, result.player);
+      }
+      res.json({ success: true, ...result });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
   // ✅ FIXED: PATCH /api/player/active-character
   app.patch('/api/player/active-character', requireAuth, async (req, res) => {
     try {
       const { characterId } = req.body;
       const player = req.player;
 
+      const character = typeof characterId === 'string' ? getCharacterFromMemory(characterId) : undefined;
+      if (!character) return res.status(404).json({ error: 'Character not found' });
+      if (!isCharacterUnlocked(await getPlayerState(player!), character.id)) {
+        return res.status(403).json({ error: 'Character is locked', unlockLevel: character.unlockLevel });
+      }
+
       // Just update the active character - display images are stored per-character
       const updated = await updatePlayerState(player, {
         selectedCharacterId: characterId,
         activeCharacter: characterId,
         // DON'T touch characterDisplayImages at all
       });
+      await emitGameEvent(player, { type: 'characterSelected', characterId }, updated);
 
       res.json({ 
         success: true, 
@@ -341,6 +409,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!upg) return res.status(400).json({ error: 'Invalid upgrade' }); 
       const cost = Math.round(upg.baseCost * Math.pow(upg.costMultiplier, level - 1)); 
       const u = await withTracking('purchase-upgrade', () => purchaseUpgradeForPlayer(req.player!, upgradeId, level, cost)); 
+      await emitGameEvent(req.player!, { type: 'upgradePurchased', upgradeId, level, cost }, u);
       res.json({ success: true, player: u }); 
     } catch (e: any) { 
       res.status(500).json({ error: e.message }); 
@@ -369,14 +438,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (!requirementsMet) return res.status(400).json({ error: 'Requirements not met' });
       
-      const newLP = Math.round(currentLP - cost);
-      const updatedPlayer = await updatePlayerState(req.player!, {
-        level: nextLevel,
-        lustPoints: newLP,
-        points: newLP
+      const { player: updatedPlayer, rewards } = await withTracking('level-up', () => applyLevelUpForPlayer(req.player!, nextLevelData));
+      
+      // The JSON save is the source of truth - a failed history insert must not undo the level-up
+      try {
+        await storage.recordPlayerLevelUp(req.player!.id, nextLevel, 'progression');
+      } catch (dbErr: any) {
+        console.error(`⚠️ [LEVEL UP] Could not record level ${nextLevel} for ${req.player!.username}:`, dbErr.message);
+      }
+      
+      await emitGameEvent(req.player!, { type: 'levelUp', level: nextLevel }, updatedPlayer);
+      
+      res.json({ success: true, player: updatedPlayer, leveledUp: true, newLevel: nextLevel, pointsSpent: cost, rewards });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  app.get('/api/boosts', requireAuth, async (req, res) => {
+    try {
+      const p = await getPlayerState(req.player!);
+      const boosts = getBoostsFromMemory()
+        .filter(b => b.isActive !== false && !b.isHidden)
+        .sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+      res.json({
+        boosts,
+        active: {
+          boostId: p.activeBoostId || null,
+          multiplier: getActiveBoostMultiplier(p),
+          expiresAt: p.boostActive ? (p.boostExpiresAt || p.boostEndTime) : null
+        }
       });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  app.post('/api/player/boosts/:id/activate', requireAuth, async (req, res) => {
+    try {
+      const boost = getBoostFromMemory(req.params.id);
+      // Hidden boosts are reward-only - /api/boosts does not list them and they can't be bought
+      if (!boost || boost.isActive === false || boost.isHidden) return res.status(404).json({ error: 'Boost not found' });
+      
+      const p = await getPlayerState(req.player!);
+      if ((p.lustGems || 0) < (boost.cost || 0)) {
+        return res.status(400).json({ error: 'Insufficient Lust Gems', required: boost.cost, available: p.lustGems || 0 });
+      }
+      
+      const isTimed = (boost.durationMinutes || 0) > 0 && (boost.multiplier || 1) > 1;
+      if (isTimed && getActiveBoostMultiplier(p) > 1) {
+        return res.status(409).json({ 
+          error: 'A boost is already active', 
+          activeBoostId: p.activeBoostId || null, 
+          expiresAt: p.boostExpiresAt || p.boostEndTime 
+        });
+      }
+      
+      const result = await withTracking('activate-boost', () => activateBoostForPlayer(req.player!, boost));
+      await emitGameEvent(req.player!, { type: 'boostUsed', boostId: boost.id, cost: result.activation.gemsSpent }, result.player);
+      res.json({ success: true, boost, ...result });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  app.get('/api/gifts', requireAuth, async (req, res) => {
+    try {
+      const p = await getPlayerState(req.player!);
+      const gifts = getGiftsFromMemory()
+        .filter(g => g.isActive !== false && !g.isHidden)
+        .sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+      const characterBoosts = Object.fromEntries(
+        Object.entries(p.characterGiftBoosts || {}).filter(([characterId]) => getCharacterGiftMultiplier(p, characterId) > 1)
+      );
+      res.json({ gifts, inventory: p.giftInventory || {}, characterBoosts });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  app.post('/api/player/gifts/:id/buy', requireAuth, async (req, res) => {
+    try {
+      const gift = getGiftFromMemory(req.params.id);
+      // Hidden gifts are reward-only - /api/gifts does not list them and they can't be bought
+      if (!gift || gift.isActive === false || gift.isHidden) return res.status(404).json({ error: 'Gift not found' });
+      
+      const quantity = req.body?.quantity === undefined ? 1 : Number(req.body.quantity);
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > GIFT_CONFIG.MAX_PURCHASE_QUANTITY) {
+        return res.status(400).json({ error: `quantity must be a whole number between 1 and ${GIFT_CONFIG.MAX_PURCHASE_QUANTITY}` });
+      }
+      
+      const p = await getPlayerState(req.player!);
+      const cost = (gift.cost || 0) * quantity;
+      if ((p.lustGems || 0) < cost) {
+        return res.status(400).json({ error: 'Insufficient Lust Gems', required: cost, available: p.lustGems || 0 });
+      }
       
-      res.json({ success: true, player: updatedPlayer, leveledUp: true, newLevel: nextLevel, pointsSpent: cost });
+      const result = await withTracking('buy-gift', () => buyGiftForPlayer(req.player!, gift, quantity));
+      res.json({ success: true, gift, ...result });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  app.post('/api/player/gifts/:id/give', requireAuth, async (req, res) => {
+    try {
+      const gift = getGiftFromMemory(req.params.id);
+      if (!gift || gift.isActive === false) return res.status(404).json({ error: 'Gift not found' });
+      
+      const characterId = typeof req.body?.characterId === 'string' ? req.body.characterId : '';
+      const character = characterId ? getCharacterFromMemory(characterId) : null;
+      if (!character) return res.status(404).json({ error: 'Character not found' });
+      if (!acceptsGift(gift, character.id)) return res.status(400).json({ error: `${character.name} does not accept ${gift.name}` });
+      
+      const p = await getPlayerState(req.player!);
+      const unlocked = (p.unlockedCharacters || []).includes(character.id) || (p.level || 1) >= (character.unlockLevel || 1);
+      if (!unlocked) {
+        return res.status(400).json({ error: 'Character is locked', unlockLevel: character.unlockLevel });
+      }
+      if (getGiftCount(p, gift.id) < 1) return res.status(400).json({ error: 'Gift not in inventory' });
+      if (isBlockedByStrongerGift(p, gift, character.id)) {
+        return res.status(409).json({
+          error: 'A stronger gift multiplier is already active for this character',
+          activeBoost: p.characterGiftBoosts?.[character.id] || null
+        });
+      }
+      
+      const result = await withTracking('give-gift', () => giveGiftForPlayer(req.player!, gift, character.id));
+      const { mediaUnlockLevel, ...affection } = result.affection;
+      res.json({ success: true, player: result.player, gift: result.gift, affection, reachedTiers: result.reachedTiers });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  // 🎰 GACHA - odds come from the same tables the pulls are rolled from
+  app.get('/api/gacha/banners', requireAuth, async (req, res) => {
+    try {
+      const p = await getPlayerState(req.player!);
+      const banners = getBannersFromMemory()
+        .filter(b => isBannerPublic(b))
+        .sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0))
+        .map(b => {
+          const odds = getBannerOdds(b);
+          return { ...b, odds, status: getBannerPityStatus(p, b, odds) };
+        });
+      res.json({ banners, maxPullsPerRequest: GACHA_CONFIG.MAX_PULLS_PER_REQUEST });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  app.get('/api/gacha/banners/:id/odds', requireAuth, (req, res) => {
+    const banner = getBannerFromMemory(req.params.id);
+    // Same visibility as the banner list - hidden and closed banners don't publish odds
+    if (!banner || !isBannerPublic(banner)) return res.status(404).json({ error: 'Banner not found' });
+    res.json({ odds: getBannerOdds(banner) });
+  });
+  
+  app.post('/api/player/gacha/:id/pull', requireAuth, async (req, res) => {
+    try {
+      const banner = getBannerFromMemory(req.params.id);
+      if (!banner || !isBannerPublic(banner)) return res.status(404).json({ error: 'Banner not found or closed' });
+      
+      const count = req.body?.count === undefined ? 1 : Number(req.body.count);
+      if (!Number.isInteger(count) || count < 1 || count > GACHA_CONFIG.MAX_PULLS_PER_REQUEST) {
+        return res.status(400).json({ error: `count must be a whole number between 1 and ${GACHA_CONFIG.MAX_PULLS_PER_REQUEST}` });
+      }
+      if (getBannerOdds(banner).entries.length === 0) return res.status(409).json({ error: 'Banner has nothing to pull' });
+      
+      const p = await getPlayerState(req.player!);
+      const cost = (banner.cost || 0) * count;
+      if ((p.lustGems || 0) < cost) {
+        return res.status(400).json({ error: 'Insufficient Lust Gems', required: cost, available: p.lustGems || 0 });
+      }
+      
+      const result = await withTracking('gacha-pull', () => pullBannerForPlayer(req.player!, banner, count));
+      res.json({ success: true, ...result });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+  
+  app.get('/api/player/gacha/history', requireAuth, async (req, res) => {
+    try {
+      const bannerId = typeof req.query.bannerId === 'string' ? req.query.bannerId : undefined;
+      const limit = parseInt(String(req.query.limit || ''), 10) || undefined;
+      res.json({ history: await getPullHistory(req.player!, { bannerId, limit }) });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // 🏆 LEADERBOARDS: ranked from the JSON player files, so they work without the database
+  app.get('/api/leaderboards', requireAuth, (_req, res) => {
+    res.json({ leaderboards: listLeaderboards() });
+  });
+
+  app.get('/api/leaderboards/:id', requireAuth, async (req, res) => {
+    try {
+      const id = req.params.id;
+      if (!isLeaderboardId(id)) return res.status(404).json({ error: 'Leaderboard not found' });
+      const limit = parseInt(String(req.query.limit || ''), 10) || undefined;
+      const viewer = await getPlayerState(req.player!);
+      res.json(await withTracking('leaderboards/get', () => getLeaderboard(id, viewer, { limit })));
     } catch (e: any) {
       res.status(500).json({ error: e.message });
     }
@@ -400,45 +665,181 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } 
   });
 
-  // 🗂️ GET ALL MEDIA (recursively searches organized folders)
-  app.get('/api/media', requireAuth, async (_req, res) => {
+  app.get('/api/player/affection', requireAuth, async (req, res) => {
     try {
-      const media: any[] = [];
-      
-      // Recursively search through organized structure
-      async function scanDirectory(dirPath: string, webBasePath: string) {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(dirPath, entry.name);
-          const webPath = `${webBasePath}/${entry.name}`;
-          
-          if (entry.isDirectory()) {
-            await scanDirectory(fullPath, webPath);
-          } else if (/\.(jpg|jpeg|png|gif|webp)$/i.test(entry.name)) {
-            const stats = await fs.stat(fullPath);
-            
-            // Try to load metadata
-            let metadata = null;
-            try {
-              const metaPath = path.join(metadataDir, `${entry.name}.meta.json`);
-              const metaContent = await fs.readFile(metaPath, 'utf-8');
-              metadata = JSON.parse(metaContent);
-            } catch {}
-            
-            media.push({
-              filename: entry.name,
-              path: webPath,
-              size: stats.size,
-              uploadedAt: stats.birthtime.toISOString(),
-              metadata
-            });
-          }
+      const p = await getPlayerState(req.player!);
+      const affection = getCharactersFromMemory().map(c => {
+        const { mediaUnlockLevel, ...status } = getAffectionStatus(p, c.id);
+        return status;
+      });
+      res.json({ affection });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // 💬 CHARACTER CHAT - streams the reply as chunked plain text
+  app.post('/api/ai/chat', requireAuth, async (req, res) => {
+    const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+    if (!message) return res.status(400).json({ error: 'Message is required' });
+    if (message.length > CHAT_CONFIG.MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ error: `Message must be ${CHAT_CONFIG.MAX_MESSAGE_LENGTH} characters or less` });
+    }
+
+    let player: any;
+    try {
+      player = await getPlayerState(req.player!);
+    } catch (e: any) {
+      return res.status(500).json({ error: e.message });
+    }
+
+    const characterId = req.body?.characterId || player.selectedCharacterId;
+    const character = characterId ? getCharacterFromMemory(characterId) : undefined;
+    if (!character) return res.status(404).json({ error: 'Character not found' });
+
+    const unlocked = (player.unlockedCharacters || []).includes(character.id) || (player.level || 1) >= (character.unlockLevel || 1);
+    if (!unlocked) return res.status(403).json({ error: 'Character is locked', unlockLevel: character.unlockLevel });
+
+    const limited = acquireChatSlot(player.id);
+    if (limited) {
+      res.setHeader('Retry-After', String(limited.retryAfterSeconds));
+      return res.status(429).json(limited);
+    }
+
+    try {
+      // Decided before streaming so the client learns about the attachment from the response headers
+      let image = null;
+      try {
+        image = await pickChatImage(req.player!, character.id, player);
+      } catch (e: any) {
+        console.warn('⚠️ [CHAT MEDIA] Image pick failed:', e.message);
+      }
+
+      const abort = new AbortController();
+      res.on('close', () => { if (!res.writableEnded) abort.abort(); });
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      if (image) res.setHeader('X-Chat-Image', encodeURI(signMediaUrl(image.url, player.id)));
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      let result: ChatReplyResult | null = null;
+      try {
+        const tone = getAffectionStatus(player, character.id).chatTone;
+        result = await streamCharacterReply(req.player!, character, message, token => res.write(token), abort.signal, image, tone);
+        console.log(`💬 [CHAT] ${req.player!.username} ↔ ${character.name} via ${result.provider} (${result.reply.length} chars${result.image ? `, image ${result.image.id}` : ''})`);
+      } catch (e: any) {
+        if (!abort.signal.aborted) {
+          console.error('💬 ❌ [CHAT] Reply failed:', e.message);
+          res.write(`${character.name} is busy right now. Try again in a moment.`);
         }
       }
-      
-      await scanDirectory(uploadsDir, '/uploads');
-      
+      res.end();
+
+      // The player already has the reply - bookkeeping failures are only logged
+      if (result) {
+        try {
+          const { player: updated, counted } = await addChatAffectionForPlayer(req.player!, character.id);
+          if (counted) await emitGameEvent(req.player!, { type: 'chatMessage', characterId: character.id, provider: result.provider }, updated);
+        } catch (e: any) {
+          console.error('💬 ❌ [CHAT] Affection update failed:', e.message);
+        }
+      }
+    } finally {
+      releaseChatSlot(player.id);
+    }
+  });
+
+  app.get('/api/ai/chat/history', requireAuth, async (req, res) => {
+    try {
+      const characterId = String(req.query.characterId || '');
+      if (!characterId) return res.status(400).json({ error: 'characterId is required' });
+      const player = await getPlayerState(req.player!);
+      const messages = await Promise.all((await getChatHistory(req.player!, characterId)).map(async m => (
+        m.image ? { ...m, image: { ...m.image, url: (await getMediaUrlForPlayer(player, m.image.url)).url } } : m
+      )));
+      res.json({ characterId, messages });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete('/api/ai/chat/history', requireAuth, async (req, res) => {
+    try {
+      const characterId = req.query.characterId ? String(req.query.characterId) : undefined;
+      await clearChatHistory(req.player!, characterId);
+      res.json({ success: true, characterId: characterId || null });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // 🔐 GALLERY - per-image access for this player, with signed URLs for what they may view
+  app.get('/api/gallery/:characterId', requireAuth, async (req, res) => {
+    try {
+      const player = await getPlayerState(req.player!);
+      const files = await listCharacterMediaFiles(req.params.characterId);
+      const images: any[] = [];
+
+      for (const [filename, webPath] of Array.from(files.entries())) {
+        const { url, rules, access, metadata, sources } = await getMediaUrlForPlayer(player, webPath);
+        if (rules.isHidden && !player.isAdmin) continue;
+        images.push({
+          id: rules.imageId,
+          filename,
+          path: webPath,
+          url,
+          sources,
+          width: metadata.width ?? null,
+          height: metadata.height ?? null,
+          placeholder: metadata.placeholder ?? null,
+          characterId: rules.characterId || req.params.characterId,
+          type: rules.type,
+          unlockLevel: rules.unlockLevel,
+          isUnlocked: access.allowed,
+          lockReason: access.allowed ? null : access.reason,
+          metadata: { nsfw: rules.nsfw, vip: rules.vip, poses: rules.poses }
+        });
+      }
+
+      images.sort((a, b) => a.unlockLevel - b.unlockLevel || a.filename.localeCompare(b.filename));
+      res.json({ images, expiresAt: new Date(Date.now() + MEDIA_ACCESS_CONFIG.URL_TTL_SECONDS * 1000).toISOString() });
+    } catch (e: any) {
+      console.error('🔐 [GALLERY] Error:', e);
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // 🔐 SIGN MEDIA - fresh URLs for /uploads paths the client already knows (display image etc.)
+  app.post('/api/media/sign', requireAuth, async (req, res) => {
+    try {
+      const paths: unknown = req.body?.paths;
+      if (!Array.isArray(paths) || paths.length === 0 || paths.length > 100 || !paths.every(p => typeof p === 'string')) {
+        return res.status(400).json({ error: 'paths must be an array of 1-100 strings' });
+      }
+
+      const player = await getPlayerState(req.player!);
+      const urls: Record<string, { url: string; isUnlocked: boolean; lockReason: string | null }> = {};
+      for (const webPath of paths as string[]) {
+        if (!webPath.startsWith('/uploads/')) continue;
+        const { url, access } = await getMediaUrlForPlayer(player, webPath);
+        urls[webPath] = { url, isUnlocked: access.allowed, lockReason: access.allowed ? null : access.reason };
+      }
+      res.json({ urls, expiresAt: new Date(Date.now() + MEDIA_ACCESS_CONFIG.URL_TTL_SECONDS * 1000).toISOString() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // 🗂️ GET ALL MEDIA (recursively searches organized folders) - hidden items only for media editors
+  app.get('/api/media', requireAuth, async (req, res) => {
+    try {
+      const showHidden = await canSeeHiddenMedia(req.player!);
+      const media = (await listMedia())
+        .filter(item => showHidden || !item.metadata.isHidden)
+        .map(({ filePath, ...item }) => item);
       console.log(`📸 [GALLERY] Found ${media.length} images`);
       res.json({ media });
     } catch (e: any) {
@@ -447,12 +848,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // 📤 UPLOAD MEDIA - ✅ FIXED: with dual metadata write
-  app.post('/api/media', requireAuth, upload.single('file'), async (req, res) => {
+  // 📤 UPLOAD MEDIA - metadata goes through the media repository in its canonical shape
+  app.post('/api/media', requireAuth, requireCapability('media:upload'), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
       
-      let metadata = null;
+      let metadata: any = {};
       if (req.body.metadata) {
         try {
           metadata = JSON.parse(req.body.metadata);
@@ -460,47 +861,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.warn('⚠️  [UPLOAD] Failed to parse metadata');
         }
       }
-      
-      // 📁 ORGANIZE FILE INTO CHARACTER/TYPE STRUCTURE
-      const characterId = metadata?.characterId || 'other';
-      const type = metadata?.type || 'other';
-      const tempPath = req.file.path;
-      
-      const organizedPath = await organizeImageFile(tempPath, req.file.originalname, characterId, type);
-      const finalFilename = path.basename(organizedPath);
-      
-      // ✅ DUAL METADATA WRITE: Save to both locations
-      if (metadata) {
-        try {
-          // 1. Save to progressive-data/images/
-          const metaPath = path.join(metadataDir, `${finalFilename}.meta.json`);
-          await fs.writeFile(metaPath, JSON.stringify(metadata, null, 2));
-          
-          // 2. ✅ ALSO save to character-data/{character}/{type}/
-          const characterDataDir = path.join(
-            __dirname,
-            '../main-gamedata/character-data',
-            characterId.toLowerCase(),
-            type.toLowerCase()
-          );
-          await fs.mkdir(characterDataDir, { recursive: true });
-          
-          const characterMetaPath = path.join(characterDataDir, `${finalFilename}.json`);
-          await fs.writeFile(characterMetaPath, JSON.stringify(metadata, null, 2));
-          
-          console.log(`✅ [UPLOAD] Metadata synced to both progressive-data and character-data`);
-        } catch (e) {
-          console.warn(`⚠️  [UPLOAD] Failed to save metadata:`, e);
-        }
+      const invalid = validateImageMetadataInput(metadata);
+      if (invalid) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ error: invalid });
       }
       
-      console.log(`✅ [UPLOAD] Image uploaded and organized: ${organizedPath}`);
+      // 📁 ORGANIZE, PROCESS AND SAVE METADATA
+      const stored = await storeUploadedImage(req.file.path, req.file.originalname, metadata);
+      
+      console.log(`✅ [UPLOAD] Image uploaded and organized: ${stored.url}`);
       res.json({ 
         success: true, 
-        url: organizedPath,
-        filename: finalFilename,
+        url: stored.url,
+        filename: stored.filename,
         size: req.file.size,
-        metadata
+        metadata: stored.metadata
       });
     } catch (e: any) {
       console.error('[UPLOAD] Failed:', e);
@@ -508,33 +884,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // 🔄 UPDATE METADATA
-  app.put('/api/media/:filename', requireAuth, async (req, res) => {
+  // 📦 BULK IMPORT - zip with an optional manifest.json/.csv. Dry run unless dryRun=false, so the
+  // client can show the per-file preview before anything is written
+  app.post('/api/media/import', requireAuth, requireCapability('media:upload'), importUpload.single('archive'), async (req, res) => {
+    try {
+      if (!req.file) return res.status(400).json({ error: 'No archive uploaded' });
+
+      let defaults: any = {};
+      if (req.body.defaults) {
+        try {
+          defaults = JSON.parse(req.body.defaults);
+        } catch {
+          return res.status(400).json({ error: 'defaults must be valid JSON' });
+        }
+      }
+      if (!defaults || typeof defaults !== 'object' || Array.isArray(defaults)) {
+        return res.status(400).json({ error: 'defaults must be an object' });
+      }
+      const invalid = validateMediaImportArchive(req.file.buffer);
+      if (invalid) return res.status(400).json({ error: invalid });
+
+      const dryRun = req.body.dryRun !== 'false';
+      const result = await withTracking('media-import', () => importMediaArchive(req.file!.buffer, { dryRun, defaults }));
+      res.json({ success: true, ...result });
+    } catch (e: any) {
+      console.error('📦 [IMPORT] Failed:', e);
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // 🔄 UPDATE METADATA - replaces the stored metadata
+  app.put('/api/media/:filename', requireAuth, requireCapability('media:edit'), async (req, res) => {
     try {
       const { filename } = req.params;
       const { metadata } = req.body;
       
       if (!metadata) return res.status(400).json({ error: 'Metadata required' });
+      const invalid = validateImageMetadataInput(metadata);
+      if (invalid) return res.status(400).json({ error: invalid });
       
-      // Save updated metadata to both locations
-      const metaPath = path.join(metadataDir, `${filename}.meta.json`);
-      await fs.writeFile(metaPath, JSON.stringify(metadata, null, 2));
-      
-      // Also update in character-data if characterId exists
-      if (metadata.characterId && metadata.type) {
-        const characterDataDir = path.join(
-          __dirname,
-          '../main-gamedata/character-data',
-          metadata.characterId.toLowerCase(),
-          metadata.type.toLowerCase()
-        );
-        await fs.mkdir(characterDataDir, { recursive: true });
-        const characterMetaPath = path.join(characterDataDir, `${filename}.json`);
-        await fs.writeFile(characterMetaPath, JSON.stringify(metadata, null, 2));
-      }
+      const file = await findMediaFile(filename);
+      if (!file) return res.status(404).json({ error: 'File not found' });
       
+      const saved = await saveImageMetadata(filename, metadata, getFolderFallback(file.path));
       console.log(`✅ [UPDATE] Metadata updated for ${filename}`);
-      res.json({ success: true, metadata });
+      res.json({ success: true, metadata: saved });
     } catch (e: any) {
       console.error('[UPDATE] Failed:', e);
       res.status(500).json({ error: e.message });
@@ -542,24 +936,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 🗑️ DELETE MEDIA
-  app.delete('/api/media/:filename', requireAuth, async (req, res) => {
+  app.delete('/api/media/:filename', requireAuth, requireCapability('media:delete'), async (req, res) => {
     try {
       const { filename } = req.params;
       
-      // Find file in organized structure
-      const filePath = await findImageFile(filename);
-      if (!filePath) {
+      const file = await findMediaFile(filename);
+      if (!file) {
         return res.status(404).json({ error: 'File not found' });
       }
       
-      // Delete file
-      await fs.unlink(filePath);
-      
-      // Delete metadata if exists (both locations)
-      try {
-        const metaPath = path.join(metadataDir, `${filename}.meta.json`);
-        await fs.unlink(metaPath);
-      } catch {}
+      await fs.unlink(file.filePath);
+      await deleteImageVariants(file.filePath);
+      await deleteImageMetadata(filename);
       
       console.log(`✅ [DELETE] Deleted ${filename}`);
       res.json({ success: true });
@@ -572,47 +960,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // 🖼️ GET ALL IMAGES (formatted for character gallery)
   app.get('/api/images', requireAuth, async (req, res) => {
     try {
-      const images: any[] = [];
-      
-      // Scan organized directory structure
-      async function scanDirectory(dirPath: string, webBasePath: string, characterId?: string) {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(dirPath, entry.name);
-          const webPath = `${webBasePath}/${entry.name}`;
-          
-          if (entry.isDirectory()) {
-            // First level = character folders
-            if (!characterId) {
-              await scanDirectory(fullPath, webPath, entry.name);
-            } else {
-              // Second level = type folders
-              await scanDirectory(fullPath, webPath, characterId);
-            }
-          } else if (/\.(jpg|jpeg|png|gif|webp)$/i.test(entry.name)) {
-            // Load metadata
-            let metadata = null;
-            try {
-              const metaPath = path.join(metadataDir, `${entry.name}.meta.json`);
-              const metaContent = await fs.readFile(metaPath, 'utf-8');
-              metadata = JSON.parse(metaContent);
-            } catch {}
-            
-            images.push({
-              id: entry.name.split('.')[0],
-              characterId: metadata?.characterId || characterId || 'unknown',
-              url: webPath,
-              filename: entry.name,
-              type: metadata?.type || 'other',
-              isHidden: metadata?.isHidden || false,
-              uploadedAt: (await fs.stat(fullPath)).birthtime.toISOString()
-            });
-          }
-        }
-      }
-      
-      await scanDirectory(uploadsDir, '/uploads');
+      const showHidden = await canSeeHiddenMedia(req.player!);
+      const images = (await listMedia()).filter(item => showHidden || !item.metadata.isHidden).map(({ filename, path: url, uploadedAt, metadata }) => ({
+        id: filename.split('.')[0],
+        characterId: metadata.characterId || 'unknown',
+        url,
+        filename,
+        type: metadata.type,
+        unlockLevel: metadata.unlockLevel,
+        categories: metadata.categories,
+        isHidden: metadata.isHidden,
+        uploadedAt
+      }));
       
       console.log(`🖼️ [IMAGES API] Returning ${images.length} images`);
       res.json({ images });
@@ -662,13 +1021,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/tasks', requireAuth, async (req, res) => { 
     try { 
       const p = await getPlayerState(req.player!); 
-      const tasksFromJSON = getTasksFromMemory();
-      const tasks = tasksFromJSON.map(task => ({
-        ...task, progress: calculateTaskProgress(p, task),
-        isCompleted: calculateTaskProgress(p, task) >= task.target,
-        isClaimed: (p.claimedTasks || []).includes(task.id)
-      }));
-      res.json({ tasks }); 
+      const rows = (await getPlayerProgress(req.player!)).tasks;
+      const now = Date.now();
+      const tasks = getAvailableTasks(p, now).map(task => {
+        const endsAt = getTaskEndsAt(task, now);
+        return {
+          ...task,
+          ...resolveTaskProgress(task, p, rows[task.id], now),
+          isClaimed: (p.claimedTasks || []).includes(task.id),
+          resetType: getTaskResetPeriod(task),
+          cadence: getTaskCadence(task),
+          inRotation: isRotationTask(task),
+          endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+          timeRemaining: endsAt ? Math.max(0, Math.floor((endsAt - now) / 1000)) : undefined
+        };
+      });
+      res.json({ 
+        tasks,
+        nextResets: {
+          daily: new Date(getNextResetAt('daily')).toISOString(),
+          weekly: new Date(getNextResetAt('weekly')).toISOString()
+        }
+      }); 
     } catch (e: any) { 
       res.status(500).json({ error: e.message }); 
     } 
@@ -677,10 +1051,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/achievements', requireAuth, async (req, res) => { 
     try { 
       const p = await getPlayerState(req.player!); 
+      const rows = (await getPlayerProgress(req.player!)).achievements;
       const achievementsFromJSON = getAchievementsFromMemory();
       const achievements = achievementsFromJSON.map(ach => {
-        const progress = calculateAchievementProgress(p, ach);
-        return { ...ach, progress, isCompleted: progress >= ach.target, isUnlocked: progress >= ach.target, isClaimed: (p.claimedAchievements || []).includes(ach.id) };
+        const progress = resolveAchievementProgress(ach, p, rows[ach.id]);
+        return { ...ach, ...progress, isUnlocked: progress.isCompleted, isClaimed: (p.claimedAchievements || []).includes(ach.id) };
       });
       res.json({ achievements }); 
     } catch (e: any) { 
@@ -688,22 +1063,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } 
   });
   
+  // Claims are checked and written under the player's lock so parallel requests can't both collect the reward
+  type ClaimResult = { error: string; rewards?: undefined } | { error?: undefined; rewards: RewardSummary };
   app.post('/api/tasks/:id/claim', requireAuth, async (req, res) => { 
     try { 
       const tid = req.params.id; 
-      const p = await getPlayerState(req.player!); 
       const task = getTaskFromMemory(tid);
       if (!task) return res.status(404).json({ error: 'Task not found' });
-      if ((p.claimedTasks || []).includes(tid)) return res.status(400).json({ error: 'Already claimed' });
-      const upd: any = { claimedTasks: [...(p.claimedTasks || []), tid] }; 
-      if (task.rewardType === 'lp') { 
-        upd.lustPoints = Math.round((p.lustPoints || p.points || 0) + task.rewardAmount); 
-        upd.points = upd.lustPoints; 
-      } else if (task.rewardType === 'lg') { 
-        upd.lustGems = Math.round((p.lustGems || 0) + task.rewardAmount); 
-      } 
-      const u = await withTracking('claim-task', () => updatePlayerState(req.player!, upd)); 
-      res.json({ success: true, player: u }); 
+      const { player: u, result } = await withTracking('claim-task', () => playerStateManager.mutatePlayer<ClaimResult>(req.player!, async (p) => {
+        if (!isTaskAvailable(task, p)) return { updates: null, result: { error: 'Task is not available right now' } };
+        if ((p.claimedTasks || []).includes(tid)) return { updates: null, result: { error: 'Already claimed' } };
+        const row = (await getPlayerProgress(req.player!)).tasks[tid];
+        if (!resolveTaskProgress(task, p, row).isCompleted) return { updates: null, result: { error: 'Task not completed' } };
+        const { updates: rewardUpdates, summary: rewards } = resolveRewards(p, getRewardSpec(task));
+        return { updates: { ...rewardUpdates, claimedTasks: [...(p.claimedTasks || []), tid] }, result: { rewards } };
+      }));
+      if (result.error) return res.status(400).json({ error: result.error });
+      await markProgressClaimed(req.player!, 'task', tid, u);
+      res.json({ success: true, player: u, rewards: result.rewards }); 
     } catch (e: any) { 
       res.status(500).json({ error: e.message }); 
     } 
@@ -712,19 +1089,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/achievements/:id/claim', requireAuth, async (req, res) => { 
     try { 
       const aid = req.params.id; 
-      const p = await getPlayerState(req.player!); 
       const ach = getAchievementFromMemory(aid);
       if (!ach) return res.status(404).json({ error: 'Achievement not found' });
-      if ((p.claimedAchievements || []).includes(aid)) return res.status(400).json({ error: 'Already claimed' });
-      const upd: any = { claimedAchievements: [...(p.claimedAchievements || []), aid] }; 
-      if (ach.rewardType === 'lp') { 
-        upd.lustPoints = Math.round((p.lustPoints || p.points || 0) + ach.rewardAmount); 
-        upd.points = upd.lustPoints; 
-      } else if (ach.rewardType === 'lg') { 
-        upd.lustGems = Math.round((p.lustGems || 0) + ach.rewardAmount); 
-      } 
-      const u = await withTracking('claim-achievement', () => updatePlayerState(req.player!, upd)); 
-      res.json({ success: true, player: u }); 
+      const { player: u, result } = await withTracking('claim-achievement', () => playerStateManager.mutatePlayer<ClaimResult>(req.player!, async (p) => {
+        if ((p.claimedAchievements || []).includes(aid)) return { updates: null, result: { error: 'Already claimed' } };
+        const row = (await getPlayerProgress(req.player!)).achievements[aid];
+        if (!resolveAchievementProgress(ach, p, row).isCompleted) return { updates: null, result: { error: 'Achievement not completed' } };
+        const { updates: rewardUpdates, summary: rewards } = resolveRewards(p, getRewardSpec(ach));
+        return { updates: { ...rewardUpdates, claimedAchievements: [...(p.claimedAchievements || []), aid] }, result: { rewards } };
+      }));
+      if (result.error) return res.status(400).json({ error: result.error });
+      await markProgressClaimed(req.player!, 'achievement', aid, u);
+      res.json({ success: true, player: u, rewards: result.rewards }); 
     } catch (e: any) { 
       res.status(500).json({ error: e.message }); 
     } 
@@ -733,12 +1109,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/admin/players', requireAuth, requireAdmin, async (_req, res) => { 
     try { 
       const ps = await storage.getAllPlayers(); 
-      res.json({ players: ps }); 
+      // Roles only live in the JSON saves
+      const roles = new Map((await playerStateManager.readAllPlayerStates()).map(state => [state.id, state.role]));
+      res.json({ players: ps.map(p => ({ ...p, role: getPlayerRole({ isAdmin: p.isAdmin, role: roles.get(p.id) }) })) }); 
     } catch (e: any) { 
       res.status(500).json({ error: e.message }); 
     } 
   });
 
+  // 🛡️ ROLE ASSIGNMENT: admin keeps isAdmin in sync so requireAdmin and the role agree
+  app.put('/api/admin/players/:id/role', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const role = req.body?.role;
+      if (!isPlayerRole(role)) return res.status(400).json({ error: 'Invalid role', roles: PLAYER_ROLES });
+      
+      const target = await storage.getPlayer(req.params.id);
+      if (!target) return res.status(404).json({ error: 'Player not found' });
+      if (target.id === req.player?.id) return res.status(400).json({ error: 'You cannot change your own role' });
+      
+      const u = await withTracking('admin/player-role', () => updatePlayerState(target, { role, isAdmin: role === 'admin' }));
+      console.log(`🛡️ [ROLES] ${req.player?.username || 'admin-token'} set ${target.username} to ${role}`);
+      res.json({ success: true, player: u, role: getPlayerRole(u) });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // 🛠️ ADMIN OVERRIDE: write server-only player fields (economy, progression, flags)
+  app.patch('/api/admin/players/:id', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const check = checkAdminPlayerPatch(req.body);
+      if (!check.ok) return res.status(400).json(check.error);
+      
+      const target = await storage.getPlayer(req.params.id);
+      if (!target) return res.status(404).json({ error: 'Player not found' });
+      
+      const u = await withTracking('admin/player-override', () => updatePlayerState(target, check.data));
+      console.log(`🛠️ [ADMIN OVERRIDE] ${req.player?.username || 'admin-token'} updated ${target.username}: ${Object.keys(check.data).join(', ')}`);
+      res.json({ success: true, player: u });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
   app.post('/api/admin/levels', requireAuth, requireAdmin, async (req, res) => { 
     try {
       const levelData = {
@@ -777,8 +1190,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/requirement-types', requireAuth, requireAdmin, (req, res) => {
+    const kind = req.query.kind === 'task' || req.query.kind === 'achievement' ? req.query.kind : undefined;
+    res.json({ success: true, requirementTypes: listRequirementTypes(kind) });
+  });
+
   app.post('/api/admin/tasks', requireAuth, requireAdmin, async (req, res) => {
     try {
+      const invalid = validateRequirementConfig(req.body, 'task') || validateRewardConfig(req.body) || validateTaskSchedule(req.body);
+      if (invalid) return res.status(400).json({ error: invalid });
       await saveGameData('tasks', req.body);
       await syncTasks();
       res.json({ success: true, task: req.body, tasks: getTasksFromMemory() });
@@ -789,6 +1209,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/admin/achievements', requireAuth, requireAdmin, async (req, res) => {
     try {
+      const invalid = validateRequirementConfig(req.body, 'achievement') || validateRewardConfig(req.body);
+      if (invalid) return res.status(400).json({ error: invalid });
       await saveGameData('achievements', req.body);
       await syncAchievements();
       res.json({ success: true, achievement: req.body, achievements: getAchievementsFromMemory() });
@@ -797,6 +1219,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/boosts', requireAuth, requireAdmin, (_req, res) => {
+    res.json({ success: true, boosts: getBoostsFromMemory() });
+  });
+
+  app.post('/api/admin/boosts', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const invalid = validateBoostConfig(req.body);
+      if (invalid) return res.status(400).json({ error: invalid });
+      if (getBoostFromMemory(req.body.id)) return res.status(409).json({ error: `Boost '${req.body.id}' already exists` });
+      
+      const now = new Date().toISOString();
+      const boostData = { isActive: true, isHidden: false, ...req.body, createdAt: now, updatedAt: now };
+      await saveGameData('boosts', boostData);
+      await syncBoosts();
+      res.json({ success: true, boost: boostData, boosts: getBoostsFromMemory() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.put('/api/admin/boosts/:id', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const current = getBoostFromMemory(req.params.id);
+      if (!current) return res.status(404).json({ error: 'Boost not found' });
+      
+      const boostData = { ...current, ...req.body, id: req.params.id, updatedAt: new Date().toISOString() };
+      const invalid = validateBoostConfig(boostData);
+      if (invalid) return res.status(400).json({ error: invalid });
+      
+      await saveGameData('boosts', boostData);
+      await syncBoosts();
+      res.json({ success: true, boost: boostData, boosts: getBoostsFromMemory() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete('/api/admin/boosts/:id', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      if (!getBoostFromMemory(req.params.id)) return res.status(404).json({ error: 'Boost not found' });
+      const result = await deleteGameData('boosts', req.params.id);
+      if (!result.success) return res.status(500).json({ error: result.error });
+      res.json({ success: true, boosts: getBoostsFromMemory() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.get('/api/admin/gifts', requireAuth, requireAdmin, (_req, res) => {
+    res.json({ success: true, gifts: getGiftsFromMemory() });
+  });
+
+  app.post('/api/admin/gifts', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const invalid = validateGiftConfig(req.body);
+      if (invalid) return res.status(400).json({ error: invalid });
+      if (getGiftFromMemory(req.body.id)) return res.status(409).json({ error: `Gift '${req.body.id}' already exists` });
+      
+      const now = new Date().toISOString();
+      const giftData = { isActive: true, isHidden: false, ...req.body, createdAt: now, updatedAt: now };
+      await saveGameData('gifts', giftData);
+      await syncGifts();
+      res.json({ success: true, gift: giftData, gifts: getGiftsFromMemory() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.put('/api/admin/gifts/:id', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const current = getGiftFromMemory(req.params.id);
+      if (!current) return res.status(404).json({ error: 'Gift not found' });
+      
+      const giftData = { ...current, ...req.body, id: req.params.id, updatedAt: new Date().toISOString() };
+      const invalid = validateGiftConfig(giftData);
+      if (invalid) return res.status(400).json({ error: invalid });
+      
+      await saveGameData('gifts', giftData);
+      await syncGifts();
+      res.json({ success: true, gift: giftData, gifts: getGiftsFromMemory() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  app.delete('/api/admin/gifts/:id', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      if (!getGiftFromMemory(req.params.id)) return res.status(404).json({ error: 'Gift not found' });
+      const result = await deleteGameData('gifts', req.params.id);
+      if (!result.success) return res.status(500).json({ error: result.error });
+      res.json({ success: true, gifts: getGiftsFromMemory() });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message });
+    }
+  });
+
   return server;
 }
 
@@ -3,6 +3,10 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { storage } from '../storage';
 import type { InsertUpgrade, InsertCharacter, InsertLevel } from '@shared/schema';
+import { validateRequirementConfig } from '../utils/requirementRegistry';
+import { validateRewardConfig } from '../utils/rewardResolver';
+import { validateTaskSchedule } from '../utils/taskPools';
+import { MediaCleaner, MEDIA_CLEANUP_CONFIG } from '../utils/mediaCleaner';
 
 const router = Router();
 
@@ -450,6 +454,10 @@ router.post('/tasks', async (req: Request, res: Response) => {
     if (!taskId || typeof taskId !== 'string') {
       return res.status(400).json({ success: false, error: 'Valid task ID is required' });
     }
+    const invalidConfig = validateRequirementConfig(taskData, 'task') || validateRewardConfig(taskData) || validateTaskSchedule(taskData);
+    if (invalidConfig) {
+      return res.status(400).json({ success: false, error: invalidConfig });
+    }
 
     const filePath = path.join(process.cwd(), 'main-gamedata', 'progressive-data', 'tasks', `${taskId}.json`);
     
@@ -477,6 +485,7 @@ router.put('/tasks/:id', async (req: Request, res: Response) => {
     const taskId = req.params.id;
     const updates = req.body;
     const filePath = path.join(process.cwd(), 'main-gamedata', 'progressive-data', 'tasks', `${taskId}.json`);
+    let invalidConfig: string | null = null;
 
     await withFileLock(filePath, async () => {
       const current = await readJSONFile(filePath);
@@ -490,10 +499,15 @@ router.put('/tasks/:id', async (req: Request, res: Response) => {
         id: taskId,
         updatedAt: new Date().toISOString()
       };
+      invalidConfig = validateRequirementConfig(updated, 'task') || validateRewardConfig(updated) || validateTaskSchedule(updated);
+      if (invalidConfig) return;
       await writeJSONFile(filePath, updated);
       console.log(`✅ [ADMIN API] Updated task: ${taskId}`);
     });
 
+    if (invalidConfig) {
+      return res.status(400).json({ success: false, error: invalidConfig });
+    }
     res.json({ success: true });
   } catch (error: any) {
     console.error('[ADMIN API] Failed to update task:', error);
@@ -543,6 +557,10 @@ router.post('/achievements', async (req: Request, res: Response) => {
     if (!achievementId || typeof achievementId !== 'string') {
       return res.status(400).json({ success: false, error: 'Valid achievement ID is required' });
     }
+    const invalidConfig = validateRequirementConfig(achievementData, 'achievement') || validateRewardConfig(achievementData);
+    if (invalidConfig) {
+      return res.status(400).json({ success: false, error: invalidConfig });
+    }
 
     const filePath = path.join(process.cwd(), 'main-gamedata', 'progressive-data', 'achievements', `${achievementId}.json`);
     
@@ -570,6 +588,7 @@ router.put('/achievements/:id', async (req: Request, res: Response) => {
     const achievementId = req.params.id;
     const updates = req.body;
     const filePath = path.join(process.cwd(), 'main-gamedata', 'progressive-data', 'achievements', `${achievementId}.json`);
+    let invalidConfig: string | null = null;
 
     await withFileLock(filePath, async () => {
       const current = await readJSONFile(filePath);
@@ -583,10 +602,15 @@ router.put('/achievements/:id', async (req: Request, res: Response) => {
         id: achievementId,
         updatedAt: new Date().toISOString()
       };
+      invalidConfig = validateRequirementConfig(updated, 'achievement') || validateRewardConfig(updated);
+      if (invalidConfig) return;
       await writeJSONFile(filePath, updated);
       console.log(`✅ [ADMIN API] Updated achievement: ${achievementId}`);
     });
 
+    if (invalidConfig) {
+      return res.status(400).json({ success: false, error: invalidConfig });
+    }
     res.json({ success: true });
   } catch (error: any) {
     console.error('[ADMIN API] Failed to update achievement:', error);
@@ -659,6 +683,69 @@ router.delete('/images/:filename', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================
+// MEDIA CLEANUP ROUTES
+// Path: /api/admin/media-cleanup
+// Findings are only ever quarantined from here; nothing is deleted until purge
+// ============================================
+
+router.get('/media-cleanup', async (req: Request, res: Response) => {
+  try {
+    const report = MediaCleaner.getLatestReport() || await MediaCleaner.scan();
+    const quarantine = await MediaCleaner.listQuarantine();
+    res.json({ success: true, report, quarantine, retentionDays: MEDIA_CLEANUP_CONFIG.RETENTION_DAYS, scanIntervalHours: MEDIA_CLEANUP_CONFIG.SCAN_INTERVAL_HOURS });
+  } catch (error: any) {
+    console.error('[ADMIN API] Failed to load media cleanup:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/media-cleanup/scan', async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, report: await MediaCleaner.scan() });
+  } catch (error: any) {
+    console.error('[ADMIN API] Media scan failed:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/media-cleanup/quarantine', async (req: Request, res: Response) => {
+  try {
+    const { ids } = req.body;
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      return res.status(400).json({ success: false, error: 'ids must be a non-empty array of finding ids' });
+    }
+    const results = await MediaCleaner.quarantine(ids, req.player?.username || 'admin');
+    res.json({ success: true, results, quarantine: await MediaCleaner.listQuarantine() });
+  } catch (error: any) {
+    console.error('[ADMIN API] Quarantine failed:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+router.post('/media-cleanup/quarantine/:id/restore', async (req: Request, res: Response) => {
+  try {
+    const error = await MediaCleaner.restore(req.params.id);
+    if (error) return res.status(error === 'Quarantine entry not found' ? 404 : 409).json({ success: false, error });
+    res.json({ success: true, quarantine: await MediaCleaner.listQuarantine() });
+  } catch (error: any) {
+    console.error('[ADMIN API] Restore failed:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Purge one entry now, or (without an id) everything past the retention window
+router.delete('/media-cleanup/quarantine/:id?', async (req: Request, res: Response) => {
+  try {
+    const purged = await MediaCleaner.purge(req.params.id ? [req.params.id] : undefined);
+    if (req.params.id && purged.length === 0) return res.status(404).json({ success: false, error: 'Quarantine entry not found' });
+    res.json({ success: true, purged: purged.length, quarantine: await MediaCleaner.listQuarantine() });
+  } catch (error: any) {
+    console.error('[ADMIN API] Purge failed:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 export default router;
 
 console.log('✅ [ADMIN ROUTES] Admin API initialized - Full CRUD available for all entities');
@@ -45,7 +45,7 @@ router.get('/whoami', requireAuth, async (req, res) => {
   }
 });
 
-// 🧹 DEBUG: Clean up duplicate media files
+// 🧹 DEBUG: Quarantine duplicate and orphaned media files (review them under Admin > Cleanup)
 router.post('/cleanup-media', requireAuth, async (req, res) => {
   try {
     if (!req.player!.isAdmin) {
@@ -55,12 +55,12 @@ router.post('/cleanup-media', requireAuth, async (req, res) => {
     const { dryRun = true } = req.body;
     
     console.log(`🧹 [DEBUG CLEANUP] Starting media cleanup (${dryRun ? 'DRY RUN' : 'LIVE'})...`);
-    const results = await MediaCleaner.fullCleanup(undefined, dryRun);
+    const results = await MediaCleaner.fullCleanup(dryRun, req.player!.username);
     
     res.json({ 
       success: true, 
       cleanup: results,
-      message: `Found ${results.duplicateSets} duplicate sets and ${results.orphanedFiles} orphaned files. ${dryRun ? 'Use dryRun: false to actually delete them.' : 'Cleanup complete!'}` 
+      message: `Found ${results.duplicates} duplicates, ${results.orphanedFiles} orphaned files and ${results.missingImages} metadata files without an image. ${dryRun ? 'Use dryRun: false to quarantine them.' : `Quarantined ${results.filesQuarantined}; they can be restored for ${results.retentionDays} days.`}` 
     });
   } catch (error) {
     console.error('❌ [DEBUG CLEANUP] Error:', error);
@@ -18,15 +18,10 @@
 
 import express from 'express';
 import fetch from 'node-fetch';
+import { providerHealth, checkCircuitBreaker, recordFailure, recordSuccess } from '../utils/aiProviderHealth.js';
 
 const router = express.Router();
 
-// Provider health tracking
-const providerHealth = {
-  mistral: { failures: 0, lastFailure: 0, circuitOpen: false },
-  perplexity: { failures: 0, lastFailure: 0, circuitOpen: false }
-};
-
 // 🆕 NEW: Operation timing tracking (integrated with Luna Learning)
 const operationTimings = new Map();
 const deadlockPatterns = [
@@ -39,38 +34,6 @@ const deadlockPatterns = [
   'playerStateManager'
 ];
 
-const CIRCUIT_BREAKER_THRESHOLD = 3;
-const CIRCUIT_BREAKER_TIMEOUT = 60000; // 1 minute
-
-// Reset circuit breaker if enough time has passed
-function checkCircuitBreaker(provider) {
-  const health = providerHealth[provider];
-  if (health.circuitOpen && Date.now() - health.lastFailure > CIRCUIT_BREAKER_TIMEOUT) {
-    health.circuitOpen = false;
-    health.failures = 0;
-    console.log(`🌙 [${provider}] Circuit breaker reset`);
-  }
-  return !health.circuitOpen;
-}
-
-// Record provider failure
-function recordFailure(provider, error) {
-  const health = providerHealth[provider];
-  health.failures++;
-  health.lastFailure = Date.now();
-  
-  if (health.failures >= CIRCUIT_BREAKER_THRESHOLD) {
-    health.circuitOpen = true;
-    console.log(`🌙 [${provider}] Circuit breaker OPEN after ${health.failures} failures`);
-  }
-}
-
-// Record provider success
-function recordSuccess(provider) {
-  const health = providerHealth[provider];
-  health.failures = Math.max(0, health.failures - 1);
-}
-
 // 🆕 NEW: Detect deadlock patterns in error messages
 function detectDeadlockPattern(message, code, error) {
   const text = `${message || ''} ${code || ''} ${error || ''}`.toLowerCase();
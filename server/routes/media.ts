@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import fs from 'fs/promises';
+import {
+  resolveUploadPath,
+  getMediaRules,
+  isPublicMedia,
+  verifyMediaSignature,
+  getLockedPlaceholder
+} from '../utils/mediaAccess';
+
+// 🔐 /uploads gate - replaces express.static so restricted images need a signed URL
+const router = Router();
+
+router.get('/*', async (req, res) => {
+  const webPath = `/uploads${req.path}`;
+  const filePath = resolveUploadPath(webPath);
+  if (!filePath) return res.status(400).json({ error: 'Invalid media path' });
+
+  try {
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile()) return res.status(404).json({ error: 'File not found' });
+  } catch {
+    return res.status(404).json({ error: 'File not found' });
+  }
+
+  try {
+    const rules = await getMediaRules(webPath);
+    if (isPublicMedia(rules)) {
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      return res.sendFile(filePath);
+    }
+
+    const signed = verifyMediaSignature(webPath, req.query);
+    if (signed) {
+      res.setHeader('Cache-Control', `private, max-age=${signed.remainingSeconds}`);
+      return res.sendFile(filePath);
+    }
+
+    const placeholder = await getLockedPlaceholder(filePath);
+    res.status(403);
+    res.setHeader('Content-Type', 'image/webp');
+    res.setHeader('Cache-Control', 'private, max-age=60');
+    res.setHeader('X-Media-Locked', '1');
+    res.send(placeholder);
+  } catch (e: any) {
+    console.error(`🔐 [MEDIA GATE] Failed to serve ${webPath}:`, e.message);
+    res.status(500).json({ error: 'Failed to serve media' });
+  }
+});
+
+export default router;
@@ -5,7 +5,10 @@
 import express from 'express';
 import { createClient } from '@supabase/supabase-js';
 import { requireAuth } from '../middleware/auth.js';
-import { setDisplayImageForPlayer, updatePlayerState, getPlayerState } from '../utils/playerStateManager.js';
+import { setDisplayImageForPlayer, updatePlayerState, getPlayerState, isCharacterUnlocked } from '../utils/playerStateManager.js';
+import { getCharacterFromMemory } from '../utils/unifiedDataLoader.js';
+import { checkClientPlayerPatch } from '../utils/playerFieldPolicy.js';
+import { getMediaRules, checkMediaAccess } from '../utils/mediaAccess.js';
 
 const router = express.Router();
 
@@ -40,6 +43,12 @@ router.patch('/active-character', async (req, res) => {
       return res.status(400).json({ error: 'characterId is required' });
     }
 
+    const character = typeof characterId === 'string' ? getCharacterFromMemory(characterId) : undefined;
+    if (!character) return res.status(404).json({ error: 'Character not found' });
+    if (!isCharacterUnlocked(await getPlayerState(player), character.id)) {
+      return res.status(403).json({ error: 'Character is locked', unlockLevel: character.unlockLevel });
+    }
+
     // Update player state with new active character
     const updated = await updatePlayerState(player, {
       selectedCharacterId: characterId,
@@ -126,6 +135,19 @@ router.post('/set-display-image', async (req, res) => {
 
     console.log(`🖼️ [SET-DISPLAY] Player: ${player.username}, Image: ${imageToSet}`);
 
+    // 🔐 Same gate as the gallery - a locked image can't become the display picture
+    if (imageToSet.startsWith('/uploads/')) {
+      const access = checkMediaAccess(await getPlayerState(player), await getMediaRules(imageToSet));
+      if (!access.allowed) {
+        return res.status(403).json({
+          success: false,
+          error: 'Image is locked',
+          lockReason: access.reason,
+          unlockLevel: access.unlockLevel
+        });
+      }
+    }
+
     const updated = await setDisplayImageForPlayer(player, imageToSet);
 
     console.log(`✅ [SET-DISPLAY] Updated successfully - displayImage now: ${updated.displayImage}`);
@@ -156,7 +178,13 @@ router.post('/update', async (req, res) => {
       return res.status(400).json({ error: 'No updates provided' });
     }
 
-    const updated = await updatePlayerState(player, updates);
+    // 🛡️ Same whitelist as PATCH /api/player/me - economy fields are server-owned
+    const check = checkClientPlayerPatch(updates, await getPlayerState(player));
+    if (!check.ok) {
+      return res.status(400).json(check.error);
+    }
+
+    const updated = await updatePlayerState(player, check.data);
 
     console.log(`✅ [PLAYER-UPDATE] Successfully updated player`);
 
@@ -1,5 +1,5 @@
 #!/usr/bin/env tsx
-// 🧹 SCRIPT: Clean up duplicate media files
+// 🧹 SCRIPT: Move duplicate and orphaned media into quarantine
 // Usage: npx tsx server/scripts/cleanupMedia.ts [--live]
 
 import { MediaCleaner } from '../utils/mediaCleaner.js';
@@ -12,38 +12,32 @@ async function main() {
   
   console.log('🧹 ClassikLust Media Cleanup Tool');
   console.log(`📁 Scanning: ${uploadsDir}`);
-  console.log(`🔧 Mode: ${isLive ? 'LIVE (will delete files)' : 'DRY RUN (analysis only)'}`);
+  console.log(`🔧 Mode: ${isLive ? 'LIVE (will move files to quarantine)' : 'DRY RUN (analysis only)'}`);
   console.log('');
   
   if (!isLive) {
-    console.log('⚠️  This is a dry run. Add --live flag to actually delete files.');
+    console.log('⚠️  This is a dry run. Add --live flag to quarantine the findings.');
     console.log('');
   }
   
   try {
-    // Clean up duplicates
-    console.log('🔍 Step 1: Finding duplicate files...');
-    const duplicateResults = await MediaCleaner.removeDuplicates(uploadsDir, !isLive);
-    
-    console.log('');
-    
-    // Clean up orphans
-    console.log('🔍 Step 2: Finding orphaned files...');
-    const orphanResults = await MediaCleaner.removeOrphanedFiles(uploadsDir, !isLive);
+    const results = await MediaCleaner.fullCleanup(!isLive, 'cleanup-script');
     
     console.log('');
     console.log('🎆 CLEANUP SUMMARY:');
-    console.log(`  📏 Duplicate sets found: ${duplicateResults.duplicateSets}`);
-    console.log(`  📏 Orphaned files found: ${orphanResults.orphanedFiles}`);
-    console.log(`  🗑️ Total files ${isLive ? 'deleted' : 'marked for deletion'}: ${duplicateResults.filesDeleted + orphanResults.filesDeleted}`);
-    console.log(`  💾 Total space ${isLive ? 'freed' : 'would be freed'}: ${duplicateResults.spaceFreedMB + orphanResults.spaceFreedMB} MB`);
+    console.log(`  📏 Duplicates found: ${results.duplicates}`);
+    console.log(`  📏 Orphaned files found: ${results.orphanedFiles}`);
+    console.log(`  📏 Metadata without an image: ${results.missingImages}`);
+    console.log(`  🖼️ Broken display images (fix per player): ${results.brokenDisplayImages}`);
+    console.log(`  🧹 Findings ${isLive ? 'quarantined' : 'marked for quarantine'}: ${isLive ? results.filesQuarantined : results.quarantineCandidates}`);
+    console.log(`  ⏳ Quarantined files are purged after ${results.retentionDays} days; restore them from the admin panel until then`);
     
-    if (!isLive && (duplicateResults.filesDeleted > 0 || orphanResults.filesDeleted > 0)) {
+    if (!isLive && results.quarantineCandidates > 0) {
       console.log('');
-      console.log('✅ To actually delete these files, run:');
+      console.log('✅ To quarantine these files, run:');
       console.log('  npx tsx server/scripts/cleanupMedia.ts --live');
     }
-    
+    process.exit(0);
   } catch (error) {
     console.error('❌ Cleanup failed:', error);
     process.exit(1);
@@ -52,4 +46,4 @@ async function main() {
 
 if (import.meta.url === `file://${process.argv[1]}`) {
   main();
-}
\ No newline at end of file
+}
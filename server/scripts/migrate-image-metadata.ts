@@ -0,0 +1,206 @@
+#!/usr/bin/env tsx
+// 🗂️ SCRIPT: Reconcile image metadata into the canonical progressive-data/images/<file>.meta.json
+// Reads the three stores that uploads used to write (progressive-data meta files, character-data copies
+// and the mediaUploads table), merges them per image and reports every field they disagree on.
+// Precedence when they conflict: progressive-data > mediaUploads > character-data.
+// Usage: npx tsx server/scripts/migrate-image-metadata.ts [--live]
+
+import fs from 'fs/promises';
+import path from 'path';
+import { DATA_PATHS } from '../gameConfig';
+import { listMediaFiles, readStoredImageMetadata, saveImageMetadata, getFolderFallback, METADATA_DIR } from '../utils/mediaRepository';
+import { IMAGE_CATEGORY_FLAGS, IMAGE_PROCESSING_FIELDS, normalizeImageMetadata, type ImageMetadata } from '@shared/imageMetadata';
+
+type SourceName = 'progressive-data' | 'mediaUploads' | 'character-data';
+// Pipeline output (dimensions, variants, placeholder) only ever lived in progressive-data and is kept as is
+type MetadataField = Exclude<keyof ImageMetadata, 'updatedAt' | typeof IMAGE_PROCESSING_FIELDS[number]>;
+
+const SOURCE_ORDER: SourceName[] = ['progressive-data', 'mediaUploads', 'character-data'];
+
+// Every spelling a field was stored under
+const FIELD_KEYS: Record<MetadataField, string[]> = {
+  characterId: ['characterId'],
+  type: ['type', 'imageType'],
+  unlockLevel: ['unlockLevel', 'levelRequired'],
+  categories: ['categories', ...IMAGE_CATEGORY_FLAGS],
+  poses: ['poses'],
+  isHidden: ['isHidden', 'hideFromGallery'],
+  chatEnable: ['chatEnable', 'enableForChat'],
+  chatSendPercent: ['chatSendPercent']
+};
+
+interface Conflict {
+  filename: string;
+  field: MetadataField;
+  kept: SourceName;
+  values: Partial<Record<SourceName, unknown>>;
+}
+
+async function readJSON(filePath: string): Promise<Record<string, any> | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readProgressiveData(): Promise<Map<string, Record<string, any>>> {
+  const found = new Map<string, Record<string, any>>();
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(METADATA_DIR)).filter(f => f.endsWith('.meta.json'));
+  } catch {}
+  for (const file of files) {
+    const filename = file.slice(0, -'.meta.json'.length);
+    const meta = await readStoredImageMetadata(filename);
+    if (meta) found.set(filename, meta);
+  }
+  return found;
+}
+
+// character-data/<char>/<type>/<file>.json - the <char>.json files next to the folders are old character definitions.
+// Character and type come from the upload folder like for every other source, so only stored fields count.
+async function readCharacterData(): Promise<Map<string, Record<string, any>>> {
+  const found = new Map<string, Record<string, any>>();
+  const root = path.join(process.cwd(), DATA_PATHS.CHARACTER_DATA);
+  const characters = await fs.readdir(root, { withFileTypes: true }).catch(() => []);
+  for (const character of characters.filter(entry => entry.isDirectory())) {
+    const types = await fs.readdir(path.join(root, character.name), { withFileTypes: true }).catch(() => []);
+    for (const type of types.filter(entry => entry.isDirectory())) {
+      const typeDir = path.join(root, character.name, type.name);
+      for (const file of (await fs.readdir(typeDir)).filter(f => f.endsWith('.json'))) {
+        const meta = await readJSON(path.join(typeDir, file));
+        if (meta) found.set(file.slice(0, -'.json'.length), meta);
+      }
+    }
+  }
+  return found;
+}
+
+async function readMediaUploads(): Promise<{ rows: Map<string, Record<string, any>>; error: string | null }> {
+  const rows = new Map<string, Record<string, any>>();
+  try {
+    // Imported lazily - storage throws on import without DATABASE_URL, and the JSON stores should still migrate
+    const { storage } = await import('../storage');
+    for (const row of await storage.getMediaUploads(undefined, true)) {
+      rows.set(path.basename(row.url.split('?')[0]), {
+        characterId: row.characterId,
+        type: row.type,
+        unlockLevel: row.unlockLevel,
+        categories: row.categories,
+        poses: row.poses,
+        isHidden: row.isHidden,
+        chatEnable: row.chatEnable,
+        chatSendPercent: row.chatSendPercent
+      });
+    }
+    return { rows, error: null };
+  } catch (error: any) {
+    return { rows, error: error.message };
+  }
+}
+
+function explicitFields(raw: Record<string, any>): MetadataField[] {
+  return (Object.keys(FIELD_KEYS) as MetadataField[]).filter(field => FIELD_KEYS[field].some(key => raw[key] !== undefined));
+}
+
+async function main() {
+  const isLive = process.argv.slice(2).includes('--live');
+
+  console.log('🗂️ Image Metadata Migration');
+  console.log(`🔧 Mode: ${isLive ? 'LIVE (will rewrite metadata files)' : 'DRY RUN (report only)'}`);
+  console.log('');
+
+  const files = new Map((await listMediaFiles()).map(file => [file.filename, file.path]));
+  const database = await readMediaUploads();
+  const sources: Record<SourceName, Map<string, Record<string, any>>> = {
+    'progressive-data': await readProgressiveData(),
+    'mediaUploads': database.rows,
+    'character-data': await readCharacterData()
+  };
+
+  for (const source of SOURCE_ORDER) console.log(`📥 ${source}: ${sources[source].size} entries`);
+  if (database.error) console.warn(`⚠️  mediaUploads skipped (database unavailable: ${database.error})`);
+  console.log(`🖼️ Image files on disk: ${files.size}`);
+  console.log('');
+
+  const filenames = new Set<string>(files.keys());
+  SOURCE_ORDER.forEach(source => sources[source].forEach((_meta, filename) => filenames.add(filename)));
+
+  const conflicts: Conflict[] = [];
+  const missingFiles: string[] = [];
+  let rewritten = 0;
+  let unchanged = 0;
+
+  for (const filename of Array.from(filenames).sort()) {
+    const webPath = files.get(filename);
+    if (!webPath) {
+      missingFiles.push(filename);
+      continue;
+    }
+    const fallback = getFolderFallback(webPath);
+
+    // Per field, the first source (in precedence order) that actually set it wins
+    const merged: Partial<Record<MetadataField, unknown>> = {};
+    for (const field of Object.keys(FIELD_KEYS) as MetadataField[]) {
+      const values: Partial<Record<SourceName, unknown>> = {};
+      for (const source of SOURCE_ORDER) {
+        const raw = sources[source].get(filename);
+        if (raw && explicitFields(raw).includes(field)) values[source] = normalizeImageMetadata(raw, fallback)[field];
+      }
+      const setBy = SOURCE_ORDER.filter(source => source in values);
+      if (setBy.length === 0) continue;
+
+      merged[field] = values[setBy[0]];
+      if (setBy.some(source => JSON.stringify(values[source]) !== JSON.stringify(merged[field]))) {
+        conflicts.push({ filename, field, kept: setBy[0], values });
+      }
+    }
+
+    const canonical = normalizeImageMetadata(merged, fallback);
+    const stored = sources['progressive-data'].get(filename);
+    const { updatedAt: _storedAt, ...storedFields } = stored || {};
+    IMAGE_PROCESSING_FIELDS.forEach(field => delete storedFields[field]);
+    if (stored && JSON.stringify(storedFields) === JSON.stringify(canonical)) {
+      unchanged++;
+      continue;
+    }
+
+    rewritten++;
+    if (isLive) await saveImageMetadata(filename, merged, fallback);
+  }
+
+  if (conflicts.length > 0) {
+    console.log(`⚔️ CONFLICTS (${conflicts.length}):`);
+    for (const conflict of conflicts) {
+      const values = SOURCE_ORDER.filter(source => source in conflict.values).map(source => `${source}=${JSON.stringify(conflict.values[source])}`);
+      console.log(`  ${conflict.filename} ${conflict.field}: ${values.join(', ')} → kept ${conflict.kept}`);
+    }
+    console.log('');
+  }
+  if (missingFiles.length > 0) {
+    console.log(`👻 Metadata without an image file (left untouched): ${missingFiles.join(', ')}`);
+    console.log('');
+  }
+
+  console.log('🎆 MIGRATION SUMMARY:');
+  console.log(`  ✏️ Metadata files ${isLive ? 'written' : 'to write'}: ${rewritten}`);
+  console.log(`  ✅ Already canonical: ${unchanged}`);
+  console.log(`  ⚔️ Conflicting fields: ${conflicts.length}`);
+  console.log(`  👻 Orphaned metadata: ${missingFiles.length}`);
+
+  if (!isLive && rewritten > 0) {
+    console.log('');
+    console.log('✅ To write the canonical metadata, run:');
+    console.log('  npx tsx server/scripts/migrate-image-metadata.ts --live');
+  }
+  process.exit(0);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  });
+}
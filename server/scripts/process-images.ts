@@ -0,0 +1,59 @@
+#!/usr/bin/env tsx
+// 🖼️ SCRIPT: Generate WebP variants, dimensions and placeholders for images uploaded before the pipeline existed
+// Only images whose metadata has no variants yet are processed unless --force is given.
+// Usage: npx tsx server/scripts/process-images.ts [--live] [--force]
+
+import { listMedia, saveImageMetadata, getFolderFallback } from '../utils/mediaRepository';
+import { processUploadedImage } from '../utils/imagePipeline';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const isLive = args.includes('--live');
+  const force = args.includes('--force');
+
+  console.log('🖼️ Image Processing Backfill');
+  console.log(`🔧 Mode: ${isLive ? 'LIVE (will write variants and metadata)' : 'DRY RUN (report only)'}${force ? ', reprocessing everything' : ''}`);
+  console.log('');
+
+  const media = await listMedia();
+  const pending = media.filter(item => force || !item.metadata.variants?.length);
+  console.log(`🗂️ Images: ${media.length}, to process: ${pending.length}`);
+
+  const failed: string[] = [];
+  let processed = 0;
+  for (const item of pending) {
+    if (!isLive) {
+      console.log(`  ⏭️ ${item.path}`);
+      continue;
+    }
+    try {
+      // Processed one at a time - sharp work is CPU bound and the server may be running alongside
+      const processing = await processUploadedImage(item.filePath, item.path);
+      await saveImageMetadata(item.filename, item.metadata, getFolderFallback(item.path), processing);
+      processed++;
+    } catch (error: any) {
+      console.warn(`  ⚠️  ${item.path}: ${error.message}`);
+      failed.push(item.filename);
+    }
+  }
+
+  console.log('');
+  console.log('🎆 BACKFILL SUMMARY:');
+  console.log(`  ✏️ Images ${isLive ? 'processed' : 'to process'}: ${isLive ? processed : pending.length}`);
+  console.log(`  ✅ Already processed: ${media.length - pending.length}`);
+  console.log(`  ❌ Failed: ${failed.length}`);
+
+  if (!isLive && pending.length > 0) {
+    console.log('');
+    console.log('✅ To generate the variants, run:');
+    console.log('  npx tsx server/scripts/process-images.ts --live');
+  }
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+// 📱 SCRIPT: Generate a signed Telegram WebApp initData string for offline login testing
+// Usage: TELEGRAM_BOT_TOKEN=... npx tsx server/scripts/sign-telegram-initdata.ts <telegramId> [username] [--age=<seconds>]
+
+import { createSignedInitData, verifyTelegramInitData } from '../utils/telegramAuth.js';
+
+function main() {
+  const args = process.argv.slice(2);
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+
+  if (!botToken) {
+    console.error('❌ TELEGRAM_BOT_TOKEN must be set');
+    process.exit(1);
+  }
+
+  const [telegramId, username] = args.filter(a => !a.startsWith('--'));
+  if (!telegramId || isNaN(Number(telegramId))) {
+    console.error('❌ Usage: sign-telegram-initdata.ts <telegramId> [username] [--age=<seconds>]');
+    process.exit(1);
+  }
+
+  const ageArg = args.find(a => a.startsWith('--age='));
+  const ageSeconds = ageArg ? parseInt(ageArg.split('=')[1], 10) : 0;
+  const authDate = new Date(Date.now() - ageSeconds * 1000);
+
+  const initData = createSignedInitData(
+    { id: Number(telegramId), username, first_name: username || 'Tester' },
+    botToken,
+    authDate
+  );
+  const check = verifyTelegramInitData(initData, botToken);
+
+  console.log('📝 initData:');
+  console.log(initData);
+  console.log('');
+  console.log(`🔐 Local verification: ${check.valid ? '✅ valid' : `❌ ${check.reason}`}`);
+  console.log('');
+  console.log('📤 Try it:');
+  console.log(`curl -X POST http://localhost:5000/api/auth/telegram -H 'Content-Type: application/json' -d '${JSON.stringify({ initData })}'`);
+}
+
+main();
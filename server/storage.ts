@@ -22,6 +22,10 @@ import {
   type InsertSession,
   type MediaUpload,
   type InsertMediaUpload,
+  type PlayerTaskProgress,
+  type InsertPlayerTaskProgress,
+  type PlayerAchievementProgress,
+  type InsertPlayerAchievementProgress,
 } from "@shared/schema";
 
 const supabaseUrl = process.env.SUPABASE_URL;
@@ -101,7 +105,7 @@ function sanitizeForDB(data: any): any {
     'points', 'lustPoints', 'lustGems', 'energy', 'energyMax', 'level',
     'passiveIncomeRate', 'lastTapValue', 'totalTapsAllTime',
     'totalTapsToday', 'lpEarnedToday', 'upgradesPurchasedToday',
-    'consecutiveDays', 'boostMultiplier'
+    'consecutiveDays'
   ];
   
   numericFields.forEach(field => {
@@ -166,6 +170,9 @@ export interface IStorage {
   createMediaUpload(data: InsertMediaUpload): Promise<MediaUpload>;
   updateMediaUpload(id: string, updates: Partial<MediaUpload>): Promise<MediaUpload | undefined>;
   deleteMediaUpload(id: string): Promise<void>;
+  
+  upsertPlayerTaskProgress(data: InsertPlayerTaskProgress): Promise<PlayerTaskProgress>;
+  upsertPlayerAchievementProgress(data: InsertPlayerAchievementProgress): Promise<PlayerAchievementProgress>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -612,6 +619,30 @@ export class DatabaseStorage implements IStorage {
   async deleteMediaUpload(id: string): Promise<void> {
     await db.delete(schema.mediaUploads).where(eq(schema.mediaUploads.id, id));
   }
+
+  async upsertPlayerTaskProgress(data: InsertPlayerTaskProgress): Promise<PlayerTaskProgress> {
+    const result = await db
+      .insert(schema.playerTaskProgress)
+      .values({ ...data, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [schema.playerTaskProgress.playerId, schema.playerTaskProgress.taskId],
+        set: { ...data, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async upsertPlayerAchievementProgress(data: InsertPlayerAchievementProgress): Promise<PlayerAchievementProgress> {
+    const result = await db
+      .insert(schema.playerAchievementProgress)
+      .values({ ...data, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [schema.playerAchievementProgress.playerId, schema.playerAchievementProgress.achievementId],
+        set: { ...data, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,125 @@
+/**
+ * 💞 Character Affection
+ * Each player-character pair builds affection points (player state `characterAffection`, next to
+ * `unlockedCharacters`) from taps while the character is selected, chat messages and gifts.
+ * Tiers come from the character's `affectionTiers` (or the defaults below); reaching a tier can unlock
+ * images, change the chat tone and raise the tap multiplier for that character.
+ */
+
+import { getCharacterFromMemory } from './unifiedDataLoader';
+import type { AffectionStatus, AffectionTier } from '@shared/gameConfig';
+
+export const AFFECTION_CONFIG = {
+  POINTS_PER_TAP: parseFloat(process.env.AFFECTION_POINTS_PER_TAP || '0.1'),
+  POINTS_PER_CHAT_MESSAGE: parseFloat(process.env.AFFECTION_POINTS_PER_CHAT_MESSAGE || '5'),
+  // Chat costs nothing to send, so a message only counts once per cooldown and earns a capped amount per day
+  CHAT_COOLDOWN_SECONDS: parseInt(process.env.AFFECTION_CHAT_COOLDOWN_SECONDS || '30', 10),
+  MAX_CHAT_POINTS_PER_DAY: parseFloat(process.env.AFFECTION_MAX_CHAT_POINTS_PER_DAY || '50'),
+  DEFAULT_TIERS: [
+    { level: 1, points: 0, name: 'Stranger', chatTone: 'polite but a little guarded' },
+    { level: 2, points: 100, name: 'Acquaintance', mediaUnlockLevel: 2 },
+    { level: 3, points: 400, name: 'Friend', chatTone: 'friendly and playful', mediaUnlockLevel: 3 },
+    { level: 4, points: 1000, name: 'Close Friend', tapMultiplier: 1.1, mediaUnlockLevel: 5 },
+    { level: 5, points: 2500, name: 'Sweetheart', chatTone: 'openly affectionate and flirty', tapMultiplier: 1.25, mediaUnlockLevel: 8 },
+    { level: 6, points: 6000, name: 'Devoted', tapMultiplier: 1.5, mediaUnlockLevel: 12 }
+  ] as AffectionTier[]
+} as const;
+
+export type AffectionSource = 'tap' | 'chat' | 'gift';
+
+export function getAffectionTiers(characterId: string): AffectionTier[] {
+  const configured = getCharacterFromMemory(characterId)?.affectionTiers;
+  const tiers = Array.isArray(configured) && configured.length > 0 ? configured : AFFECTION_CONFIG.DEFAULT_TIERS;
+  return [...tiers].sort((a, b) => a.points - b.points);
+}
+
+export function getAffectionPoints(player: any, characterId: string): number {
+  return Number(player?.characterAffection?.[characterId]) || 0;
+}
+
+function getReachedTiers(tiers: AffectionTier[], points: number): AffectionTier[] {
+  return tiers.filter(tier => points >= tier.points);
+}
+
+/**
+ * Current tier and the perks accumulated from every reached tier (the latest tone/multiplier wins)
+ */
+export function getAffectionStatus(player: any, characterId: string): AffectionStatus & { mediaUnlockLevel: number } {
+  const tiers = getAffectionTiers(characterId);
+  const points = getAffectionPoints(player, characterId);
+  const reached = getReachedTiers(tiers, points);
+  const current = reached[reached.length - 1];
+  const next = tiers.find(tier => tier.points > points);
+
+  let tapMultiplier = 1;
+  let chatTone: string | null = null;
+  let mediaUnlockLevel = 0;
+  for (const tier of reached) {
+    if (tier.tapMultiplier) tapMultiplier = tier.tapMultiplier;
+    if (tier.chatTone) chatTone = tier.chatTone;
+    if (tier.mediaUnlockLevel) mediaUnlockLevel = Math.max(mediaUnlockLevel, tier.mediaUnlockLevel);
+  }
+
+  return {
+    characterId,
+    points: Math.floor(points),
+    level: current?.level || 0,
+    tierName: current?.name || (current ? `Level ${current.level}` : 'Stranger'),
+    tierPoints: current?.points || 0,
+    nextTierPoints: next ? next.points : null,
+    tapMultiplier,
+    chatTone,
+    mediaUnlockLevel
+  };
+}
+
+/**
+ * Adds affection for one character. Returns the state updates (affection map plus any images the
+ * newly reached tiers unlock) and the tiers that were reached.
+ */
+export function applyAffectionGain(player: any, characterId: string | null | undefined, points: number) {
+  if (!characterId || !(points > 0)) return { updates: {}, reachedTiers: [] as AffectionTier[] };
+
+  const before = getAffectionPoints(player, characterId);
+  const after = Math.round((before + points) * 100) / 100;
+  const tiers = getAffectionTiers(characterId);
+  const reachedTiers = tiers.filter(tier => tier.points > before && tier.points <= after);
+
+  const updates: Record<string, any> = {
+    characterAffection: { ...(player.characterAffection || {}), [characterId]: after }
+  };
+  const images = reachedTiers.flatMap(tier => tier.unlockImages || []);
+  if (images.length > 0) {
+    const unlocked: string[] = player.unlockedImages || [];
+    updates.unlockedImages = [...unlocked, ...images.filter(id => !unlocked.includes(id))];
+  }
+  return { updates, reachedTiers };
+}
+
+/**
+ * Affection for one chat message. Messages inside the player's cooldown don't count at all (no affection,
+ * no task progress); counted messages earn up to MAX_CHAT_POINTS_PER_DAY per character per day
+ * (`chatAffectionToday`, cleared by the daily reset).
+ */
+export function applyChatAffection(player: any, characterId: string, now: number = Date.now()) {
+  const lastChatAt = player.lastChatAt ? new Date(player.lastChatAt).getTime() : 0;
+  if (now - lastChatAt < AFFECTION_CONFIG.CHAT_COOLDOWN_SECONDS * 1000) {
+    return { counted: false, points: 0, updates: {}, reachedTiers: [] as AffectionTier[] };
+  }
+
+  const earnedToday = Number(player.chatAffectionToday?.[characterId]) || 0;
+  const points = Math.max(0, Math.min(AFFECTION_CONFIG.POINTS_PER_CHAT_MESSAGE, AFFECTION_CONFIG.MAX_CHAT_POINTS_PER_DAY - earnedToday));
+  const { updates, reachedTiers } = applyAffectionGain(player, characterId, points);
+  return {
+    counted: true,
+    points,
+    updates: {
+      ...updates,
+      lastChatAt: new Date(now).toISOString(),
+      chatAffectionToday: { ...(player.chatAffectionToday || {}), [characterId]: earnedToday + points }
+    },
+    reachedTiers
+  };
+}
+
+console.log(`✅ [AFFECTION] Character affection loaded (${AFFECTION_CONFIG.POINTS_PER_TAP}/tap, ${AFFECTION_CONFIG.POINTS_PER_CHAT_MESSAGE}/chat message, max ${AFFECTION_CONFIG.MAX_CHAT_POINTS_PER_DAY}/day)`);
@@ -0,0 +1,50 @@
+/**
+ * 🌙 AI Provider Health / Circuit Breakers
+ * Shared by the LunaBug debug cascade and character chat so a provider that is failing
+ * for one feature is skipped by the other until the breaker cools down.
+ */
+
+export type AIProviderName = 'mistral' | 'perplexity';
+
+interface ProviderHealth {
+  failures: number;
+  lastFailure: number;
+  circuitOpen: boolean;
+}
+
+export const CIRCUIT_BREAKER_THRESHOLD = 3;
+export const CIRCUIT_BREAKER_TIMEOUT = 60000; // 1 minute
+
+export const providerHealth: Record<AIProviderName, ProviderHealth> = {
+  mistral: { failures: 0, lastFailure: 0, circuitOpen: false },
+  perplexity: { failures: 0, lastFailure: 0, circuitOpen: false }
+};
+
+/**
+ * Returns true if the provider may be called. Closes the breaker again once the timeout has passed.
+ */
+export function checkCircuitBreaker(provider: AIProviderName): boolean {
+  const health = providerHealth[provider];
+  if (health.circuitOpen && Date.now() - health.lastFailure > CIRCUIT_BREAKER_TIMEOUT) {
+    health.circuitOpen = false;
+    health.failures = 0;
+    console.log(`🌙 [${provider}] Circuit breaker reset`);
+  }
+  return !health.circuitOpen;
+}
+
+export function recordFailure(provider: AIProviderName, _error?: unknown): void {
+  const health = providerHealth[provider];
+  health.failures++;
+  health.lastFailure = Date.now();
+
+  if (health.failures >= CIRCUIT_BREAKER_THRESHOLD) {
+    health.circuitOpen = true;
+    console.log(`🌙 [${provider}] Circuit breaker OPEN after ${health.failures} failures`);
+  }
+}
+
+export function recordSuccess(provider: AIProviderName): void {
+  const health = providerHealth[provider];
+  health.failures = Math.max(0, health.failures - 1);
+}
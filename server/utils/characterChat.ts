@@ -0,0 +1,322 @@
+/**
+ * 💬 Character Chat
+ * Builds a persona system prompt from a CharacterConfig, keeps a short per-player/per-character
+ * history next to the player's save, and streams replies from a pluggable provider.
+ * AI_CHAT_PROVIDER=cascade (default) tries Mistral → Perplexity → mock; AI_CHAT_PROVIDER=mock stays offline.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { CharacterConfig } from '@shared/gameConfig';
+import { checkCircuitBreaker, recordFailure, recordSuccess, type AIProviderName } from './aiProviderHealth';
+import { playerStateManager } from './playerStateManager';
+import fileLock from './fileLock';
+import { recordChatImageSend, type ChatImage } from './chatMedia';
+import { hashString } from './seededRandom';
+
+export const CHAT_CONFIG = {
+  PROVIDER: (process.env.AI_CHAT_PROVIDER || 'cascade').toLowerCase(),
+  HISTORY_LIMIT: parseInt(process.env.AI_CHAT_HISTORY_LIMIT || '40', 10), // messages kept per character
+  PROMPT_HISTORY: 12, // most recent messages sent to the model
+  MAX_MESSAGE_LENGTH: 500,
+  REQUEST_TIMEOUT_MS: 15000,
+  // Per player - every message can reach the paid providers
+  MAX_MESSAGES_PER_MINUTE: parseInt(process.env.AI_CHAT_MAX_MESSAGES_PER_MINUTE || '10', 10),
+  MOCK_TOKEN_DELAY_MS: parseInt(process.env.AI_CHAT_MOCK_DELAY_MS || '20', 10)
+} as const;
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  image?: { id: string; url: string };
+}
+
+export interface ChatPromptMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatStreamContext {
+  character: CharacterConfig;
+  signal: AbortSignal;
+  onToken: (token: string) => void;
+}
+
+export interface ChatProvider {
+  name: string;
+  isAvailable(): boolean;
+  /** Streams the reply through ctx.onToken and resolves with the full text */
+  stream(messages: ChatPromptMessage[], ctx: ChatStreamContext): Promise<string>;
+}
+
+const RARITY_FLAVOR: Record<string, string> = {
+  common: 'warm and approachable',
+  rare: 'confident and a little teasing',
+  epic: 'dramatic and captivating',
+  legendary: 'regal, mysterious and hard to impress'
+};
+
+// `tone` comes from the player's affection tier with the character
+export function buildSystemPrompt(character: CharacterConfig, tone: string | null = null): string {
+  const flavor = RARITY_FLAVOR[character.rarity] || RARITY_FLAVOR.common;
+  return [
+    `You are ${character.name}, a character in the game ClassikLust, chatting with the player.`,
+    character.description ? `About you: ${character.description}.` : '',
+    `Your personality is ${flavor}.`,
+    tone ? `Towards this player you are ${tone}.` : '',
+    'Stay in character, never mention being an AI or a language model, and keep replies to one to three short sentences.'
+  ].filter(Boolean).join(' ');
+}
+
+// ---------------------------------------------------------------------------
+// History (main-gamedata/player-data/<player>/chat-history.json, keyed by character id)
+// ---------------------------------------------------------------------------
+
+async function getHistoryPath(player: any): Promise<string> {
+  return path.join(await playerStateManager.getPlayerDirectory(player), 'chat-history.json');
+}
+
+async function readHistoryFile(filePath: string): Promise<Record<string, ChatHistoryMessage[]>> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function getChatHistory(player: any, characterId: string): Promise<ChatHistoryMessage[]> {
+  const all = await readHistoryFile(await getHistoryPath(player));
+  return Array.isArray(all[characterId]) ? all[characterId] : [];
+}
+
+export async function appendChatHistory(player: any, characterId: string, messages: ChatHistoryMessage[]): Promise<void> {
+  const filePath = await getHistoryPath(player);
+  await fileLock.withLock(filePath, async () => {
+    const all = await readHistoryFile(filePath);
+    const existing = Array.isArray(all[characterId]) ? all[characterId] : [];
+    all[characterId] = [...existing, ...messages].slice(-CHAT_CONFIG.HISTORY_LIMIT);
+    await fs.writeFile(filePath, JSON.stringify(all, null, 2));
+  });
+}
+
+export async function clearChatHistory(player: any, characterId?: string): Promise<void> {
+  const filePath = await getHistoryPath(player);
+  await fileLock.withLock(filePath, async () => {
+    const all = characterId ? await readHistoryFile(filePath) : {};
+    if (characterId) delete all[characterId];
+    await fs.writeFile(filePath, JSON.stringify(all, null, 2));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+interface RemoteProviderOptions {
+  name: AIProviderName;
+  url: string;
+  apiKeyEnv: string;
+  model: string;
+}
+
+/**
+ * OpenAI-compatible streaming provider (Mistral and Perplexity share the SSE format).
+ * Failures feed the shared circuit breaker so the LunaBug cascade sees them too.
+ */
+function createRemoteProvider(options: RemoteProviderOptions): ChatProvider {
+  return {
+    name: options.name,
+    isAvailable: () => !!process.env[options.apiKeyEnv] && checkCircuitBreaker(options.name),
+    async stream(messages, ctx) {
+      const signal = AbortSignal.any([ctx.signal, AbortSignal.timeout(CHAT_CONFIG.REQUEST_TIMEOUT_MS)]);
+      let text = '';
+      try {
+        const response = await fetch(options.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${process.env[options.apiKeyEnv]}`
+          },
+          body: JSON.stringify({ model: options.model, messages, max_tokens: 300, temperature: 0.8, stream: true }),
+          signal
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            const payload = line.trim();
+            if (!payload.startsWith('data:')) continue;
+            const data = payload.slice(5).trim();
+            if (data === '[DONE]') continue;
+            const token = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (token) {
+              text += token;
+              ctx.onToken(token);
+            }
+          }
+        }
+        recordSuccess(options.name);
+        return text;
+      } catch (err: any) {
+        // A player closing the chat is not a provider failure
+        if (!ctx.signal.aborted) recordFailure(options.name, err);
+        if (text) return text; // keep what was already streamed
+        throw err;
+      }
+    }
+  };
+}
+
+const MOCK_OPENERS = [
+  'Mm, you always know what to say.',
+  'Oh? Tell me more.',
+  'You are full of surprises today.',
+  'Ha! I was just thinking about you.',
+  'Careful, I might start to like you.'
+];
+
+const MOCK_FOLLOW_UPS = [
+  'What made you think of that?',
+  'Stay a little longer and keep me company.',
+  'I want to hear everything.',
+  'You should tap a little harder for me later.',
+  'Do you talk like this to everyone?'
+];
+
+/**
+ * Offline provider: the reply depends only on the character, the message and the conversation length,
+ * so the same exchange always produces the same text.
+ */
+export const mockChatProvider: ChatProvider = {
+  name: 'mock',
+  isAvailable: () => true,
+  async stream(messages, ctx) {
+    const userMessages = messages.filter(m => m.role === 'user');
+    const lastMessage = userMessages[userMessages.length - 1]?.content || '';
+    const seed = hashString(`${ctx.character.id}:${userMessages.length}:${lastMessage}`);
+    const topic = lastMessage.length > 40 ? `${lastMessage.slice(0, 40).trim()}…` : lastMessage;
+    const reply = `${MOCK_OPENERS[seed % MOCK_OPENERS.length]} "${topic}", huh? ` +
+      `${MOCK_FOLLOW_UPS[Math.floor(seed / MOCK_OPENERS.length) % MOCK_FOLLOW_UPS.length]} — ${ctx.character.name}`;
+
+    let text = '';
+    for (const token of reply.match(/\S+\s*/g) || []) {
+      if (ctx.signal.aborted) break;
+      text += token;
+      ctx.onToken(token);
+      if (CHAT_CONFIG.MOCK_TOKEN_DELAY_MS > 0) {
+        await new Promise(resolve => setTimeout(resolve, CHAT_CONFIG.MOCK_TOKEN_DELAY_MS));
+      }
+    }
+    return text;
+  }
+};
+
+const mistralProvider = createRemoteProvider({
+  name: 'mistral',
+  url: 'https://api.mistral.ai/v1/chat/completions',
+  apiKeyEnv: 'MISTRAL_API_KEY',
+  model: 'open-mistral-7b'
+});
+
+const perplexityProvider = createRemoteProvider({
+  name: 'perplexity',
+  url: 'https://api.perplexity.ai/chat/completions',
+  apiKeyEnv: 'PERPLEXITY_API_KEY',
+  model: 'llama-3.1-sonar-small-128k-online'
+});
+
+// 🚦 Player id -> whether a reply is streaming, and when their recent messages were sent
+const activeReplies = new Set<string>();
+const recentMessages = new Map<string, number[]>();
+
+/**
+ * Claims the player's reply slot: one reply at a time and at most MAX_MESSAGES_PER_MINUTE a minute.
+ * Returns why not (and when to retry), or null - then releaseChatSlot must follow once the reply ends.
+ */
+export function acquireChatSlot(playerId: string, now: number = Date.now()): { error: string; retryAfterSeconds: number } | null {
+  if (activeReplies.has(playerId)) return { error: 'Wait for the current reply to finish', retryAfterSeconds: 1 };
+
+  const recent = (recentMessages.get(playerId) || []).filter(sentAt => sentAt > now - 60 * 1000);
+  if (recent.length >= CHAT_CONFIG.MAX_MESSAGES_PER_MINUTE) {
+    recentMessages.set(playerId, recent);
+    return { error: 'Too many messages, slow down a little', retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + 60 * 1000 - now) / 1000)) };
+  }
+  recentMessages.set(playerId, [...recent, now]);
+  activeReplies.add(playerId);
+  return null;
+}
+
+export function releaseChatSlot(playerId: string): void {
+  activeReplies.delete(playerId);
+}
+
+function getProviderChain(): ChatProvider[] {
+  if (CHAT_CONFIG.PROVIDER === 'mock') return [mockChatProvider];
+  return [mistralProvider, perplexityProvider, mockChatProvider];
+}
+
+export interface ChatReplyResult {
+  provider: string;
+  reply: string;
+  fallbackCount: number;
+  image: ChatImage | null;
+}
+
+/**
+ * Streams a character reply to `onToken`, records both sides of the exchange and returns the result.
+ * A provider that fails before producing any text is skipped; the mock provider always answers.
+ * `image` (picked up front so the route can announce it in a header) is only recorded once the reply succeeds.
+ */
+export async function streamCharacterReply(
+  player: any,
+  character: CharacterConfig,
+  message: string,
+  onToken: (token: string) => void,
+  signal: AbortSignal,
+  image: ChatImage | null = null,
+  tone: string | null = null
+): Promise<ChatReplyResult> {
+  const history = await getChatHistory(player, character.id);
+  const prompt: ChatPromptMessage[] = [
+    { role: 'system', content: buildSystemPrompt(character, tone) },
+    ...history.slice(-CHAT_CONFIG.PROMPT_HISTORY).map(m => ({ role: m.role, content: m.content })),
+    { role: 'user', content: message }
+  ];
+  const userEntry: ChatHistoryMessage = { role: 'user', content: message, timestamp: new Date().toISOString() };
+
+  let fallbackCount = 0;
+  for (const provider of getProviderChain()) {
+    if (!provider.isAvailable()) continue;
+    try {
+      const reply = await provider.stream(prompt, { character, signal, onToken });
+      if (!reply) throw new Error('Empty response');
+
+      const assistantEntry: ChatHistoryMessage = { role: 'assistant', content: reply, timestamp: new Date().toISOString() };
+      if (image) {
+        assistantEntry.image = { id: image.id, url: image.url };
+        await recordChatImageSend(player, character.id, image.id);
+      }
+      await appendChatHistory(player, character.id, [userEntry, assistantEntry]);
+      return { provider: provider.name, reply, fallbackCount, image };
+    } catch (err: any) {
+      if (signal.aborted) throw err;
+      fallbackCount++;
+      console.log(`💬 ⚠️ [CHAT] ${provider.name} failed (${err.message}), trying next provider...`);
+    }
+  }
+  throw new Error('No chat provider available');
+}
+
+console.log(`✅ [CHAT] Character chat loaded (provider=${CHAT_CONFIG.PROVIDER})`);
@@ -0,0 +1,105 @@
+/**
+ * 🖼️ Chat Image Sends
+ * Lets a character attach one of her chat-enabled images to a chat reply. Eligible images belong to the
+ * character, pass the same access check as the gallery and have chatEnable + chatSendPercent set by the uploader.
+ * Sends are logged per player so the same picture is held back until a few others have been shown.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { playerStateManager } from './playerStateManager';
+import fileLock from './fileLock';
+import { toMediaRules, checkMediaAccess } from './mediaAccess';
+import { getImageMetadata, listCharacterMediaFiles } from './mediaRepository';
+
+export const CHAT_MEDIA_CONFIG = {
+  REPEAT_WINDOW: parseInt(process.env.CHAT_IMAGE_REPEAT_WINDOW || '5', 10), // recent sends excluded from the pool
+  LOG_LIMIT: 50 // sends remembered per character
+} as const;
+
+export interface ChatImage {
+  id: string;
+  url: string;
+  unlockLevel: number;
+  chatSendPercent: number;
+}
+
+interface ChatImageSend {
+  imageId: string;
+  sentAt: string;
+}
+
+/**
+ * Chat-enabled images of a character that the player may view (level, unlocks, VIP, NSFW opt-in)
+ */
+export async function getChatImagesForCharacter(characterId: string, playerState: any): Promise<ChatImage[]> {
+  const charFolder = characterId.toLowerCase();
+  const files = await listCharacterMediaFiles(characterId);
+
+  const images: ChatImage[] = [];
+  for (const [filename, url] of Array.from(files.entries())) {
+    const meta = await getImageMetadata(url);
+    if (meta.characterId !== charFolder || !meta.chatEnable || meta.isHidden || meta.chatSendPercent <= 0) continue;
+    if (!checkMediaAccess(playerState, toMediaRules(url, meta)).allowed) continue;
+    images.push({ id: filename, url, unlockLevel: meta.unlockLevel, chatSendPercent: meta.chatSendPercent });
+  }
+  return images;
+}
+
+async function getSendLogPath(player: any): Promise<string> {
+  return path.join(await playerStateManager.getPlayerDirectory(player), 'chat-media.json');
+}
+
+async function readSendLog(filePath: string): Promise<Record<string, ChatImageSend[]>> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function recordChatImageSend(player: any, characterId: string, imageId: string): Promise<void> {
+  const filePath = await getSendLogPath(player);
+  await fileLock.withLock(filePath, async () => {
+    const log = await readSendLog(filePath);
+    const sends = Array.isArray(log[characterId]) ? log[characterId] : [];
+    log[characterId] = [...sends, { imageId, sentAt: new Date().toISOString() }].slice(-CHAT_MEDIA_CONFIG.LOG_LIMIT);
+    await fs.writeFile(filePath, JSON.stringify(log, null, 2));
+  });
+}
+
+/**
+ * Rolls whether this reply carries an image and, if so, which one. The send chance is the highest
+ * chatSendPercent among the fresh images; the pick is weighted by each image's chatSendPercent.
+ * Does not record the send - call recordChatImageSend once the reply has actually been delivered.
+ */
+export async function pickChatImage(
+  player: any,
+  characterId: string,
+  playerState: any,
+  random: () => number = Math.random
+): Promise<ChatImage | null> {
+  const images = await getChatImagesForCharacter(characterId, playerState);
+  if (images.length === 0) return null;
+
+  const log = await readSendLog(await getSendLogPath(player));
+  const sends = Array.isArray(log[characterId]) ? log[characterId] : [];
+  // Never exclude the whole pool - with a single image it can still be sent again
+  const windowSize = Math.min(CHAT_MEDIA_CONFIG.REPEAT_WINDOW, images.length - 1);
+  const recent = new Set(windowSize > 0 ? sends.slice(-windowSize).map(s => s.imageId) : []);
+  const pool = images.filter(img => !recent.has(img.id));
+
+  const sendChance = Math.max(...pool.map(img => img.chatSendPercent)) / 100;
+  if (random() >= sendChance) return null;
+
+  const totalWeight = pool.reduce((sum, img) => sum + img.chatSendPercent, 0);
+  let roll = random() * totalWeight;
+  for (const img of pool) {
+    roll -= img.chatSendPercent;
+    if (roll < 0) return img;
+  }
+  return pool[pool.length - 1];
+}
+
+console.log(`✅ [CHAT MEDIA] Chat image sends loaded (repeat window ${CHAT_MEDIA_CONFIG.REPEAT_WINDOW})`);
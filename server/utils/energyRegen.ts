@@ -0,0 +1,45 @@
+/**
+ * ⚡ Server-side Energy Regeneration
+ * Energy is stored as (energy, lastEnergyUpdate) and regenerates at energyRegenRate per second
+ * up to energyMax. Materializing is a pure function of that pair, so it is safe to apply on
+ * every read and persist with whatever write comes next.
+ */
+
+function toTime(value: any): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Brings `data.energy` up to date (mutated). Returns the amount regenerated.
+ * Partial energy carries over by only advancing lastEnergyUpdate for the whole points granted.
+ */
+export function materializeEnergy(data: any, now: number = Date.now()): number {
+  const energyMax = data.energyMax || 0;
+  const rate = data.energyRegenRate || 0;
+  const energy = Math.max(0, data.energy || 0);
+  const last = toTime(data.lastEnergyUpdate);
+
+  if (last === null || last > now || energy >= energyMax || rate <= 0) {
+    data.energy = Math.min(energy, energyMax);
+    data.lastEnergyUpdate = new Date(now).toISOString();
+    return 0;
+  }
+
+  const elapsedSeconds = (now - last) / 1000;
+  const gained = Math.floor(elapsedSeconds * rate);
+  if (gained <= 0) return 0;
+
+  if (energy + gained >= energyMax) {
+    data.energy = energyMax;
+    data.lastEnergyUpdate = new Date(now).toISOString();
+    return energyMax - energy;
+  }
+
+  data.energy = energy + gained;
+  data.lastEnergyUpdate = new Date(last + Math.round((gained / rate) * 1000)).toISOString();
+  return gained;
+}
+
+console.log('✅ [ENERGY REGEN] Server-side energy regeneration loaded');
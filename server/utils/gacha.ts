@@ -0,0 +1,259 @@
+/**
+ * 🎰 Gacha Banners
+ * Summon banners (progressive-data/banners) sell pulls for lustGems. Every banner is turned into one
+ * odds table that is both published by the odds endpoint and used for rolling, so nothing that is not
+ * listed there can ever come out. Each pull is rolled from a seed of player, banner and pull number,
+ * counts towards the banner's pity, converts duplicates into gems and is appended to the player's
+ * gacha-history.json so any result can be replayed and audited.
+ */
+
+import fs from 'fs/promises';
+import fsSync from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import fileLock from './fileLock';
+import { getCharacterFromMemory } from './unifiedDataLoader';
+import { createSeededRandom, hashString } from './seededRandom';
+import { isTaskInWindow } from './taskPools';
+import { resolveRewards } from './rewardResolver';
+import { playerStateManager } from './playerStateManager';
+import type { RewardSpec } from '@shared/rewards';
+import type { GachaOdds, GachaOddsEntry, GachaPullRecord, Rarity } from '@shared/gameConfig';
+
+const SEED_SECRET_FILE = path.join(process.cwd(), 'main-gamedata', '.gacha-seed-secret');
+
+/**
+ * Without a secret, anyone who knows the seed format can predict their next pull. GACHA_SEED_SECRET wins;
+ * otherwise one is generated once and kept on disk, since changing it would make older pulls unreplayable.
+ */
+function loadSeedSecret(): string {
+  if (process.env.GACHA_SEED_SECRET) return process.env.GACHA_SEED_SECRET;
+  try {
+    const stored = fsSync.readFileSync(SEED_SECRET_FILE, 'utf8').trim();
+    if (stored) return stored;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw new Error(`Could not read ${SEED_SECRET_FILE}: ${error.message}`);
+  }
+  const secret = crypto.randomBytes(32).toString('hex');
+  fsSync.mkdirSync(path.dirname(SEED_SECRET_FILE), { recursive: true });
+  fsSync.writeFileSync(SEED_SECRET_FILE, secret, { encoding: 'utf8', mode: 0o600 });
+  console.log(`🔑 [GACHA] Generated a seed secret in ${SEED_SECRET_FILE}`);
+  return secret;
+}
+
+export const GACHA_CONFIG = {
+  SEED_SECRET: loadSeedSecret(),
+  MAX_PULLS_PER_REQUEST: 10,
+  HISTORY_PAGE_SIZE: parseInt(process.env.GACHA_HISTORY_PAGE_SIZE || '50', 10),
+  DEFAULT_DUPLICATE_GEMS: { common: 1, rare: 3, epic: 10, legendary: 25 } as Record<Rarity, number>
+} as const;
+
+export const RARITY_ORDER: Rarity[] = ['common', 'rare', 'epic', 'legendary'];
+
+export interface BannerPityStatus {
+  pulls: number;
+  pity: number;
+  pullsUntilPity: number | null;
+}
+
+function toRarity(value: any): Rarity | null {
+  const rarity = String(value || '').toLowerCase() as Rarity;
+  return RARITY_ORDER.includes(rarity) ? rarity : null;
+}
+
+export function isBannerOpen(banner: any, now: number = Date.now()): boolean {
+  return !!banner?.id && banner.isActive !== false && isTaskInWindow(banner, now);
+}
+
+// What players may see and pull: the banner list, the odds and the pull route all go by this
+export function isBannerPublic(banner: any, now: number = Date.now()): boolean {
+  return isBannerOpen(banner, now) && !banner.isHidden;
+}
+
+// Pool entries that point at unknown characters, have no usable rarity or no weight are left out
+function resolvePool(banner: any): { entry: Omit<GachaOddsEntry, 'probability'>; weight: number }[] {
+  const resolved: { entry: Omit<GachaOddsEntry, 'probability'>; weight: number }[] = [];
+  for (const item of Array.isArray(banner?.pool) ? banner.pool : []) {
+    const weight = item?.weight === undefined ? 1 : Number(item.weight);
+    if (!item?.id || !(weight > 0)) continue;
+
+    if (item.type === 'character') {
+      const character = getCharacterFromMemory(item.id);
+      const rarity = toRarity(item.rarity) || toRarity(character?.rarity) || 'common';
+      if (character) resolved.push({ entry: { type: 'character', id: character.id, name: item.name || character.name, rarity }, weight });
+    } else if (item.type === 'image') {
+      const rarity = toRarity(item.rarity) || 'common';
+      resolved.push({ entry: { type: 'image', id: String(item.id), name: item.name || String(item.id), rarity }, weight });
+    }
+  }
+  return resolved;
+}
+
+function buildTable(pool: ReturnType<typeof resolvePool>, rarityWeights: Record<string, number>, allowed: Rarity[]) {
+  const rarities = allowed.filter(rarity => (Number(rarityWeights?.[rarity]) || 0) > 0 && pool.some(p => p.entry.rarity === rarity));
+  const rarityTotal = rarities.reduce((sum, rarity) => sum + Number(rarityWeights[rarity]), 0);
+
+  const entries: GachaOddsEntry[] = [];
+  const rarityOdds = rarities.map(rarity => {
+    const probability = Number(rarityWeights[rarity]) / rarityTotal;
+    const items = pool.filter(p => p.entry.rarity === rarity);
+    const itemTotal = items.reduce((sum, p) => sum + p.weight, 0);
+    for (const item of items) entries.push({ ...item.entry, probability: probability * item.weight / itemTotal });
+    return { rarity, probability };
+  });
+  return { rarities: rarityOdds, entries };
+}
+
+/**
+ * The odds tables of a banner. Entries are in rarity order and pool order, which is also the order
+ * rolls walk through, so the table fully describes how a roll value maps to an outcome.
+ */
+export function getBannerOdds(banner: any): GachaOdds {
+  const pool = resolvePool(banner);
+  const main = buildTable(pool, banner.rarityWeights || {}, RARITY_ORDER);
+
+  let pity: GachaOdds['pity'] = null;
+  const pityRarity = toRarity(banner.pity?.rarity);
+  const pityPulls = Math.floor(Number(banner.pity?.pulls) || 0);
+  if (pityRarity && pityPulls > 0) {
+    const guaranteed = buildTable(pool, banner.rarityWeights || {}, RARITY_ORDER.slice(RARITY_ORDER.indexOf(pityRarity)));
+    if (guaranteed.entries.length > 0) pity = { rarity: pityRarity, pulls: pityPulls, entries: guaranteed.entries };
+  }
+
+  const version = hashString(JSON.stringify({ main, pity })).toString(16);
+  return { bannerId: banner.id, version, rarities: main.rarities, entries: main.entries, pity };
+}
+
+function pickEntry(entries: GachaOddsEntry[], roll: number): GachaOddsEntry {
+  let cumulative = 0;
+  for (const entry of entries) {
+    cumulative += entry.probability;
+    if (roll < cumulative) return entry;
+  }
+  // Floating point sums can end a hair below 1
+  return entries[entries.length - 1];
+}
+
+/**
+ * The roll value of one pull. Deterministic so a pull can be replayed from its history record.
+ */
+export function getPullRoll(playerId: string, bannerId: string, pullIndex: number): number {
+  return createSeededRandom(`${GACHA_CONFIG.SEED_SECRET}:${playerId}:${bannerId}:${pullIndex}`)();
+}
+
+function isOwned(state: any, entry: GachaOddsEntry): boolean {
+  if (entry.type === 'image') return (state.unlockedImages || []).includes(entry.id);
+  if ((state.unlockedCharacters || []).includes(entry.id)) return true;
+  const unlockLevel = getCharacterFromMemory(entry.id)?.unlockLevel || 1;
+  return (state.level || 1) >= unlockLevel;
+}
+
+export function getBannerPityStatus(player: any, banner: any, odds: GachaOdds = getBannerOdds(banner)): BannerPityStatus {
+  const counters = player?.gachaBanners?.[banner.id] || {};
+  const pity = counters.pity || 0;
+  return { pulls: counters.pulls || 0, pity, pullsUntilPity: odds.pity ? Math.max(1, odds.pity.pulls - pity) : null };
+}
+
+async function getHistoryFilePath(player: any): Promise<string> {
+  return path.join(await playerStateManager.getPlayerDirectory(player), 'gacha-history.json');
+}
+
+async function readHistoryFile(filePath: string): Promise<GachaPullRecord[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Newest pulls first, optionally for one banner
+ */
+export async function getPullHistory(player: any, options: { bannerId?: string; limit?: number } = {}): Promise<GachaPullRecord[]> {
+  const history = await readHistoryFile(await getHistoryFilePath(player));
+  const limit = Math.min(Math.max(1, options.limit || GACHA_CONFIG.HISTORY_PAGE_SIZE), 500);
+  return history
+    .filter(record => !options.bannerId || record.bannerId === options.bannerId)
+    .reverse()
+    .slice(0, limit);
+}
+
+/**
+ * Spends gems on `count` pulls and grants the results in one state write, then records every pull.
+ * Pulls of one player are serialized on the history file and roll inside the player's lock, so two
+ * requests can never roll the same pull index or write history that differs from what was charged.
+ * Callers are expected to check that the banner is open.
+ */
+export async function pullBannerForPlayer(player: any, banner: any, count: number) {
+  const odds = getBannerOdds(banner);
+  if (odds.entries.length === 0) throw new Error('Banner has nothing to pull');
+
+  const cost = Math.round((banner.cost || 0) * count);
+  const filePath = await getHistoryFilePath(player);
+  const { player: updated, result: records } = await fileLock.withLock(filePath, async () => {
+    const pulled = await playerStateManager.mutatePlayer(player, (current) => {
+      if ((current.lustGems || 0) < cost) throw new Error('Insufficient Lust Gems');
+
+      const counters = { pulls: 0, pity: 0, ...(current.gachaBanners?.[banner.id] || {}) };
+      const pulledAt = new Date().toISOString();
+      let working: any = { ...current, lustGems: Math.round((current.lustGems || 0) - cost) };
+      const records: GachaPullRecord[] = [];
+
+      for (let i = 0; i < count; i++) {
+        const pullIndex = counters.pulls + 1;
+        const pityTriggered = !!odds.pity && counters.pity + 1 >= odds.pity.pulls;
+        const roll = getPullRoll(current.id || player.id, banner.id, pullIndex);
+        const entry = pickEntry(pityTriggered ? odds.pity!.entries : odds.entries, roll);
+
+        const duplicate = isOwned(working, entry);
+        const gemsRefunded = duplicate ? Math.round(banner.duplicateGems?.[entry.rarity] ?? GACHA_CONFIG.DEFAULT_DUPLICATE_GEMS[entry.rarity]) : 0;
+        const spec: RewardSpec = duplicate
+          ? { type: 'lg', amount: gemsRefunded }
+          : entry.type === 'character' ? { type: 'character', characterId: entry.id } : { type: 'image', imageId: entry.id };
+        working = { ...working, ...resolveRewards(working, spec).updates };
+
+        const hitPity = !!odds.pity && RARITY_ORDER.indexOf(entry.rarity) >= RARITY_ORDER.indexOf(odds.pity.rarity);
+        counters.pulls = pullIndex;
+        counters.pity = hitPity ? 0 : counters.pity + 1;
+
+        records.push({
+          id: `${banner.id}-${pullIndex}`,
+          bannerId: banner.id,
+          pullIndex,
+          oddsVersion: odds.version,
+          roll,
+          pityTriggered,
+          type: entry.type,
+          itemId: entry.id,
+          name: entry.name,
+          rarity: entry.rarity,
+          duplicate,
+          gemsRefunded,
+          cost: Math.round(banner.cost || 0),
+          pulledAt
+        });
+      }
+
+      return {
+        updates: {
+          lustGems: working.lustGems,
+          unlockedCharacters: working.unlockedCharacters,
+          unlockedImages: working.unlockedImages,
+          gachaBanners: { ...(current.gachaBanners || {}), [banner.id]: counters }
+        },
+        result: records
+      };
+    });
+
+    // Only pulls that were charged are recorded
+    const history = await readHistoryFile(filePath);
+    await fs.writeFile(filePath, JSON.stringify([...history, ...pulled.result], null, 2), 'utf8');
+    return pulled;
+  });
+
+  console.log(`🎰 [GACHA] ${player.username} pulled ${count}x on ${banner.id} (cost ${cost} LG): ${records.map(r => `${r.rarity} ${r.itemId}${r.duplicate ? ' (dupe)' : ''}`).join(', ')}`);
+  return { player: updated, pulls: records, status: getBannerPityStatus(updated, banner, odds), gemsSpent: cost };
+}
+
+console.log(`✅ [GACHA] Gacha banners loaded (max ${GACHA_CONFIG.MAX_PULLS_PER_REQUEST} pulls per request)`);
@@ -0,0 +1,47 @@
+/**
+ * 📣 Gameplay Event Bus
+ * Routes emit a typed event once a gameplay action has been applied; subscribers such as progress
+ * tracking react to it without the routes knowing about them. A failing subscriber is logged and
+ * never fails the request that emitted the event.
+ */
+
+export type GameEvent =
+  | { type: 'tap'; taps: number; lpEarned: number; crits: number; characterId: string | null }
+  | { type: 'upgradePurchased'; upgradeId: string; level: number; cost: number }
+  | { type: 'levelUp'; level: number }
+  | { type: 'characterSelected'; characterId: string }
+  | { type: 'chatMessage'; characterId: string; provider: string }
+  | { type: 'boostUsed'; boostId: string; cost: number };
+
+export type GameEventType = GameEvent['type'];
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+// `state` is the player state after the action, so subscribers don't need to reload it
+export type GameEventHandler<E extends GameEvent = GameEvent> = (player: any, event: E, state: any) => Promise<void> | void;
+
+const handlers = new Map<GameEventType | '*', GameEventHandler<any>[]>();
+
+export function onGameEvent<T extends GameEventType>(type: T, handler: GameEventHandler<GameEventOf<T>>) {
+  handlers.set(type, [...(handlers.get(type) || []), handler]);
+}
+
+export function onAnyGameEvent(handler: GameEventHandler) {
+  handlers.set('*', [...(handlers.get('*') || []), handler]);
+}
+
+/**
+ * Runs every subscriber for the event in registration order and waits for them, so data they write
+ * (e.g. progress rows) is visible to the client's next request.
+ */
+export async function emitGameEvent(player: any, event: GameEvent, state: any): Promise<void> {
+  const subscribers = [...(handlers.get(event.type) || []), ...(handlers.get('*') || [])];
+  for (const handler of subscribers) {
+    try {
+      await handler(player, event, state);
+    } catch (e: any) {
+      console.error(`📣 ❌ [GAME EVENTS] ${event.type} handler failed for ${player?.username || player?.id}:`, e.message);
+    }
+  }
+}
+
+console.log('✅ [GAME EVENTS] Gameplay event bus loaded');
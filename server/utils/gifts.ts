@@ -0,0 +1,117 @@
+/**
+ * 🎁 Gifts
+ * Gift items (progressive-data/gifts) are bought with lustGems into the player's `giftInventory`
+ * and later given to a character. A gift can add affection, start a timed tap multiplier for that
+ * character (`characterGiftBoosts`) and/or unlock one image.
+ */
+
+import { applyAffectionGain } from './affection';
+import type { AffectionTier, GiftEffectSummary } from '@shared/gameConfig';
+
+export const GIFT_CONFIG = {
+  MAX_PURCHASE_QUANTITY: Math.max(1, parseInt(process.env.GIFT_MAX_PURCHASE_QUANTITY || '99', 10) || 1)
+} as const;
+
+function hasTimedMultiplier(gift: any): boolean {
+  return (gift?.tapMultiplier || 1) > 1 && (gift?.durationMinutes || 0) > 0;
+}
+
+export function getGiftCount(player: any, giftId: string): number {
+  return Math.max(0, Number(player?.giftInventory?.[giftId]) || 0);
+}
+
+export function acceptsGift(gift: any, characterId: string): boolean {
+  return !Array.isArray(gift?.characterIds) || gift.characterIds.length === 0 || gift.characterIds.includes(characterId);
+}
+
+/**
+ * Tap multiplier from a gift given to the character, 1 once it has expired
+ */
+export function getCharacterGiftMultiplier(player: any, characterId: string | null | undefined, now: number = Date.now()): number {
+  const boost = characterId ? player?.characterGiftBoosts?.[characterId] : null;
+  if (!boost?.expiresAt) return 1;
+  return new Date(boost.expiresAt).getTime() > now ? (boost.multiplier || 1) : 1;
+}
+
+/**
+ * Whether a running gift multiplier on the character is stronger than the one this gift would start
+ */
+export function isBlockedByStrongerGift(player: any, gift: any, characterId: string, now: number = Date.now()): boolean {
+  return hasTimedMultiplier(gift) && getCharacterGiftMultiplier(player, characterId, now) > gift.tapMultiplier;
+}
+
+/**
+ * State updates for giving one gift to a character (inventory is handled by the caller).
+ * A gift with the same multiplier as the running one extends it instead of restarting it.
+ */
+export function getGiftEffectUpdates(player: any, gift: any, characterId: string, now: number = Date.now()) {
+  const summary: GiftEffectSummary = {
+    giftId: gift.id,
+    characterId,
+    affectionGained: 0,
+    tapMultiplier: null,
+    expiresAt: null,
+    imageUnlocked: null,
+    skipped: []
+  };
+  const updates: Record<string, any> = {};
+  let reachedTiers: AffectionTier[] = [];
+
+  if ((gift.affection || 0) > 0) {
+    const gain = applyAffectionGain(player, characterId, gift.affection);
+    Object.assign(updates, gain.updates);
+    reachedTiers = gain.reachedTiers;
+    summary.affectionGained = gift.affection;
+  }
+
+  if (hasTimedMultiplier(gift)) {
+    const running = getCharacterGiftMultiplier(player, characterId, now);
+    if (running > gift.tapMultiplier) {
+      summary.skipped.push(`A stronger gift multiplier (${running}x) is already running`);
+    } else {
+      const current = player.characterGiftBoosts?.[characterId];
+      const from = running === gift.tapMultiplier ? new Date(current.expiresAt).getTime() : now;
+      const expiresAt = new Date(from + gift.durationMinutes * 60 * 1000).toISOString();
+      updates.characterGiftBoosts = {
+        ...(player.characterGiftBoosts || {}),
+        [characterId]: { giftId: gift.id, multiplier: gift.tapMultiplier, expiresAt }
+      };
+      summary.tapMultiplier = gift.tapMultiplier;
+      summary.expiresAt = expiresAt;
+    }
+  }
+
+  if (gift.unlockImageId) {
+    const unlocked: string[] = updates.unlockedImages || player.unlockedImages || [];
+    if (unlocked.includes(gift.unlockImageId)) {
+      summary.skipped.push(`Image ${gift.unlockImageId} is already unlocked`);
+    } else {
+      updates.unlockedImages = [...unlocked, gift.unlockImageId];
+      summary.imageUnlocked = gift.unlockImageId;
+    }
+  }
+
+  return { updates, summary, reachedTiers };
+}
+
+/**
+ * Checks a gift definition before it is saved. Returns an error message or null.
+ */
+export function validateGiftConfig(gift: any): string | null {
+  if (!gift || typeof gift.id !== 'string' || !gift.id.trim()) return 'Valid gift ID is required';
+  if (typeof gift.cost !== 'number' || gift.cost < 0) return 'cost must be a non-negative number of lustGems';
+  if (gift.affection !== undefined && (typeof gift.affection !== 'number' || gift.affection < 0)) return 'affection must be a non-negative number';
+  if (gift.tapMultiplier !== undefined && (typeof gift.tapMultiplier !== 'number' || gift.tapMultiplier < 1)) return 'tapMultiplier must be a number >= 1';
+  if (gift.durationMinutes !== undefined && (typeof gift.durationMinutes !== 'number' || gift.durationMinutes < 0)) return 'durationMinutes must be a non-negative number';
+  if ((gift.tapMultiplier || 1) > 1 && !(gift.durationMinutes > 0)) return 'A tap multiplier needs a duration';
+  if (gift.unlockImageId !== undefined && gift.unlockImageId !== null && typeof gift.unlockImageId !== 'string') return 'unlockImageId must be a string';
+  if (gift.characterIds !== undefined && (!Array.isArray(gift.characterIds) || gift.characterIds.some((id: any) => typeof id !== 'string'))) {
+    return 'characterIds must be a list of character ids';
+  }
+  if (!(gift.affection > 0) && !hasTimedMultiplier(gift) && !gift.unlockImageId) {
+    return 'Gift needs an affection gain, a timed tap multiplier or an image unlock';
+  }
+  return null;
+}
+
+console.log(`✅ [GIFTS] Gifts loaded (max ${GIFT_CONFIG.MAX_PURCHASE_QUANTITY} per purchase)`);
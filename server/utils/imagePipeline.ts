@@ -0,0 +1,104 @@
+/**
+ * 🖼️ Image Pipeline
+ * Runs on every upload, in-process with sharp: reads the real dimensions, writes WebP thumbnails in a few
+ * widths plus a full-size WebP, and builds a tiny blurred data URI the client can show while those load.
+ * Variants live in a _variants folder next to the original (uploads/characters/<c>/<t>/_variants/<file>.<w>.webp)
+ * so they go through the same media gate and follow the original's access rules.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import type { ImageProcessing, ImageVariant } from '@shared/imageMetadata';
+
+export const IMAGE_PIPELINE_CONFIG = {
+  THUMBNAIL_WIDTHS: (process.env.IMAGE_THUMBNAIL_WIDTHS || '160,320,640')
+    .split(',')
+    .map(width => parseInt(width, 10))
+    .filter(width => width > 0)
+    .sort((a, b) => a - b),
+  WEBP_QUALITY: parseInt(process.env.IMAGE_WEBP_QUALITY || '80', 10),
+  // sharp's default (~268 MP) lets a 10 MB PNG decode to about a gigabyte of raw pixels
+  MAX_INPUT_PIXELS: parseInt(process.env.IMAGE_MAX_INPUT_PIXELS || '40000000', 10),
+  PLACEHOLDER_WIDTH: 16,
+  VARIANTS_DIR: '_variants'
+} as const;
+
+// <file>.webp for the full-size copy, <file>.<width>.webp for thumbnails
+const VARIANT_NAME_PATTERN = /^(.+?)(?:\.(\d+))?\.webp$/;
+
+function getVariantWebPath(webPath: string, width?: number): string {
+  const clean = webPath.split('?')[0];
+  const dir = path.posix.dirname(clean);
+  const filename = path.posix.basename(clean);
+  return `${dir}/${IMAGE_PIPELINE_CONFIG.VARIANTS_DIR}/${filename}${width ? `.${width}` : ''}.webp`;
+}
+
+/**
+ * The original /uploads path a variant was made from, or null if `webPath` is not a variant
+ */
+export function getVariantSourcePath(webPath: string): string | null {
+  const segments = webPath.split('?')[0].split('/');
+  if (segments.length < 3 || segments[segments.length - 2] !== IMAGE_PIPELINE_CONFIG.VARIANTS_DIR) return null;
+  const match = segments[segments.length - 1].match(VARIANT_NAME_PATTERN);
+  if (!match) return null;
+  return [...segments.slice(0, -2), match[1]].join('/');
+}
+
+/**
+ * Generates the variants and placeholder for an image on disk. `webPath` is its /uploads path and
+ * `filePath` where it lives; existing variants are overwritten.
+ */
+export async function processUploadedImage(filePath: string, webPath: string): Promise<Required<ImageProcessing>> {
+  // First frame of animated GIFs, EXIF orientation applied. Every variant is a clone that resizes straight
+  // from the file, so the full-size pixels are never held in memory at once.
+  const image = sharp(filePath, { animated: false, limitInputPixels: IMAGE_PIPELINE_CONFIG.MAX_INPUT_PIXELS }).rotate();
+  const { autoOrient: { width, height } } = await image.metadata();
+
+  const variantsDir = path.join(path.dirname(filePath), IMAGE_PIPELINE_CONFIG.VARIANTS_DIR);
+  await fs.mkdir(variantsDir, { recursive: true });
+
+  const variants: ImageVariant[] = [];
+  const widths = [...IMAGE_PIPELINE_CONFIG.THUMBNAIL_WIDTHS.filter(w => w < width), width];
+  for (const variantWidth of widths) {
+    const variantPath = getVariantWebPath(webPath, variantWidth === width ? undefined : variantWidth);
+    const output = await image.clone()
+      .resize({ width: variantWidth, withoutEnlargement: true })
+      .webp({ quality: IMAGE_PIPELINE_CONFIG.WEBP_QUALITY })
+      .toFile(path.join(variantsDir, path.posix.basename(variantPath)));
+    variants.push({ width: output.width, height: output.height, path: variantPath });
+  }
+
+  const placeholder = await image.clone()
+    .resize({ width: IMAGE_PIPELINE_CONFIG.PLACEHOLDER_WIDTH })
+    .blur(1)
+    .webp({ quality: 30 })
+    .toBuffer();
+
+  console.log(`🖼️ [PIPELINE] ${path.basename(filePath)}: ${width}x${height}, ${variants.length} WebP variants`);
+  return {
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+    variants
+  };
+}
+
+/**
+ * Removes every variant of an image (the original and its metadata are the caller's business)
+ */
+export async function deleteImageVariants(filePath: string): Promise<void> {
+  const variantsDir = path.join(path.dirname(filePath), IMAGE_PIPELINE_CONFIG.VARIANTS_DIR);
+  const filename = path.basename(filePath);
+  const entries = await fs.readdir(variantsDir).catch(() => [] as string[]);
+  for (const entry of entries) {
+    if (entry.match(VARIANT_NAME_PATTERN)?.[1] === filename) {
+      await fs.unlink(path.join(variantsDir, entry)).catch(() => {});
+    }
+  }
+  if (entries.length > 0 && (await fs.readdir(variantsDir).catch(() => [])).length === 0) {
+    await fs.rmdir(variantsDir).catch(() => {});
+  }
+}
+
+console.log(`✅ [PIPELINE] Image pipeline loaded (thumbnails ${IMAGE_PIPELINE_CONFIG.THUMBNAIL_WIDTHS.join('/')}px)`);
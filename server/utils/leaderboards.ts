@@ -0,0 +1,136 @@
+/**
+ * 🏆 Leaderboards
+ * Ranks players straight from the JSON player files (the primary store), so boards keep working
+ * without the database and can use JSON-only counters like lpEarnedThisWeek. Daily/weekly boards
+ * only count a counter that was reset inside the current window - idle players the reset sweep has
+ * not reached yet would otherwise keep yesterday's numbers. Admins and opted-out players are never ranked.
+ */
+
+import { playerStateManager } from './playerStateManager';
+import { getNextResetAt, getResetBoundary } from './resetScheduler';
+import type { LeaderboardEntry, LeaderboardId, LeaderboardResult } from '@shared/gameConfig';
+
+export const LEADERBOARD_CONFIG = {
+  SIZE: Math.max(1, parseInt(process.env.LEADERBOARD_SIZE || '50', 10) || 50),
+  CACHE_TTL_MS: parseInt(process.env.LEADERBOARD_CACHE_TTL_MS || '30000', 10)
+} as const;
+
+type LeaderboardWindow = LeaderboardResult['window'];
+
+// The few fields the boards need, so the cached snapshot stays small
+interface RankedPlayer {
+  playerId: string;
+  username: string;
+  level: number;
+  lpAllTime: number;
+  lpThisWeek: number;
+  tapsToday: number;
+  lastDailyReset: string | null;
+  lastWeeklyReset: string | null;
+}
+
+const BOARDS: Record<LeaderboardId, { label: string; window: LeaderboardWindow; value: (p: RankedPlayer) => number }> = {
+  'lp-all-time': { label: 'All-time LP', window: 'allTime', value: p => p.lpAllTime },
+  'lp-weekly': { label: 'LP this week', window: 'weekly', value: p => p.lpThisWeek },
+  'level': { label: 'Level', window: 'allTime', value: p => p.level },
+  'taps-today': { label: 'Taps today', window: 'daily', value: p => p.tapsToday }
+};
+
+let snapshot: { at: number; players: RankedPlayer[] } | null = null;
+let loading: Promise<RankedPlayer[]> | null = null;
+
+export function listLeaderboards() {
+  return (Object.keys(BOARDS) as LeaderboardId[]).map(id => ({ id, label: BOARDS[id].label, window: BOARDS[id].window }));
+}
+
+export function isLeaderboardId(id: string): id is LeaderboardId {
+  return Object.prototype.hasOwnProperty.call(BOARDS, id);
+}
+
+function isRankable(state: any): boolean {
+  return !!state?.id && !state.isAdmin && !state.leaderboardOptOut;
+}
+
+function toRankedPlayer(state: any): RankedPlayer {
+  return {
+    playerId: state.id,
+    username: state.username || 'Unknown',
+    level: state.level || 1,
+    // Saves from before lpEarnedAllTime existed are seeded from their balance on load - until a player
+    // loads again the balance is the floor, so one tap can't drop them to a single batch's LP
+    lpAllTime: Math.round(Math.max(state.lpEarnedAllTime || 0, state.lustPoints || state.points || 0)),
+    lpThisWeek: Math.round(state.lpEarnedThisWeek || 0),
+    tapsToday: state.totalTapsToday || 0,
+    lastDailyReset: state.lastDailyReset || null,
+    lastWeeklyReset: state.lastWeeklyReset || null
+  };
+}
+
+async function getRankedPlayers(now: number): Promise<RankedPlayer[]> {
+  if (snapshot && now - snapshot.at < LEADERBOARD_CONFIG.CACHE_TTL_MS) return snapshot.players;
+  if (!loading) {
+    loading = playerStateManager.readAllPlayerStates()
+      .then(states => {
+        const players = states.filter(isRankable).map(toRankedPlayer);
+        snapshot = { at: Date.now(), players };
+        return players;
+      })
+      .finally(() => { loading = null; });
+  }
+  return loading;
+}
+
+/**
+ * Drops the cached snapshot, e.g. after a player opts in or out
+ */
+export function invalidateLeaderboards(): void {
+  snapshot = null;
+}
+
+function windowedValue(player: RankedPlayer, window: LeaderboardWindow, value: number, now: number): number {
+  if (window === 'allTime') return value;
+  const lastReset = window === 'daily' ? player.lastDailyReset : player.lastWeeklyReset;
+  const resetAt = lastReset ? new Date(lastReset).getTime() : NaN;
+  return resetAt >= getResetBoundary(window, now) ? value : 0;
+}
+
+/**
+ * Top `limit` players of a board plus the viewer's own entry, wherever they rank
+ */
+export async function getLeaderboard(id: LeaderboardId, viewer: any, options: { limit?: number; now?: number } = {}): Promise<LeaderboardResult> {
+  const now = options.now ?? Date.now();
+  const board = BOARDS[id];
+  const limit = Math.min(Math.max(1, options.limit || LEADERBOARD_CONFIG.SIZE), LEADERBOARD_CONFIG.SIZE);
+  const optedOut = !!viewer?.leaderboardOptOut;
+
+  const scored = (await getRankedPlayers(now))
+    .filter(p => !(optedOut && p.playerId === viewer.id))
+    .map(p => ({ player: p, value: windowedValue(p, board.window, board.value(p), now) }))
+    .filter(s => s.value > 0)
+    .sort((a, b) => b.value - a.value || a.player.username.localeCompare(b.player.username));
+
+  const ranked: LeaderboardEntry[] = [];
+  scored.forEach((s, index) => {
+    const tied = index > 0 && scored[index - 1].value === s.value;
+    ranked.push({
+      rank: tied ? ranked[index - 1].rank : index + 1,
+      playerId: s.player.playerId,
+      username: s.player.username,
+      value: s.value
+    });
+  });
+
+  return {
+    id,
+    label: board.label,
+    window: board.window,
+    resetsAt: board.window === 'allTime' ? null : new Date(getNextResetAt(board.window, now)).toISOString(),
+    updatedAt: new Date(snapshot?.at ?? now).toISOString(),
+    totalPlayers: ranked.length,
+    entries: ranked.slice(0, limit),
+    me: ranked.find(entry => entry.playerId === viewer?.id) || null,
+    optedOut
+  };
+}
+
+console.log(`✅ [LEADERBOARDS] Leaderboards loaded (top ${LEADERBOARD_CONFIG.SIZE}, cache ${LEADERBOARD_CONFIG.CACHE_TTL_MS}ms)`);
@@ -0,0 +1,195 @@
+/**
+ * 🔐 Level-gated Media Access
+ * Character images are served through a gate instead of a public static folder. Images without
+ * restrictions (level 1, not NSFW/VIP, not hidden) are public; everything else needs a short-lived signed URL,
+ * which is only issued after the player's level, unlocks, VIP status and NSFW opt-in were checked.
+ * Unsigned requests for restricted images get a blurred placeholder.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { getCharacterFromMemory } from './unifiedDataLoader';
+import { getAffectionStatus } from './affection';
+import { getImageMetadata, UPLOADS_DIR } from './mediaRepository';
+import { getVariantSourcePath, IMAGE_PIPELINE_CONFIG } from './imagePipeline';
+import { hasImageCategory, type ImageMetadata } from '@shared/imageMetadata';
+import { hasCapability } from '@shared/permissions';
+
+export const MEDIA_ACCESS_CONFIG = {
+  // A per-boot secret just invalidates outstanding URLs on restart, which is fine for minutes-long links
+  SECRET: process.env.MEDIA_URL_SECRET || crypto.randomBytes(32).toString('hex'),
+  URL_TTL_SECONDS: parseInt(process.env.MEDIA_URL_TTL_SECONDS || '600', 10),
+  PLACEHOLDER_WIDTH: 32,
+  PLACEHOLDER_CACHE_SIZE: 200
+} as const;
+
+export type MediaLockReason = 'level' | 'character' | 'vip' | 'nsfw' | 'hidden';
+
+export interface MediaRules {
+  imageId: string;
+  filename: string;
+  characterId: string | null;
+  type: string;
+  unlockLevel: number;
+  nsfw: boolean;
+  vip: boolean;
+  isHidden: boolean;
+  poses: string[];
+}
+
+export type MediaAccessResult =
+  | { allowed: true }
+  | { allowed: false; reason: MediaLockReason; unlockLevel: number };
+
+/**
+ * Maps a public /uploads/... path to a file inside the uploads folder, or null if it escapes it
+ */
+export function resolveUploadPath(webPath: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(webPath.split('?')[0]);
+  } catch {
+    return null;
+  }
+  if (!decoded.startsWith('/uploads/')) return null;
+  const filePath = path.resolve(UPLOADS_DIR, '.' + decoded.slice('/uploads'.length));
+  return filePath.startsWith(UPLOADS_DIR + path.sep) ? filePath : null;
+}
+
+/**
+ * Access rules of an uploaded file from its canonical metadata
+ */
+export function toMediaRules(webPath: string, metadata: ImageMetadata): MediaRules {
+  const filename = path.basename(webPath.split('?')[0]);
+  return {
+    imageId: filename.split('.')[0],
+    filename,
+    characterId: metadata.characterId,
+    type: metadata.type,
+    unlockLevel: metadata.unlockLevel,
+    nsfw: hasImageCategory(metadata, 'nsfw'),
+    vip: hasImageCategory(metadata, 'vip'),
+    isHidden: metadata.isHidden,
+    poses: metadata.poses
+  };
+}
+
+// A generated variant is gated exactly like the upload it was made from
+export async function getMediaRules(webPath: string): Promise<MediaRules> {
+  const sourcePath = getVariantSourcePath(webPath) || webPath;
+  return toMediaRules(sourcePath, await getImageMetadata(sourcePath));
+}
+
+export function isPublicMedia(rules: MediaRules): boolean {
+  return rules.unlockLevel <= 1 && !rules.nsfw && !rules.vip && !rules.isHidden;
+}
+
+/**
+ * Checks a loaded player state against an image's rules. Hidden images are only for players who can
+ * edit media. Images the player unlocked explicitly (unlockedImages) or through affection with the
+ * image's character skip the level check, but VIP and NSFW still apply.
+ */
+export function checkMediaAccess(player: any, rules: MediaRules): MediaAccessResult {
+  if (player.isAdmin) return { allowed: true };
+  if (rules.isHidden && !hasCapability(player, 'media:edit')) return { allowed: false, reason: 'hidden', unlockLevel: rules.unlockLevel };
+  const level = player.level || 1;
+  const unlockedImages: string[] = player.unlockedImages || [];
+
+  if (rules.characterId) {
+    const character = getCharacterFromMemory(rules.characterId);
+    const characterUnlocked = !character
+      || (player.unlockedCharacters || []).includes(character.id)
+      || level >= (character.unlockLevel || 1);
+    if (!characterUnlocked) return { allowed: false, reason: 'character', unlockLevel: character.unlockLevel || 1 };
+  }
+  const explicitlyUnlocked = unlockedImages.includes(rules.imageId) || unlockedImages.includes(rules.filename);
+  const affectionUnlocked = !!rules.characterId && getAffectionStatus(player, rules.characterId).mediaUnlockLevel >= rules.unlockLevel;
+  if (!explicitlyUnlocked && !affectionUnlocked && level < rules.unlockLevel) {
+    return { allowed: false, reason: 'level', unlockLevel: rules.unlockLevel };
+  }
+  if (rules.vip && !player.isVip) return { allowed: false, reason: 'vip', unlockLevel: rules.unlockLevel };
+  if (rules.nsfw && !player.nsfwEnabled) return { allowed: false, reason: 'nsfw', unlockLevel: rules.unlockLevel };
+  return { allowed: true };
+}
+
+function computeSignature(webPath: string, playerId: string, expiresAt: number): string {
+  return crypto
+    .createHmac('sha256', MEDIA_ACCESS_CONFIG.SECRET)
+    .update(`${webPath}|${playerId}|${expiresAt}`)
+    .digest('base64url');
+}
+
+/**
+ * Signed URL for an /uploads path. `expiresAt` is a unix timestamp in seconds.
+ */
+export function signMediaUrl(webPath: string, playerId: string, expiresAt?: number): string {
+  const clean = webPath.split('?')[0];
+  const exp = expiresAt ?? Math.floor(Date.now() / 1000) + MEDIA_ACCESS_CONFIG.URL_TTL_SECONDS;
+  const sig = computeSignature(clean, playerId, exp);
+  return `${clean}?exp=${exp}&pid=${encodeURIComponent(playerId)}&sig=${sig}`;
+}
+
+/**
+ * Returns the signing player's id and remaining seconds, or null if the signature is missing, wrong or expired
+ */
+export function verifyMediaSignature(webPath: string, query: Record<string, any>): { playerId: string; remainingSeconds: number } | null {
+  const exp = parseInt(String(query.exp || ''), 10);
+  const playerId = typeof query.pid === 'string' ? query.pid : '';
+  const sig = typeof query.sig === 'string' ? query.sig : '';
+  if (!exp || !playerId || !sig) return null;
+
+  const remainingSeconds = exp - Math.floor(Date.now() / 1000);
+  if (remainingSeconds <= 0) return null;
+
+  const expected = Buffer.from(computeSignature(webPath, playerId, exp));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+  return { playerId, remainingSeconds };
+}
+
+/**
+ * URL a given player should use for an /uploads path: as-is when public, signed when allowed,
+ * and unsigned (so the gate answers with the placeholder) when locked. `sources` are the image's
+ * WebP variants, signed the same way, and stay empty while it is locked.
+ */
+export async function getMediaUrlForPlayer(playerState: any, webPath: string) {
+  const sourcePath = getVariantSourcePath(webPath) || webPath;
+  const metadata = await getImageMetadata(sourcePath);
+  const rules = toMediaRules(sourcePath, metadata);
+  const isPublic = isPublicMedia(rules);
+  const access: MediaAccessResult = isPublic ? { allowed: true } : checkMediaAccess(playerState, rules);
+
+  const toUrl = (mediaPath: string) => isPublic || !access.allowed ? mediaPath.split('?')[0] : signMediaUrl(mediaPath, playerState.id);
+  const sources = access.allowed && sourcePath === webPath
+    ? (metadata.variants || []).map(variant => ({ url: toUrl(variant.path), width: variant.width }))
+    : [];
+  return { url: toUrl(webPath), rules, access, metadata, sources };
+}
+
+const placeholderCache = new Map<string, Buffer>();
+
+/**
+ * Tiny blurred WebP of the image - enough to tease the picture without revealing it
+ */
+export async function getLockedPlaceholder(filePath: string): Promise<Buffer> {
+  const stats = await fs.stat(filePath);
+  const cacheKey = `${filePath}:${stats.mtimeMs}`;
+  const cached = placeholderCache.get(cacheKey);
+  if (cached) return cached;
+
+  const placeholder = await sharp(filePath, { limitInputPixels: IMAGE_PIPELINE_CONFIG.MAX_INPUT_PIXELS })
+    .resize({ width: MEDIA_ACCESS_CONFIG.PLACEHOLDER_WIDTH })
+    .blur(3)
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  if (placeholderCache.size >= MEDIA_ACCESS_CONFIG.PLACEHOLDER_CACHE_SIZE) {
+    placeholderCache.delete(placeholderCache.keys().next().value!);
+  }
+  placeholderCache.set(cacheKey, placeholder);
+  return placeholder;
+}
+
+console.log(`✅ [MEDIA ACCESS] Media gate loaded (signed URL TTL ${MEDIA_ACCESS_CONFIG.URL_TTL_SECONDS}s)`);
@@ -2,8 +2,80 @@ import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
 import logger from '../logger.js';
+import fileLock from './fileLock';
+import { IMAGE_PIPELINE_CONFIG, getVariantSourcePath } from './imagePipeline';
+import { listMediaFiles, getFolderFallback, METADATA_DIR, UPLOADS_DIR } from './mediaRepository';
+import { playerStateManager } from './playerStateManager';
+import { getAchievementsFromMemory, getBannersFromMemory, getCharactersFromMemory, getGiftsFromMemory, getLevelsFromMemory, getTasksFromMemory } from './unifiedDataLoader';
+import { getRewardSpec, type RewardSpec } from '@shared/rewards';
+
+// 🧹 Cleanup never deletes: findings are moved into a quarantine folder, from which they can be restored
+// until the retention window ends. The scheduled sweep only refreshes the findings for review and purges
+// quarantine entries past retention - what gets quarantined is always an admin's decision.
+export const MEDIA_CLEANUP_CONFIG = {
+  QUARANTINE_DIR: path.join(process.cwd(), 'media-quarantine'),
+  RETENTION_DAYS: parseInt(process.env.MEDIA_QUARANTINE_RETENTION_DAYS || '14', 10),
+  SCAN_INTERVAL_HOURS: parseInt(process.env.MEDIA_CLEANUP_INTERVAL_HOURS || '24', 10),
+  // Loose files younger than this may be an upload still in progress
+  MIN_ORPHAN_AGE_MINUTES: 60
+} as const;
+
+const QUARANTINE_INDEX = path.join(MEDIA_CLEANUP_CONFIG.QUARANTINE_DIR, 'quarantine.json');
+const IMAGE_FILE_PATTERN = /\.(jpg|jpeg|png|webp|gif)$/i;
+
+export type CleanupFindingKind = 'duplicate' | 'orphaned-image' | 'missing-image' | 'broken-display-image';
+
+export interface CleanupFinding {
+  id: string;
+  kind: CleanupFindingKind;
+  // /uploads web path of the image, or the metadata file relative to the project root
+  target: string;
+  sizeBytes: number;
+  detail: string;
+  // Who still uses it: players (display image, unlockedImages) and gifts, rewards, banners and affection tiers
+  referencedBy: string[];
+  canQuarantine: boolean;
+  // Duplicates: the /uploads web path of the copy that stays
+  duplicateOf?: string;
+}
+
+export interface CleanupReport {
+  scannedAt: string;
+  findings: CleanupFinding[];
+  summary: Record<CleanupFindingKind, number> & { displayImageReferences: number };
+}
+
+export interface QuarantineEntry {
+  id: string;
+  findingId: string;
+  kind: CleanupFindingKind;
+  target: string;
+  detail: string;
+  // Paths relative to the project root, mirrored inside the entry's quarantine folder
+  files: string[];
+  sizeBytes: number;
+  quarantinedAt: string;
+  quarantinedBy: string;
+  purgeAfter: string;
+}
+
+interface ImageReferences {
+  // displayImage path -> usernames
+  displayImages: Map<string, string[]>;
+  // /uploads path, filename or image id -> who uses it
+  references: Map<string, string[]>;
+}
+
+interface ScannedImage {
+  webPath: string;
+  filePath: string;
+  size: number;
+  created: Date;
+  modified: Date;
+}
+
+let latestReport: CleanupReport | null = null;
 
-// 🔧 UTILITY: Clean up duplicate media files
 export class MediaCleaner {
   private static async getFileHash(filePath: string): Promise<string> {
     try {
@@ -14,247 +86,433 @@ export class MediaCleaner {
       return '';
     }
   }
-  
-  private static async getFileStats(filePath: string) {
+
+  private static toWebPath(filePath: string): string {
+    return '/uploads/' + path.relative(UPLOADS_DIR, filePath).split(path.sep).join('/');
+  }
+
+  private static toProjectPath(filePath: string): string {
+    return path.relative(process.cwd(), filePath).split(path.sep).join('/');
+  }
+
+  // Every image under uploads/, variants included
+  private static async scanImages(dirPath: string = UPLOADS_DIR, found: ScannedImage[] = []): Promise<ScannedImage[]> {
+    let entries;
     try {
-      const stats = await fs.stat(filePath);
-      return {
-        size: stats.size,
-        created: stats.birthtime,
-        modified: stats.mtime
-      };
-    } catch {
-      return null;
+      entries = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch (error) {
+      console.error(`Error scanning ${dirPath}:`, error);
+      return found;
     }
-  }
-  
-  // Find and remove duplicate files in uploads directory
-  static async findDuplicates(uploadsDir: string = path.join(process.cwd(), 'uploads')) {
-    console.log(`🔍 [MEDIA CLEANER] Scanning ${uploadsDir} for duplicates...`);
-    
-    // 🔧 FIX: Proper Map initialization to prevent runtime errors
-    const filesByHash = new Map<string, { path: string; stats: any }[]>();
-    const duplicatesFound: { hash: string; files: string[]; sizeMB: number }[] = [];
-    
-    // 🔧 FIX: Define scanDirectory function properly
-    const scanDirectory = async (dirPath: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(dirPath, entry.name);
-          
-          if (entry.isDirectory()) {
-            await scanDirectory(fullPath);
-          } else if (entry.isFile() && /\.(jpg|jpeg|png|webp|gif)$/i.test(entry.name)) {
-            const hash = await MediaCleaner.getFileHash(fullPath);
-            const stats = await MediaCleaner.getFileStats(fullPath);
-            
-            if (hash && stats) {
-              // 🔧 FIX: Properly initialize array if doesn't exist
-              if (!filesByHash.has(hash)) {
-                filesByHash.set(hash, []);
-              }
-              const files = filesByHash.get(hash);
-              if (files) { // 🔧 FIX: Null check before push
-                files.push({ path: fullPath, stats });
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error scanning ${dirPath}:`, error);
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        await this.scanImages(fullPath, found);
+      } else if (entry.isFile() && IMAGE_FILE_PATTERN.test(entry.name)) {
+        try {
+          const stats = await fs.stat(fullPath);
+          found.push({ webPath: this.toWebPath(fullPath), filePath: fullPath, size: stats.size, created: stats.birthtime, modified: stats.mtime });
+        } catch {}
       }
+    }
+    return found;
+  }
+
+  // Display images and unlockedImages from the JSON player files, plus every image id the game data hands out
+  private static async getImageReferences(): Promise<ImageReferences> {
+    const displayImages = new Map<string, string[]>();
+    const references = new Map<string, string[]>();
+    const add = (map: Map<string, string[]>, key: unknown, by: string) => {
+      if (typeof key !== 'string' || !key) return;
+      const existing = map.get(key) || [];
+      if (!existing.includes(by)) map.set(key, [...existing, by]);
     };
-    
-    await scanDirectory(uploadsDir);
-    
-    // Find duplicates (same hash, multiple files)
-    for (const [hash, files] of filesByHash.entries()) {
-      if (files && files.length > 1) { // 🔧 FIX: Null check for files array
-        // Sort by creation time (keep oldest)
-        files.sort((a, b) => a.stats.created.getTime() - b.stats.created.getTime());
-        
-        duplicatesFound.push({
-          hash,
-          files: files.map(f => f.path),
-          sizeMB: Math.round(files[0].stats.size / 1024 / 1024 * 100) / 100
-        });
+
+    for (const player of await playerStateManager.readAllPlayerStates()) {
+      const username = player.username || player.id;
+      const displayImage = typeof player.displayImage === 'string' ? player.displayImage.split('?')[0] : '';
+      if (displayImage.startsWith('/uploads/')) {
+        add(displayImages, displayImage, username);
+        add(references, displayImage, `${username} (display image)`);
       }
+      (Array.isArray(player.unlockedImages) ? player.unlockedImages : []).forEach((imageId: unknown) => add(references, imageId, `${username} (unlocked)`));
     }
-    
-    console.log(`🔍 [MEDIA CLEANER] Found ${duplicatesFound.length} sets of duplicates`);
-    return duplicatesFound;
+
+    const addRewardImages = (spec: RewardSpec | undefined, by: string) => {
+      if (spec?.type === 'image') add(references, spec.imageId, by);
+      (spec?.rewards || []).forEach(reward => addRewardImages(reward, by));
+    };
+    getGiftsFromMemory().forEach((gift: any) => add(references, gift.unlockImageId, `gift ${gift.id}`));
+    getTasksFromMemory().forEach((task: any) => addRewardImages(getRewardSpec(task), `task ${task.id}`));
+    getAchievementsFromMemory().forEach((achievement: any) => addRewardImages(getRewardSpec(achievement), `achievement ${achievement.id}`));
+    getLevelsFromMemory().forEach((level: any) => (level.rewards?.extraRewards || []).forEach((reward: RewardSpec) => addRewardImages(reward, `level ${level.level}`)));
+    getBannersFromMemory().forEach((banner: any) => (Array.isArray(banner.pool) ? banner.pool : []).forEach((item: any) => {
+      if (item?.type === 'image') add(references, item.id && String(item.id), `banner ${banner.id}`);
+    }));
+    getCharactersFromMemory().forEach((character: any) => (character.affectionTiers || []).forEach((tier: any) => {
+      (tier.unlockImages || []).forEach((imageId: unknown) => add(references, imageId, `${character.name || character.id} affection tier ${tier.level}`));
+    }));
+    return { displayImages, references };
   }
-  
-  // Remove duplicate files (keep the oldest one)
-  static async removeDuplicates(uploadsDir: string = path.join(process.cwd(), 'uploads'), dryRun: boolean = true) {
-    const duplicates = await this.findDuplicates(uploadsDir);
-    
-    let totalDeleted = 0;
-    let spaceFreedMB = 0;
-    
-    for (const duplicate of duplicates) {
-      // 🔧 FIX: Proper destructuring with safety check
-      if (!duplicate.files || duplicate.files.length < 2) continue;
-      
-      const [keep, ...toDelete] = duplicate.files;
-      
-      console.log(`👀 [DUPLICATE SET] Hash: ${duplicate.hash.substring(0, 8)}...`);
-      console.log(`  ✅ KEEP: ${path.basename(keep)}`);
-      
-      for (const filePath of toDelete) {
-        console.log(`  🗑️ DELETE: ${path.basename(filePath)}`);
-        
-        if (!dryRun) {
-          try {
-            await fs.unlink(filePath);
-            totalDeleted++;
-            spaceFreedMB += duplicate.sizeMB;
-          } catch (error) {
-            console.error(`  ❌ Failed to delete ${filePath}:`, error);
-            logger.error('Failed to delete duplicate file', { filePath, error: error instanceof Error ? error.message : 'Unknown' });
-          }
-        }
-      }
+
+  // Everything that points at an image, by its path, its filename or its id (the filename up to the first dot)
+  private static getReferencesTo(webPath: string, references: Map<string, string[]>): string[] {
+    const filename = path.posix.basename(webPath);
+    const keys = [webPath, filename, filename.split('.')[0]];
+    return Array.from(new Set(keys.flatMap(key => references.get(key) || [])));
+  }
+
+  private static describeReferences(referencedBy: string[]): string {
+    const shown = referencedBy.slice(0, 5).join(', ');
+    return referencedBy.length > 5 ? `${shown} and ${referencedBy.length - 5} more` : shown;
+  }
+
+  private static toFilePath(webPath: string): string {
+    return path.join(UPLOADS_DIR, ...webPath.slice('/uploads/'.length).split('/'));
+  }
+
+  private static async exists(filePath: string): Promise<boolean> {
+    return !!(await fs.stat(filePath).catch(() => null));
+  }
+
+  private static async getStoredMetadataFiles(): Promise<string[]> {
+    try {
+      return (await fs.readdir(METADATA_DIR)).filter(file => file.endsWith('.meta.json'));
+    } catch {
+      return [];
     }
-    
-    const summary = {
-      duplicateSets: duplicates.length,
-      filesDeleted: totalDeleted,
-      spaceFreedMB: Math.round(spaceFreedMB * 100) / 100,
-      dryRun
+  }
+
+  /**
+   * Looks for duplicates (same content, extra copies), orphaned images (loose files outside
+   * uploads/characters/<id>/<type>/ with no metadata, and variants whose original is gone), metadata
+   * without an image, and display images that point at missing files. Images that a player or the game
+   * data still uses are reported but never offered for quarantine.
+   */
+  static async scan(): Promise<CleanupReport> {
+    console.log('🔍 [MEDIA CLEANER] Scanning uploads and metadata...');
+    const images = await this.scanImages();
+    const { displayImages, references } = await this.getImageReferences();
+    const metadataFiles = new Set(await this.getStoredMetadataFiles());
+    const hasMetadata = (webPath: string) => metadataFiles.has(`${path.posix.basename(webPath)}.meta.json`);
+    const findings: CleanupFinding[] = [];
+
+    const addImageFinding = (kind: CleanupFindingKind, image: ScannedImage, detail: string, duplicateOf?: string) => {
+      const referencedBy = this.getReferencesTo(image.webPath, references);
+      findings.push({
+        id: `${kind}:${image.webPath}`,
+        kind,
+        target: image.webPath,
+        sizeBytes: image.size,
+        detail: referencedBy.length > 0 ? `${detail} - kept, it is used by ${this.describeReferences(referencedBy)}` : detail,
+        referencedBy,
+        canQuarantine: referencedBy.length === 0,
+        ...(duplicateOf ? { duplicateOf } : {})
+      });
     };
-    
-    console.log(`🧩 [MEDIA CLEANER] ${dryRun ? 'DRY RUN' : 'CLEANUP'} Complete:`);
-    console.log(`  📏 Duplicate sets: ${summary.duplicateSets}`);
-    console.log(`  🗑️ Files ${dryRun ? 'would be' : ''} deleted: ${summary.filesDeleted}`);
-    console.log(`  💾 Space ${dryRun ? 'would be' : ''} freed: ${summary.spaceFreedMB} MB`);
-    
-    logger.info('Media cleanup completed', summary);
-    return summary;
+
+    // 👯 Duplicates among originals; the copy with metadata, then the one in use, then the oldest stays.
+    // An extra copy that is still in use is listed but protected.
+    const originals = images.filter(image => !getVariantSourcePath(image.webPath));
+    const byHash = new Map<string, ScannedImage[]>();
+    for (const image of originals) {
+      const hash = await this.getFileHash(image.filePath);
+      if (hash) byHash.set(hash, [...(byHash.get(hash) || []), image]);
+    }
+    byHash.forEach(copies => {
+      if (copies.length < 2) return;
+      const score = (image: ScannedImage) => (hasMetadata(image.webPath) ? 2 : 0) + (this.getReferencesTo(image.webPath, references).length > 0 ? 1 : 0);
+      const [keep, ...extra] = [...copies].sort((a, b) => score(b) - score(a) || a.created.getTime() - b.created.getTime());
+      extra.forEach(image => addImageFinding('duplicate', image, `Same content as ${keep.webPath}`, keep.webPath));
+    });
+
+    // 👻 Orphaned images
+    const existing = new Set(images.map(image => image.webPath));
+    const minAge = Date.now() - MEDIA_CLEANUP_CONFIG.MIN_ORPHAN_AGE_MINUTES * 60 * 1000;
+    const reported = new Set(findings.map(finding => finding.target));
+    for (const image of images) {
+      const source = getVariantSourcePath(image.webPath);
+      if (reported.has(image.webPath)) continue;
+      if (source) {
+        if (!existing.has(source)) addImageFinding('orphaned-image', image, `Variant of ${source}, which no longer exists`);
+      } else if (!getFolderFallback(image.webPath).type && !hasMetadata(image.webPath) && image.modified.getTime() < minAge) {
+        addImageFinding('orphaned-image', image, 'Not in a character folder and has no metadata (e.g. a leftover temp upload)');
+      }
+    }
+
+    // 🗂️ Metadata whose image is gone
+    const mediaFilenames = new Set((await listMediaFiles()).map(file => file.filename));
+    for (const metadataFile of Array.from(metadataFiles).sort()) {
+      const filename = metadataFile.slice(0, -'.meta.json'.length);
+      if (mediaFilenames.has(filename)) continue;
+      const filePath = path.join(METADATA_DIR, metadataFile);
+      const stats = await fs.stat(filePath).catch(() => null);
+      findings.push({
+        id: `missing-image:${this.toProjectPath(filePath)}`,
+        kind: 'missing-image',
+        target: this.toProjectPath(filePath),
+        sizeBytes: stats?.size || 0,
+        detail: `Metadata for ${filename}, which is not in uploads/`,
+        referencedBy: [],
+        canQuarantine: true
+      });
+    }
+
+    // 🖼️ Display images pointing at nothing - only a player can fix these, so they are report-only
+    displayImages.forEach((usernames, displayImage) => {
+      if (existing.has(displayImage)) return;
+      findings.push({
+        id: `broken-display-image:${displayImage}`,
+        kind: 'broken-display-image',
+        target: displayImage,
+        sizeBytes: 0,
+        detail: `Display image of ${usernames.join(', ')}, but the file does not exist`,
+        referencedBy: usernames,
+        canQuarantine: false
+      });
+    });
+
+    const summary = { 'duplicate': 0, 'orphaned-image': 0, 'missing-image': 0, 'broken-display-image': 0, displayImageReferences: displayImages.size };
+    findings.forEach(finding => { summary[finding.kind]++; });
+    latestReport = { scannedAt: new Date().toISOString(), findings, summary };
+
+    console.log(`🔍 [MEDIA CLEANER] ${findings.length} findings (${summary.duplicate} duplicates, ${summary['orphaned-image']} orphaned, ${summary['missing-image']} missing images, ${summary['broken-display-image']} broken display images)`);
+    return latestReport;
+  }
+
+  static getLatestReport(): CleanupReport | null {
+    return latestReport;
   }
-  
-  // Find images that exist as files but not in media.json
-  static async findOrphanedFiles(uploadsDir: string = path.join(process.cwd(), 'uploads')) {
-    console.log(`🔍 [MEDIA CLEANER] Scanning for orphaned files...`);
-    
-    const mediaJsonPath = path.join(process.cwd(), 'main-gamedata', 'master-data', 'media.json');
-    let mediaEntries: any[] = [];
-    
+
+  private static async readQuarantineIndex(): Promise<QuarantineEntry[]> {
     try {
-      const mediaContent = await fs.readFile(mediaJsonPath, 'utf8');
-      const mediaData = JSON.parse(mediaContent);
-      // 🔧 FIX: Ensure mediaData.media exists and is an array
-      mediaEntries = Array.isArray(mediaData?.media) ? mediaData.media : [];
-    } catch (error) {
-      console.error('Failed to load media.json:', error);
+      const parsed = JSON.parse(await fs.readFile(QUARANTINE_INDEX, 'utf8'));
+      return Array.isArray(parsed?.entries) ? parsed.entries : [];
+    } catch {
       return [];
     }
-    
-    // 🔧 FIX: Properly filter and map with null checks
-    const registeredPaths = new Set(
-      mediaEntries
-        .map(m => m?.url)
-        .filter((url): url is string => Boolean(url))
-    );
-    const orphanedFiles: string[] = [];
-    
-    const scanForOrphans = async (dirPath: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(dirPath, entry.name);
-          
-          if (entry.isDirectory()) {
-            await scanForOrphans(fullPath);
-          } else if (entry.isFile() && /\.(jpg|jpeg|png|webp|gif)$/i.test(entry.name)) {
-            // Convert absolute path to relative URL path
-            const relativePath = '/' + path.relative(path.join(process.cwd()), fullPath).replace(/\\/g, '/');
-            
-            if (!registeredPaths.has(relativePath)) {
-              orphanedFiles.push(fullPath);
+  }
+
+  private static async writeQuarantineIndex(entries: QuarantineEntry[]) {
+    await fs.mkdir(MEDIA_CLEANUP_CONFIG.QUARANTINE_DIR, { recursive: true });
+    await fs.writeFile(QUARANTINE_INDEX, JSON.stringify({ entries }, null, 2), 'utf8');
+  }
+
+  static async listQuarantine(): Promise<QuarantineEntry[]> {
+    return this.readQuarantineIndex();
+  }
+
+  // The files that leave with a finding: an original takes its variants and, unless another copy shares
+  // the filename, its metadata along
+  private static async getFindingFiles(finding: CleanupFinding): Promise<string[]> {
+    if (finding.kind === 'missing-image') return [path.join(process.cwd(), finding.target)];
+
+    const filePath = this.toFilePath(finding.target);
+    const files = [filePath];
+    if (getVariantSourcePath(finding.target)) return files;
+
+    const variantsDir = path.join(path.dirname(filePath), IMAGE_PIPELINE_CONFIG.VARIANTS_DIR);
+    for (const variant of await fs.readdir(variantsDir).catch(() => [] as string[])) {
+      const variantWebPath = `${path.posix.dirname(finding.target)}/${IMAGE_PIPELINE_CONFIG.VARIANTS_DIR}/${variant}`;
+      if (getVariantSourcePath(variantWebPath) === finding.target) files.push(path.join(variantsDir, variant));
+    }
+    const filename = path.basename(filePath);
+    const sameName = (await listMediaFiles()).filter(file => file.filename === filename);
+    if (sameName.length <= 1) files.push(path.join(METADATA_DIR, `${filename}.meta.json`));
+    return files;
+  }
+
+  // The metadata file that belongs to a finding; its lock keeps metadata saves out while the finding moves
+  private static getFindingMetadataPath(finding: CleanupFinding): string {
+    if (finding.kind === 'missing-image') return path.join(process.cwd(), finding.target);
+    return path.join(METADATA_DIR, `${path.posix.basename(getVariantSourcePath(finding.target) || finding.target)}.meta.json`);
+  }
+
+  /**
+   * Checks a finding from the latest report (which may be a day old) against the files and references
+   * as they are now. Returns why it no longer holds, or null if it can still be quarantined.
+   */
+  private static async revalidate(finding: CleanupFinding, references: Map<string, string[]>): Promise<string | null> {
+    if (finding.kind === 'missing-image') {
+      const filename = path.posix.basename(finding.target).slice(0, -'.meta.json'.length);
+      return (await listMediaFiles()).some(file => file.filename === filename) ? `${filename} is back in uploads/` : null;
+    }
+
+    const filePath = this.toFilePath(finding.target);
+    if (!(await this.exists(filePath))) return 'File no longer exists';
+    const referencedBy = this.getReferencesTo(finding.target, references);
+    if (referencedBy.length > 0) return `Kept, it is used by ${this.describeReferences(referencedBy)}`;
+
+    if (finding.kind === 'duplicate') {
+      if (!finding.duplicateOf || !(await this.exists(this.toFilePath(finding.duplicateOf)))) return `The kept copy ${finding.duplicateOf} no longer exists`;
+      const hash = await this.getFileHash(filePath);
+      if (!hash || hash !== await this.getFileHash(this.toFilePath(finding.duplicateOf))) return `No longer the same content as ${finding.duplicateOf}`;
+    } else if (finding.kind === 'orphaned-image') {
+      const source = getVariantSourcePath(finding.target);
+      if (source && await this.exists(this.toFilePath(source))) return `${source} exists again`;
+      if (!source && await this.exists(this.getFindingMetadataPath(finding))) return 'Has metadata now';
+    }
+    return null;
+  }
+
+  /**
+   * Moves the given findings (by id, from the latest scan) into quarantine. Each finding is re-checked
+   * first; findings that are gone, no longer hold, are protected or already quarantined are reported
+   * per id instead of failing the batch.
+   */
+  static async quarantine(findingIds: string[], quarantinedBy: string) {
+    const report = latestReport || await this.scan();
+    const { references } = await this.getImageReferences();
+    const results: { findingId: string; success: boolean; entryId?: string; error?: string }[] = [];
+
+    await fileLock.withLock(QUARANTINE_INDEX, async () => {
+      const entries = await this.readQuarantineIndex();
+      for (const findingId of findingIds) {
+        const finding = report.findings.find(f => f.id === findingId);
+        if (!finding) { results.push({ findingId, success: false, error: 'Not in the latest scan' }); continue; }
+        if (!finding.canQuarantine) { results.push({ findingId, success: false, error: finding.detail }); continue; }
+        if (entries.some(entry => entry.findingId === findingId)) { results.push({ findingId, success: false, error: 'Already quarantined' }); continue; }
+
+        const id = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+        const entryDir = path.join(MEDIA_CLEANUP_CONFIG.QUARANTINE_DIR, id);
+        const moved: string[] = [];
+        const error = await fileLock.withLock(this.getFindingMetadataPath(finding), async () => {
+          const stale = await this.revalidate(finding, references);
+          if (stale) return stale;
+          try {
+            for (const filePath of await this.getFindingFiles(finding)) {
+              if (!(await this.exists(filePath))) continue;
+              const relative = this.toProjectPath(filePath);
+              const destination = path.join(entryDir, relative);
+              await fs.mkdir(path.dirname(destination), { recursive: true });
+              await fs.rename(filePath, destination);
+              moved.push(relative);
             }
+            if (moved.length === 0) throw new Error('File no longer exists');
+            return null;
+          } catch (error: any) {
+            // Put back whatever already moved so a finding is never half-quarantined
+            for (const relative of moved) {
+              await fs.rename(path.join(entryDir, relative), path.join(process.cwd(), relative)).catch(() => {});
+            }
+            await fs.rm(entryDir, { recursive: true, force: true });
+            return error.message as string;
           }
+        });
+        if (error) {
+          results.push({ findingId, success: false, error });
+          continue;
         }
-      } catch (error) {
-        console.error(`Error scanning ${dirPath} for orphans:`, error);
+
+        const quarantinedAt = new Date();
+        entries.push({
+          id,
+          findingId,
+          kind: finding.kind,
+          target: finding.target,
+          detail: finding.detail,
+          files: moved,
+          sizeBytes: finding.sizeBytes,
+          quarantinedAt: quarantinedAt.toISOString(),
+          quarantinedBy,
+          purgeAfter: new Date(quarantinedAt.getTime() + MEDIA_CLEANUP_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+        });
+        results.push({ findingId, success: true, entryId: id });
+        console.log(`🧹 [QUARANTINE] ${finding.target} (${moved.length} files) by ${quarantinedBy}`);
       }
-    };
-    
-    await scanForOrphans(uploadsDir);
-    
-    console.log(`🔍 [MEDIA CLEANER] Found ${orphanedFiles.length} orphaned files`);
-    return orphanedFiles;
-  }
-  
-  // Clean up orphaned files not referenced in media.json
-  static async removeOrphanedFiles(uploadsDir: string = path.join(process.cwd(), 'uploads'), dryRun: boolean = true) {
-    const orphanedFiles = await this.findOrphanedFiles(uploadsDir);
-    
-    if (orphanedFiles.length === 0) {
-      console.log('✅ [MEDIA CLEANER] No orphaned files found');
-      return { orphanedFiles: 0, filesDeleted: 0, spaceFreedMB: 0, dryRun };
+      await this.writeQuarantineIndex(entries);
+    });
+
+    if (latestReport) {
+      const quarantined = new Set(results.filter(r => r.success).map(r => r.findingId));
+      latestReport = { ...latestReport, findings: latestReport.findings.filter(f => !quarantined.has(f.id)) };
     }
-    
-    let filesDeleted = 0;
-    let spaceFreedMB = 0;
-    
-    for (const filePath of orphanedFiles) {
-      try {
-        const stats = await MediaCleaner.getFileStats(filePath);
-        const sizeMB = stats ? Math.round(stats.size / 1024 / 1024 * 100) / 100 : 0;
-        
-        console.log(`${dryRun ? '👀 WOULD DELETE' : '🗑️ DELETING'}: ${path.basename(filePath)} (${sizeMB}MB)`);
-        
-        if (!dryRun) {
-          await fs.unlink(filePath);
-          filesDeleted++;
-          spaceFreedMB += sizeMB;
-        }
-      } catch (error) {
-        console.error(`Failed to ${dryRun ? 'analyze' : 'delete'} ${filePath}:`, error);
+    logger.info('Media quarantined', { requested: findingIds.length, quarantined: results.filter(r => r.success).length, quarantinedBy });
+    return results;
+  }
+
+  /**
+   * Moves a quarantined entry's files back where they came from. Returns an error message instead
+   * of overwriting anything that has taken their place since.
+   */
+  static async restore(entryId: string): Promise<string | null> {
+    return fileLock.withLock(QUARANTINE_INDEX, async () => {
+      const entries = await this.readQuarantineIndex();
+      const entry = entries.find(e => e.id === entryId);
+      if (!entry) return 'Quarantine entry not found';
+
+      for (const relative of entry.files) {
+        if (await fs.stat(path.join(process.cwd(), relative)).catch(() => null)) return `${relative} exists again, restore would overwrite it`;
       }
-    }
-    
-    const summary = {
-      orphanedFiles: orphanedFiles.length,
-      filesDeleted,
-      spaceFreedMB: Math.round(spaceFreedMB * 100) / 100,
-      dryRun
-    };
-    
-    console.log(`🧩 [ORPHAN CLEANUP] ${dryRun ? 'DRY RUN' : 'CLEANUP'} Complete:`);
-    console.log(`  📏 Orphaned files: ${summary.orphanedFiles}`);
-    console.log(`  🗑️ Files ${dryRun ? 'would be' : ''} deleted: ${summary.filesDeleted}`);
-    console.log(`  💾 Space ${dryRun ? 'would be' : ''} freed: ${summary.spaceFreedMB} MB`);
-    
-    logger.info('Orphan cleanup completed', summary);
-    return summary;
+      const entryDir = path.join(MEDIA_CLEANUP_CONFIG.QUARANTINE_DIR, entry.id);
+      for (const relative of entry.files) {
+        const destination = path.join(process.cwd(), relative);
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+        await fs.rename(path.join(entryDir, relative), destination);
+      }
+      await fs.rm(entryDir, { recursive: true, force: true });
+      await this.writeQuarantineIndex(entries.filter(e => e.id !== entryId));
+      latestReport = null;
+
+      console.log(`♻️ [QUARANTINE] Restored ${entry.target}`);
+      return null;
+    });
+  }
+
+  /**
+   * Permanently deletes quarantine entries: the given ids, or every entry past its retention window
+   */
+  static async purge(entryIds?: string[], now: Date = new Date()): Promise<QuarantineEntry[]> {
+    return fileLock.withLock(QUARANTINE_INDEX, async () => {
+      const entries = await this.readQuarantineIndex();
+      const purged = entries.filter(entry => entryIds ? entryIds.includes(entry.id) : new Date(entry.purgeAfter) <= now);
+      if (purged.length === 0) return purged;
+
+      for (const entry of purged) {
+        await fs.rm(path.join(MEDIA_CLEANUP_CONFIG.QUARANTINE_DIR, entry.id), { recursive: true, force: true });
+      }
+      await this.writeQuarantineIndex(entries.filter(entry => !purged.includes(entry)));
+      console.log(`🗑️ [QUARANTINE] Purged ${purged.length} entries`);
+      logger.info('Media quarantine purged', { purged: purged.map(entry => entry.target) });
+      return purged;
+    });
   }
-  
-  // Full cleanup: duplicates + orphans
-  static async fullCleanup(uploadsDir?: string, dryRun: boolean = true) {
+
+  static async runScheduledSweep() {
+    const purged = await this.purge();
+    const report = await this.scan();
+    console.log(`🕒 [MEDIA CLEANER] Scheduled sweep: ${report.findings.length} findings to review, ${purged.length} expired entries purged`);
+  }
+
+  // Used by the cleanup script and the debug route: quarantines everything the scan offers
+  static async fullCleanup(dryRun: boolean = true, quarantinedBy: string = 'cleanup') {
     console.log(`🧩 [MEDIA CLEANER] Starting full cleanup (${dryRun ? 'DRY RUN' : 'LIVE'})...`);
-    
-    const duplicateResult = await this.removeDuplicates(uploadsDir, dryRun);
-    const orphanResult = await this.removeOrphanedFiles(uploadsDir, dryRun);
-    
+    const report = await this.scan();
+    const candidates = report.findings.filter(finding => finding.canQuarantine);
+    const results = dryRun ? [] : await this.quarantine(candidates.map(finding => finding.id), quarantinedBy);
+
     const totalResult = {
-      duplicateSets: duplicateResult.duplicateSets,
-      orphanedFiles: orphanResult.orphanedFiles,
-      totalFilesDeleted: duplicateResult.filesDeleted + orphanResult.filesDeleted,
-      totalSpaceFreedMB: duplicateResult.spaceFreedMB + orphanResult.spaceFreedMB,
+      duplicates: report.summary.duplicate,
+      orphanedFiles: report.summary['orphaned-image'],
+      missingImages: report.summary['missing-image'],
+      brokenDisplayImages: report.summary['broken-display-image'],
+      filesQuarantined: results.filter(result => result.success).length,
+      quarantineCandidates: candidates.length,
+      retentionDays: MEDIA_CLEANUP_CONFIG.RETENTION_DAYS,
       dryRun
     };
-    
+
     console.log(`🎆 [FULL CLEANUP] ${dryRun ? 'ANALYSIS' : 'COMPLETE'}:`);
-    console.log(`  📏 Total duplicate sets: ${totalResult.duplicateSets}`);
-    console.log(`  📏 Total orphaned files: ${totalResult.orphanedFiles}`);
-    console.log(`  🗑️ Total files ${dryRun ? 'would be' : ''} deleted: ${totalResult.totalFilesDeleted}`);
-    console.log(`  💾 Total space ${dryRun ? 'would be' : ''} freed: ${totalResult.totalSpaceFreedMB} MB`);
-    
+    console.log(`  📏 Duplicates: ${totalResult.duplicates}, orphaned: ${totalResult.orphanedFiles}, missing images: ${totalResult.missingImages}`);
+    console.log(`  🖼️ Broken display images (report only): ${totalResult.brokenDisplayImages}`);
+    console.log(`  🧹 Findings ${dryRun ? 'that would be' : ''} quarantined: ${dryRun ? totalResult.quarantineCandidates : totalResult.filesQuarantined}`);
+
+    logger.info('Media cleanup completed', totalResult);
     return totalResult;
   }
-}
\ No newline at end of file
+}
+
+setTimeout(() => { MediaCleaner.runScheduledSweep().catch(error => console.error('❌ [MEDIA CLEANER] Sweep failed:', error)); }, 60 * 1000).unref();
+setInterval(() => {
+  MediaCleaner.runScheduledSweep().catch(error => console.error('❌ [MEDIA CLEANER] Sweep failed:', error));
+}, MEDIA_CLEANUP_CONFIG.SCAN_INTERVAL_HOURS * 60 * 60 * 1000).unref();
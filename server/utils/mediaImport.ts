@@ -0,0 +1,273 @@
+/**
+ * 📦 Bulk Media Import
+ * Imports a zip of images, optionally with a manifest.json or manifest.csv that maps filenames to metadata.
+ * Every file is validated first (extension, size, readable image, metadata) without touching uploads/; a
+ * dry run stops there and returns the preview. A real import stores the valid files one at a time through
+ * storeUploadedImage, the same path single uploads take, and reports each file's outcome.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { listZipEntries, readZipEntry, type ZipEntry } from './zipReader';
+import { getFolderFallback, validateImageMetadataInput, UPLOADS_DIR } from './mediaRepository';
+import { storeUploadedImage } from './mediaUpload';
+import { IMAGE_PIPELINE_CONFIG } from './imagePipeline';
+import { normalizeImageMetadata, type ImageMetadata } from '@shared/imageMetadata';
+
+export const MEDIA_IMPORT_CONFIG = {
+  MAX_ARCHIVE_MB: parseInt(process.env.MEDIA_IMPORT_MAX_ARCHIVE_MB || '200', 10),
+  MAX_FILES: parseInt(process.env.MEDIA_IMPORT_MAX_FILES || '500', 10),
+  // Same cap as a single upload
+  MAX_FILE_BYTES: 10 * 1024 * 1024,
+  MANIFEST_NAMES: ['manifest.json', 'manifest.csv']
+} as const;
+
+const IMPORT_IMAGE_PATTERN = /\.(jpg|jpeg|png|gif|webp)$/i;
+
+// Manifest columns that hold lists; cells separate values with | or ;
+const LIST_COLUMNS = ['poses', 'categories'];
+const BOOLEAN_COLUMNS = ['isHidden', 'hideFromGallery', 'chatEnable', 'enableForChat', 'nsfw', 'vip', 'event', 'random'];
+const NUMBER_COLUMNS = ['unlockLevel', 'levelRequired', 'chatSendPercent'];
+
+export type MediaImportStatus = 'ready' | 'invalid' | 'imported' | 'failed';
+
+export interface MediaImportItem {
+  entry: string;
+  filename: string;
+  size: number;
+  status: MediaImportStatus;
+  error: string | null;
+  fromManifest: boolean;
+  width: number | null;
+  height: number | null;
+  metadata: ImageMetadata | null;
+  url: string | null;
+}
+
+export interface MediaImportResult {
+  dryRun: boolean;
+  manifest: string | null;
+  items: MediaImportItem[];
+  warnings: string[];
+  summary: Record<MediaImportStatus, number> & { total: number };
+}
+
+interface PlannedItem {
+  item: MediaImportItem;
+  entry: ZipEntry;
+  raw: Record<string, any>;
+}
+
+function isIgnoredEntry(entry: ZipEntry): boolean {
+  const parts = entry.name.split('/');
+  return entry.isDirectory || parts[0] === '__MACOSX' || parts[parts.length - 1].startsWith('.');
+}
+
+function findManifest(entries: ZipEntry[]): ZipEntry | null {
+  return entries.find(entry => !isIgnoredEntry(entry)
+    && (MEDIA_IMPORT_CONFIG.MANIFEST_NAMES as readonly string[]).includes(path.posix.basename(entry.name).toLowerCase())) || null;
+}
+
+// RFC 4180-ish: quoted cells may contain commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+function toManifestValue(column: string, value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+  if (LIST_COLUMNS.includes(column)) return trimmed.split(/[|;]/).map(part => part.trim()).filter(Boolean);
+  if (BOOLEAN_COLUMNS.includes(column)) return ['true', 'yes', 'y', '1'].includes(trimmed.toLowerCase());
+  if (NUMBER_COLUMNS.includes(column)) return Number(trimmed);
+  return trimmed;
+}
+
+/**
+ * Manifest rows keyed by the filename (or path inside the zip) they describe
+ */
+function parseManifest(name: string, text: string): Map<string, Record<string, any>> {
+  const rows = new Map<string, Record<string, any>>();
+  const add = (key: unknown, meta: unknown) => {
+    if (typeof key !== 'string' || !key.trim()) throw new Error('Every manifest entry needs a filename');
+    if (!meta || typeof meta !== 'object' || Array.isArray(meta)) throw new Error(`Manifest entry for ${key} must be an object`);
+    const { filename: _filename, file: _file, ...fields } = meta as Record<string, any>;
+    rows.set(key.trim().replace(/^\.?\//, ''), fields);
+  };
+
+  if (name.toLowerCase().endsWith('.csv')) {
+    const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+    const columns = (header || []).map(column => column.trim());
+    if (!columns.includes('filename')) throw new Error('manifest.csv needs a "filename" column');
+    for (const line of lines) {
+      const meta: Record<string, any> = {};
+      columns.forEach((column, i) => {
+        const value = toManifestValue(column, line[i] || '');
+        if (value !== undefined) meta[column] = value;
+      });
+      add(meta.filename, meta);
+    }
+    return rows;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`manifest.json is not valid JSON: ${error.message}`);
+  }
+  // Either [{ filename, ...metadata }] or { "<filename>": { ...metadata } }
+  if (Array.isArray(parsed)) parsed.forEach(meta => add(meta?.filename ?? meta?.file, meta));
+  else if (parsed && typeof parsed === 'object') Object.entries(parsed).forEach(([key, meta]) => add(key, meta));
+  else throw new Error('manifest.json must be an array or an object keyed by filename');
+  return rows;
+}
+
+/**
+ * Problems with the archive as a whole (not a zip, too many files, unreadable manifest), or null if
+ * it can be planned file by file
+ */
+export function validateMediaImportArchive(archive: Buffer): string | null {
+  try {
+    const entries = listZipEntries(archive).filter(entry => !isIgnoredEntry(entry));
+    const manifest = findManifest(entries);
+    const files = entries.filter(entry => entry !== manifest);
+    if (files.length === 0) return 'The archive has no files to import';
+    if (files.length > MEDIA_IMPORT_CONFIG.MAX_FILES) return `The archive has more than ${MEDIA_IMPORT_CONFIG.MAX_FILES} files`;
+    if (manifest) parseManifest(manifest.name, readZipEntry(archive, manifest, MEDIA_IMPORT_CONFIG.MAX_FILE_BYTES).toString('utf8'));
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+async function planImport(archive: Buffer, defaults: Record<string, any>) {
+  const entries = listZipEntries(archive).filter(entry => !isIgnoredEntry(entry));
+  const manifestEntry = findManifest(entries);
+  const manifest = manifestEntry
+    ? parseManifest(manifestEntry.name, readZipEntry(archive, manifestEntry, MEDIA_IMPORT_CONFIG.MAX_FILE_BYTES).toString('utf8'))
+    : new Map<string, Record<string, any>>();
+
+  const planned: PlannedItem[] = [];
+  const usedRows = new Set<string>();
+  const warnings: string[] = [];
+
+  for (const entry of entries) {
+    if (entry === manifestEntry) continue;
+    const filename = path.posix.basename(entry.name);
+    const rowKey = manifest.has(entry.name) ? entry.name : manifest.has(filename) ? filename : null;
+    if (rowKey) usedRows.add(rowKey);
+
+    const raw = { ...defaults, ...(rowKey ? manifest.get(rowKey) : {}) };
+    const item: MediaImportItem = {
+      entry: entry.name,
+      filename,
+      size: entry.size,
+      status: 'ready',
+      error: null,
+      fromManifest: !!rowKey,
+      width: null,
+      height: null,
+      metadata: null,
+      url: null
+    };
+    planned.push({ item, entry, raw });
+
+    const invalid = !IMPORT_IMAGE_PATTERN.test(filename)
+      ? 'Not a supported image type (jpg, png, gif, webp)'
+      : validateImageMetadataInput(raw);
+    if (invalid) {
+      item.status = 'invalid';
+      item.error = invalid;
+      continue;
+    }
+
+    try {
+      const info = await sharp(readZipEntry(archive, entry, MEDIA_IMPORT_CONFIG.MAX_FILE_BYTES), { limitInputPixels: IMAGE_PIPELINE_CONFIG.MAX_INPUT_PIXELS }).metadata();
+      if (!info.width || !info.height) throw new Error('Not a readable image');
+      item.width = info.width;
+      item.height = info.height;
+    } catch (error: any) {
+      item.status = 'invalid';
+      item.error = error.message;
+      continue;
+    }
+
+    // The metadata exactly as storeUploadedImage will save it, folder fallback included
+    const characterId = String(raw.characterId || 'other').toLowerCase();
+    const type = String(raw.type || 'other').toLowerCase();
+    item.metadata = normalizeImageMetadata(raw, getFolderFallback(`/uploads/characters/${characterId}/${type}/${filename}`));
+  }
+
+  manifest.forEach((_row, key) => {
+    if (!usedRows.has(key)) warnings.push(`Manifest lists ${key}, which is not in the archive`);
+  });
+  if (manifestEntry && manifest.size > 0 && usedRows.size === 0) warnings.push('No manifest entry matched a file in the archive');
+
+  return { planned, manifest: manifestEntry?.name || null, warnings };
+}
+
+function summarize(items: MediaImportItem[]): MediaImportResult['summary'] {
+  const summary = { total: items.length, ready: 0, invalid: 0, imported: 0, failed: 0 };
+  items.forEach(item => { summary[item.status]++; });
+  return summary;
+}
+
+/**
+ * Validates every file of the archive and, unless `dryRun`, imports the valid ones. `defaults` applies
+ * to every file and is overridden per file by the manifest. Invalid files are never imported.
+ */
+export async function importMediaArchive(
+  archive: Buffer,
+  options: { dryRun: boolean; defaults?: Record<string, any> }
+): Promise<MediaImportResult> {
+  const { planned, manifest, warnings } = await planImport(archive, options.defaults || {});
+
+  if (!options.dryRun) {
+    // One file at a time - every image runs through sharp and the server has other work to do
+    for (const { item, entry, raw } of planned) {
+      if (item.status !== 'ready') continue;
+      const tempPath = path.join(UPLOADS_DIR, `temp-import-${Date.now()}-${Math.random().toString(36).substring(7)}${path.extname(item.filename)}`);
+      try {
+        await fs.writeFile(tempPath, readZipEntry(archive, entry, MEDIA_IMPORT_CONFIG.MAX_FILE_BYTES));
+        const stored = await storeUploadedImage(tempPath, item.filename, raw);
+        item.status = 'imported';
+        item.url = stored.url;
+        item.metadata = stored.metadata;
+      } catch (error: any) {
+        await fs.unlink(tempPath).catch(() => {});
+        item.status = 'failed';
+        item.error = error.message;
+      }
+    }
+  }
+
+  const items = planned.map(({ item }) => item);
+  const summary = summarize(items);
+  console.log(`📦 [IMPORT] ${options.dryRun ? 'Dry run' : 'Import'}: ${summary.total} files, ${summary.ready} ready, ${summary.imported} imported, ${summary.invalid} invalid, ${summary.failed} failed`);
+  return { dryRun: options.dryRun, manifest, items, warnings, summary };
+}
+
+console.log(`✅ [IMPORT] Bulk media import loaded (max ${MEDIA_IMPORT_CONFIG.MAX_FILES} files, ${MEDIA_IMPORT_CONFIG.MAX_ARCHIVE_MB}MB)`);
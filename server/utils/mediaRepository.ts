@@ -0,0 +1,171 @@
+/**
+ * 🗂️ Media Repository
+ * The one module that finds uploaded images and reads or writes their metadata. Metadata lives only in
+ * progressive-data/images/<file>.meta.json, in the shape of shared/imageMetadata. The older copies in
+ * character-data/<char>/<type>/ and the mediaUploads table are no longer written; the
+ * migrate-image-metadata script folds them into this store.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import fileLock from './fileLock';
+import { IMAGE_PIPELINE_CONFIG } from './imagePipeline';
+import { IMAGE_PROCESSING_FIELDS, imageMetadataSchema, normalizeImageMetadata, pickImageProcessing, type ImageMetadata, type ImageProcessing } from '@shared/imageMetadata';
+
+export const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+export const METADATA_DIR = path.join(process.cwd(), 'main-gamedata', 'progressive-data', 'images');
+
+const IMAGE_FILE_PATTERN = /\.(jpg|jpeg|png|gif|webp)$/i;
+// characterId and type become upload folder names
+const FOLDER_NAME_PATTERN = /^[a-z0-9_-]+$/i;
+
+export interface MediaFile {
+  filename: string;
+  path: string;
+  filePath: string;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface MediaItem extends MediaFile {
+  metadata: ImageMetadata;
+}
+
+function getMetadataPath(filename: string): string {
+  return path.join(METADATA_DIR, `${path.basename(filename)}.meta.json`);
+}
+
+// uploads/characters/<character>/<type>/<file> - what the folder says when the metadata is silent
+export function getFolderFallback(webPath: string): Partial<ImageMetadata> {
+  const segments = webPath.split('?')[0].split('/');
+  const charactersIndex = segments.indexOf('characters');
+  if (charactersIndex === -1 || segments.length < charactersIndex + 3) return {};
+  const type = segments.length > charactersIndex + 3 ? segments[charactersIndex + 2] : undefined;
+  return { characterId: segments[charactersIndex + 1] || null, ...(type ? { type } : {}) };
+}
+
+async function collectImageFiles(dirPath: string, webBasePath: string, found: Map<string, string>) {
+  let entries;
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    // Generated WebP copies belong to their original and are never media of their own
+    if (entry.isDirectory() && entry.name === IMAGE_PIPELINE_CONFIG.VARIANTS_DIR) continue;
+    if (entry.isDirectory()) {
+      await collectImageFiles(path.join(dirPath, entry.name), `${webBasePath}/${entry.name}`, found);
+    } else if (IMAGE_FILE_PATTERN.test(entry.name)) {
+      found.set(entry.name, `${webBasePath}/${entry.name}`);
+    }
+  }
+}
+
+function toFilePath(webPath: string): string {
+  return path.join(UPLOADS_DIR, ...webPath.slice('/uploads/'.length).split('/'));
+}
+
+/**
+ * All images under uploads/characters/<id>/, keyed by filename with their /uploads web path
+ */
+export async function listCharacterMediaFiles(characterId: string): Promise<Map<string, string>> {
+  const charFolder = characterId.toLowerCase();
+  const files = new Map<string, string>();
+  await collectImageFiles(path.join(UPLOADS_DIR, 'characters', charFolder), `/uploads/characters/${charFolder}`, files);
+  return files;
+}
+
+/**
+ * Every uploaded image, anywhere under uploads/
+ */
+export async function listMediaFiles(): Promise<MediaFile[]> {
+  const found = new Map<string, string>();
+  await collectImageFiles(UPLOADS_DIR, '/uploads', found);
+
+  const files: MediaFile[] = [];
+  for (const [filename, webPath] of Array.from(found.entries())) {
+    const filePath = toFilePath(webPath);
+    try {
+      const stats = await fs.stat(filePath);
+      files.push({ filename, path: webPath, filePath, size: stats.size, uploadedAt: stats.birthtime.toISOString() });
+    } catch {}
+  }
+  return files;
+}
+
+export async function findMediaFile(filename: string): Promise<MediaFile | null> {
+  return (await listMediaFiles()).find(file => file.filename === filename) || null;
+}
+
+/**
+ * The stored .meta.json as written, or null when there is none (used by the migration to spot conflicts)
+ */
+export async function readStoredImageMetadata(filename: string): Promise<Record<string, any> | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(getMetadataPath(filename), 'utf8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Canonical metadata for an image, by /uploads path (folder fills in character/type) or bare filename
+ */
+export async function getImageMetadata(webPathOrFilename: string): Promise<ImageMetadata> {
+  const stored = await readStoredImageMetadata(path.basename(webPathOrFilename.split('?')[0]));
+  return normalizeImageMetadata(stored, getFolderFallback(webPathOrFilename));
+}
+
+export async function listMedia(): Promise<MediaItem[]> {
+  const files = await listMediaFiles();
+  return Promise.all(files.map(async file => ({ ...file, metadata: await getImageMetadata(file.path) })));
+}
+
+// Submitted metadata may use either spelling, but values have to make sense before they are coerced
+export function validateImageMetadataInput(raw: any): string | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'metadata must be an object';
+  const level = raw.unlockLevel ?? raw.levelRequired;
+  if (level !== undefined && !(Number.isInteger(Number(level)) && Number(level) >= 1)) return 'unlockLevel must be a whole number >= 1';
+  const percent = raw.chatSendPercent;
+  if (percent !== undefined && !(Number(percent) >= 0 && Number(percent) <= 100)) return 'chatSendPercent must be between 0 and 100';
+  if (raw.poses !== undefined && !Array.isArray(raw.poses)) return 'poses must be an array';
+  for (const key of ['characterId', 'type'] as const) {
+    if (raw[key] && !FOLDER_NAME_PATTERN.test(String(raw[key]))) return `${key} may only contain letters, numbers, - and _`;
+  }
+  return null;
+}
+
+/**
+ * Replaces an image's metadata with the canonical form of `raw`. Dimensions, variants and placeholder are
+ * the pipeline's: pass `processing` after generating them, otherwise the stored ones are kept.
+ */
+export async function saveImageMetadata(
+  filename: string,
+  raw: unknown,
+  fallback: Partial<ImageMetadata> = {},
+  processing?: ImageProcessing
+): Promise<ImageMetadata> {
+  const { updatedAt: _ignored, ...normalized } = normalizeImageMetadata(raw, fallback);
+  const editable: Partial<ImageMetadata> = { ...normalized };
+  IMAGE_PROCESSING_FIELDS.forEach(field => delete editable[field]);
+  const kept = processing ?? pickImageProcessing(await readStoredImageMetadata(filename) || {});
+  const metadata = imageMetadataSchema.parse({ ...editable, ...kept, updatedAt: new Date().toISOString() });
+
+  const filePath = getMetadataPath(filename);
+  await fs.mkdir(METADATA_DIR, { recursive: true });
+  await fileLock.withLock(filePath, async () => {
+    await fs.writeFile(filePath, JSON.stringify(metadata, null, 2), 'utf8');
+  });
+  return metadata;
+}
+
+export async function deleteImageMetadata(filename: string): Promise<void> {
+  const filePath = getMetadataPath(filename);
+  await fileLock.withLock(filePath, async () => {
+    await fs.unlink(filePath).catch(() => {});
+  });
+}
+
+console.log('✅ [MEDIA REPO] Media repository loaded');
@@ -0,0 +1,80 @@
+/**
+ * 📤 Media Upload
+ * What happens to an accepted image, for single uploads and bulk imports alike: it is moved into
+ * uploads/characters/<character>/<type>/, run through the image pipeline and given canonical metadata.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getFolderFallback, saveImageMetadata, UPLOADS_DIR } from './mediaRepository';
+import { processUploadedImage } from './imagePipeline';
+import { resolveUploadPath } from './mediaAccess';
+import type { ImageMetadata, ImageProcessing } from '@shared/imageMetadata';
+
+export interface StoredUpload {
+  url: string;
+  filename: string;
+  metadata: ImageMetadata;
+}
+
+// 📁 AUTO FOLDER ORGANIZATION HELPER - ✅ FIXED: uploads/characters/CHARACTERID/TYPE/
+export async function organizeImageFile(
+  tempPath: string,
+  originalFilename: string,
+  characterId: string,
+  type: string
+): Promise<string> {
+  try {
+    // ✅ Create organized folder structure: /uploads/characters/characterId/type/
+    const characterFolder = path.join(UPLOADS_DIR, 'characters', characterId.toLowerCase());
+    const typeFolder = path.join(characterFolder, type.toLowerCase());
+
+    // Create folders if they don't exist
+    await fs.mkdir(characterFolder, { recursive: true });
+    await fs.mkdir(typeFolder, { recursive: true });
+
+    // Generate unique filename
+    const timestamp = Date.now();
+    const ext = path.extname(originalFilename);
+    const uniqueFilename = `${timestamp}-${Math.random().toString(36).substring(7)}${ext}`;
+
+    const finalPath = path.join(typeFolder, uniqueFilename);
+
+    // Move file from temp to organized location
+    await fs.rename(tempPath, finalPath);
+
+    // ✅ Return web-accessible path with 'characters' folder
+    const webPath = `/uploads/characters/${characterId.toLowerCase()}/${type.toLowerCase()}/${uniqueFilename}`;
+    console.log(`📁 [ORGANIZE] File organized: ${webPath}`);
+
+    return webPath;
+  } catch (error) {
+    console.error('📁 [ORGANIZE] Failed:', error);
+    return `/uploads/${path.basename(tempPath)}`;
+  }
+}
+
+/**
+ * Organizes a temp file that already passed validation, generates its variants and saves its metadata.
+ * An image sharp cannot read is still kept, just without variants.
+ */
+export async function storeUploadedImage(tempPath: string, originalFilename: string, metadata: Record<string, any>): Promise<StoredUpload> {
+  const characterId = metadata.characterId || 'other';
+  const type = metadata.type || 'other';
+  const organizedPath = await organizeImageFile(tempPath, originalFilename, characterId, type);
+  const filename = path.basename(organizedPath);
+
+  // 🖼️ THUMBNAILS, WEBP AND PLACEHOLDER
+  const storedPath = resolveUploadPath(organizedPath);
+  let processing: ImageProcessing | undefined;
+  try {
+    if (storedPath) processing = await processUploadedImage(storedPath, organizedPath);
+  } catch (error: any) {
+    console.warn(`⚠️  [UPLOAD] Image processing failed for ${filename}: ${error.message}`);
+  }
+
+  const saved = await saveImageMetadata(filename, metadata, getFolderFallback(organizedPath), processing);
+  return { url: organizedPath, filename, metadata: saved };
+}
+
+console.log('✅ [MEDIA UPLOAD] Upload handling loaded');
@@ -0,0 +1,121 @@
+/**
+ * 💤 Offline Passive Income
+ * Pays passiveIncomeRate (LP/hour) for time elapsed since the player's accrual watermark,
+ * limited to a max offline window and a per-payout cap. The watermark (lastPassiveIncomeAt)
+ * only moves forward, so reloading never pays the same interval twice.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { GAME_CONSTANTS } from '../gameConfig';
+
+function readMasterPassiveIncomeCap(): number {
+  try {
+    const masterPath = path.join(process.cwd(), 'main-gamedata', 'master-data', 'player-master.json');
+    const master = JSON.parse(fs.readFileSync(masterPath, 'utf8'));
+    return Number(master?.defaultPlayerState?.passiveIncomeCap) || 10000;
+  } catch {
+    return 10000;
+  }
+}
+
+export const OFFLINE_INCOME_CONFIG = {
+  MAX_OFFLINE_HOURS: parseFloat(process.env.OFFLINE_INCOME_MAX_HOURS || '') || GAME_CONSTANTS.OFFLINE_INCOME_CAP_HOURS,
+  PAYOUT_CAP: parseInt(process.env.OFFLINE_INCOME_CAP || '', 10) || readMasterPassiveIncomeCap(),
+  MIN_ACCRUAL_SECONDS: 60, // avoids a state write on every request while the player is online
+  REPORT_MIN_SECONDS: parseInt(process.env.OFFLINE_INCOME_REPORT_MIN_SECONDS || '300', 10)
+} as const;
+
+export interface OfflineEarnings {
+  amount: number;
+  seconds: number;
+  from: string;
+  to: string;
+  passiveIncomeRate: number;
+  capped: boolean;
+}
+
+function toTime(value: any): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Accrues passive income into `data` (mutated) and returns what was paid, or null if nothing was due.
+ * Boost multipliers only apply to the part of the interval the boost was actually running.
+ */
+export function applyOfflineIncome(data: any, passiveIncomeRate: number, now: number = Date.now()): OfflineEarnings | null {
+  const from = toTime(data.lastPassiveIncomeAt) ?? toTime(data.updatedAt) ?? toTime(data.lastLogin);
+  if (from === null || from >= now) {
+    data.lastPassiveIncomeAt = new Date(now).toISOString();
+    return null;
+  }
+
+  const elapsedSeconds = (now - from) / 1000;
+  if (elapsedSeconds < OFFLINE_INCOME_CONFIG.MIN_ACCRUAL_SECONDS) return null;
+
+  if (passiveIncomeRate <= 0) {
+    data.lastPassiveIncomeAt = new Date(now).toISOString();
+    return null;
+  }
+
+  const maxSeconds = OFFLINE_INCOME_CONFIG.MAX_OFFLINE_HOURS * 3600;
+  const windowCapped = elapsedSeconds > maxSeconds;
+  const paidSeconds = Math.min(elapsedSeconds, maxSeconds);
+  const windowStart = now - paidSeconds * 1000;
+
+  let boostedSeconds = 0;
+  const boostEnd = toTime(data.boostExpiresAt || data.boostEndTime);
+  if (data.boostActive && boostEnd !== null && boostEnd > windowStart) {
+    boostedSeconds = (Math.min(boostEnd, now) - windowStart) / 1000;
+  }
+  const multiplier = data.boostMultiplier || 1;
+  const ratePerSecond = passiveIncomeRate / 3600;
+  const rawEarned = ratePerSecond * ((paidSeconds - boostedSeconds) + boostedSeconds * multiplier);
+
+  const amountCapped = rawEarned > OFFLINE_INCOME_CONFIG.PAYOUT_CAP;
+  const amount = Math.floor(Math.min(rawEarned, OFFLINE_INCOME_CONFIG.PAYOUT_CAP));
+  if (amount <= 0) return null; // keep the watermark so fractions keep accumulating
+
+  // Uncapped payouts only consume the time that produced whole LP; the fraction carries over
+  let watermark = now;
+  if (!windowCapped && !amountCapped) {
+    const consumedMs = (amount / rawEarned) * (now - from);
+    watermark = Math.min(now, Math.floor(from + consumedMs));
+  }
+
+  const newLP = Math.round((data.lustPoints || data.points || 0) + amount);
+  data.lustPoints = newLP;
+  data.points = newLP;
+  data.lastPassiveIncomeAt = new Date(watermark).toISOString();
+
+  return {
+    amount,
+    seconds: Math.round(paidSeconds),
+    from: new Date(from).toISOString(),
+    to: new Date(now).toISOString(),
+    passiveIncomeRate,
+    capped: windowCapped || amountCapped
+  };
+}
+
+/**
+ * Folds a payout into the pending "while you were away" report, which stays until the client acknowledges it
+ */
+export function recordOfflineEarningsReport(data: any, earnings: OfflineEarnings): void {
+  const pending: OfflineEarnings | null = data.offlineEarnings || null;
+  if (!pending && earnings.seconds < OFFLINE_INCOME_CONFIG.REPORT_MIN_SECONDS) return;
+
+  data.offlineEarnings = pending
+    ? {
+        ...earnings,
+        amount: pending.amount + earnings.amount,
+        seconds: pending.seconds + earnings.seconds,
+        from: pending.from,
+        capped: pending.capped || earnings.capped
+      }
+    : earnings;
+}
+
+console.log(`✅ [OFFLINE INCOME] Offline accrual loaded (max ${OFFLINE_INCOME_CONFIG.MAX_OFFLINE_HOURS}h, cap ${OFFLINE_INCOME_CONFIG.PAYOUT_CAP} LP)`);
@@ -0,0 +1,80 @@
+/**
+ * 🛡️ Player Field Policy
+ * Decides which player fields a request is allowed to write.
+ * Players may only touch display preferences; economy/progression fields are server-owned
+ * and can only be changed by game logic or through the admin override.
+ */
+
+import {
+  clientWritablePlayerSchema,
+  adminPlayerUpdateSchema,
+  CLIENT_WRITABLE_PLAYER_FIELDS,
+  SERVER_ONLY_PLAYER_FIELDS,
+} from '@shared/schema';
+import { isCharacterUnlocked } from './playerStateManager';
+
+// Character fields a player can only point at characters they have unlocked
+const CHARACTER_FIELDS = ['selectedCharacterId', 'activeCharacter'] as const;
+
+export type PlayerPatchResult =
+  | { ok: true; data: Record<string, any> }
+  | { ok: false; error: Record<string, any> };
+
+/**
+ * Validates a player-initiated patch against the player's current state. Returns a structured 400 body
+ * listing every offending key instead of silently dropping them, so tampered clients are visible.
+ */
+export function checkClientPlayerPatch(body: unknown, player: any): PlayerPatchResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, error: { error: 'Invalid player update', message: 'Request body must be an object' } };
+  }
+
+  const keys = Object.keys(body);
+  const serverOnlyFields = keys.filter(key => SERVER_ONLY_PLAYER_FIELDS.includes(key));
+  const unknownFields = keys.filter(key => !CLIENT_WRITABLE_PLAYER_FIELDS.includes(key) && !serverOnlyFields.includes(key));
+
+  if (serverOnlyFields.length > 0 || unknownFields.length > 0) {
+    return {
+      ok: false,
+      error: {
+        error: 'Forbidden player fields',
+        message: 'These fields cannot be changed by the client',
+        serverOnlyFields,
+        unknownFields,
+        allowedFields: CLIENT_WRITABLE_PLAYER_FIELDS,
+      },
+    };
+  }
+
+  const parsed = clientWritablePlayerSchema.safeParse(body);
+  if (!parsed.success) {
+    return { ok: false, error: { error: 'Invalid player update', details: parsed.error.flatten() } };
+  }
+
+  const lockedFields = CHARACTER_FIELDS.filter(field => {
+    const characterId = (parsed.data as Record<string, any>)[field];
+    return characterId !== undefined && !isCharacterUnlocked(player, characterId);
+  });
+  if (lockedFields.length > 0) {
+    return {
+      ok: false,
+      error: { error: 'Character is locked', message: 'Only unlocked characters can be selected', lockedFields },
+    };
+  }
+
+  return { ok: true, data: parsed.data };
+}
+
+/**
+ * Validates an admin override patch. Server-only fields are allowed, unknown keys are not.
+ */
+export function checkAdminPlayerPatch(body: unknown): PlayerPatchResult {
+  const parsed = adminPlayerUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return { ok: false, error: { error: 'Invalid admin player update', details: parsed.error.flatten() } };
+  }
+
+  return { ok: true, data: parsed.data };
+}
+
+console.log('✅ [PLAYER FIELD POLICY] Player update whitelist loaded');
@@ -0,0 +1,246 @@
+/**
+ * 📈 Player Task / Achievement Progress
+ * Keeps one progress row per offered task and active achievement, updated from gameplay events. Rows hold the
+ * counts of event-tracked requirements, latch completion (and unlock time) and reset with their task's
+ * daily/weekly period. They live in the player's progress.json and are mirrored to the
+ * playerTaskProgress / playerAchievementProgress tables in the background.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { storage } from '../storage';
+import fileLock from './fileLock';
+import { playerStateManager } from './playerStateManager';
+import { getTasksFromMemory, getAchievementsFromMemory } from './unifiedDataLoader';
+import { getResetBoundary, getTaskResetPeriod } from './resetScheduler';
+import { getRequirementProgress, applyGameEventToCounts, type RequirementProgress, type TrackedCounts } from './requirementRegistry';
+import { onAnyGameEvent, type GameEvent } from './gameEvents';
+import { getAvailableTasks } from './taskPools';
+
+export const PROGRESS_CONFIG = {
+  SYNC_INTERVAL_MS: parseInt(process.env.PROGRESS_SYNC_INTERVAL_MS || '30000', 10)
+} as const;
+
+export interface TaskProgressRow {
+  progress: number;
+  isCompleted: boolean;
+  isClaimed: boolean;
+  completedAt: string | null;
+  claimedAt: string | null;
+  lastResetAt: string;
+  updatedAt: string;
+  counts: TrackedCounts;
+}
+
+export interface AchievementProgressRow {
+  progress: number;
+  isUnlocked: boolean;
+  isClaimed: boolean;
+  unlockedAt: string | null;
+  claimedAt: string | null;
+  updatedAt: string;
+  counts: TrackedCounts;
+}
+
+export interface PlayerProgressFile {
+  tasks: Record<string, TaskProgressRow>;
+  achievements: Record<string, AchievementProgressRow>;
+}
+
+type PendingRow =
+  | { kind: 'task'; playerId: string; itemId: string; row: TaskProgressRow }
+  | { kind: 'achievement'; playerId: string; itemId: string; row: AchievementProgressRow };
+
+const pendingSync = new Map<string, PendingRow>();
+
+function isActive(item: any): boolean {
+  return !!item?.id && item.isActive !== false;
+}
+
+function toTime(value: any): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+async function getProgressFilePath(player: any): Promise<string> {
+  return path.join(await playerStateManager.getPlayerDirectory(player), 'progress.json');
+}
+
+async function readProgressFile(filePath: string): Promise<PlayerProgressFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    return { tasks: parsed?.tasks || {}, achievements: parsed?.achievements || {} };
+  } catch {
+    return { tasks: {}, achievements: {} };
+  }
+}
+
+function newTaskRow(now: number): TaskProgressRow {
+  const iso = new Date(now).toISOString();
+  return { progress: 0, isCompleted: false, isClaimed: false, completedAt: null, claimedAt: null, lastResetAt: iso, updatedAt: iso, counts: {} };
+}
+
+function newAchievementRow(now: number): AchievementProgressRow {
+  return { progress: 0, isUnlocked: false, isClaimed: false, unlockedAt: null, claimedAt: null, updatedAt: new Date(now).toISOString(), counts: {} };
+}
+
+// A row from before the task's last daily/weekly boundary counts as a fresh one
+function currentTaskRow(task: any, row: TaskProgressRow | undefined, now: number): TaskProgressRow {
+  if (!row) return newTaskRow(now);
+  const period = getTaskResetPeriod(task);
+  if (period && (toTime(row.lastResetAt) ?? 0) < getResetBoundary(period, now)) return newTaskRow(now);
+  return { ...row, counts: { ...row.counts } };
+}
+
+/**
+ * Progress shown to the player: the live requirement value plus the row's tracked counts,
+ * with completion latched once reached in the current period.
+ */
+export function resolveTaskProgress(task: any, playerState: any, row: TaskProgressRow | undefined, now: number = Date.now()): RequirementProgress {
+  const current = currentTaskRow(task, row, now);
+  const live = getRequirementProgress(task, playerState, 'task', current.counts);
+  return current.isCompleted ? { ...live, progress: live.target, isCompleted: true } : live;
+}
+
+export function resolveAchievementProgress(achievement: any, playerState: any, row: AchievementProgressRow | undefined): RequirementProgress {
+  const live = getRequirementProgress(achievement, playerState, 'achievement', row?.counts || {});
+  return row?.isUnlocked ? { ...live, progress: live.target, isCompleted: true } : live;
+}
+
+export async function getPlayerProgress(player: any): Promise<PlayerProgressFile> {
+  return readProgressFile(await getProgressFilePath(player));
+}
+
+function rowChanged(before: any, after: any): boolean {
+  return !before || JSON.stringify({ ...before, updatedAt: null }) !== JSON.stringify({ ...after, updatedAt: null });
+}
+
+/**
+ * Applies an event to every task currently offered to the player and every active achievement.
+ * Rows are only written for those and only when something changed.
+ */
+export async function recordGameEventProgress(player: any, event: GameEvent | null, playerState: any): Promise<void> {
+  const filePath = await getProgressFilePath(player);
+  const now = Date.now();
+  const iso = new Date(now).toISOString();
+  const changed: PendingRow[] = [];
+
+  await fileLock.withLock(filePath, async () => {
+    const file = await readProgressFile(filePath);
+
+    for (const task of getAvailableTasks(playerState, now)) {
+      const before = file.tasks[task.id];
+      const row = currentTaskRow(task, before, now);
+      if (event) applyGameEventToCounts(task, event, row.counts);
+      const live = getRequirementProgress(task, playerState, 'task', row.counts);
+      row.progress = row.isCompleted ? live.target : live.progress;
+      if (live.isCompleted && !row.isCompleted) {
+        row.isCompleted = true;
+        row.completedAt = iso;
+      }
+      row.isClaimed = (playerState.claimedTasks || []).includes(task.id);
+      if (!rowChanged(before, row)) continue;
+      row.updatedAt = iso;
+      file.tasks[task.id] = row;
+      changed.push({ kind: 'task', playerId: playerState.id, itemId: task.id, row });
+    }
+
+    for (const achievement of getAchievementsFromMemory().filter(isActive)) {
+      const before = file.achievements[achievement.id];
+      const row: AchievementProgressRow = before ? { ...before, counts: { ...before.counts } } : newAchievementRow(now);
+      if (event) applyGameEventToCounts(achievement, event, row.counts);
+      const live = getRequirementProgress(achievement, playerState, 'achievement', row.counts);
+      row.progress = row.isUnlocked ? live.target : live.progress;
+      if (live.isCompleted && !row.isUnlocked) {
+        row.isUnlocked = true;
+        row.unlockedAt = iso;
+      }
+      row.isClaimed = (playerState.claimedAchievements || []).includes(achievement.id);
+      if (!rowChanged(before, row)) continue;
+      row.updatedAt = iso;
+      file.achievements[achievement.id] = row;
+      changed.push({ kind: 'achievement', playerId: playerState.id, itemId: achievement.id, row });
+    }
+
+    if (changed.length > 0) {
+      await fs.writeFile(filePath, JSON.stringify(file, null, 2));
+    }
+  });
+
+  for (const entry of changed) {
+    if (entry.playerId) pendingSync.set(`${entry.kind}:${entry.playerId}:${entry.itemId}`, entry);
+  }
+}
+
+/**
+ * Marks a row as claimed right away, so the claim shows up without waiting for the next event
+ */
+export async function markProgressClaimed(player: any, kind: 'task' | 'achievement', itemId: string, playerState: any): Promise<void> {
+  const filePath = await getProgressFilePath(player);
+  const iso = new Date().toISOString();
+  await fileLock.withLock(filePath, async () => {
+    const file = await readProgressFile(filePath);
+    if (kind === 'task') {
+      const task = getTasksFromMemory().find((t: any) => t.id === itemId);
+      const row = currentTaskRow(task, file.tasks[itemId], Date.now());
+      file.tasks[itemId] = { ...row, isClaimed: true, claimedAt: iso, updatedAt: iso };
+      pendingSync.set(`task:${playerState.id}:${itemId}`, { kind, playerId: playerState.id, itemId, row: file.tasks[itemId] });
+    } else {
+      const row = file.achievements[itemId] || newAchievementRow(Date.now());
+      file.achievements[itemId] = { ...row, isClaimed: true, claimedAt: iso, updatedAt: iso };
+      pendingSync.set(`achievement:${playerState.id}:${itemId}`, { kind, playerId: playerState.id, itemId, row: file.achievements[itemId] });
+    }
+    await fs.writeFile(filePath, JSON.stringify(file, null, 2));
+  });
+}
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+// The JSON rows are the source of truth; the tables are a mirror for reporting, so failures are only logged
+async function flushProgressSync() {
+  if (pendingSync.size === 0) return;
+  const entries = Array.from(pendingSync.values());
+  pendingSync.clear();
+
+  let failed = 0;
+  let lastError = '';
+  for (const entry of entries) {
+    try {
+      if (entry.kind === 'task') {
+        await storage.upsertPlayerTaskProgress({
+          playerId: entry.playerId,
+          taskId: entry.itemId,
+          progress: Math.round(entry.row.progress),
+          isCompleted: entry.row.isCompleted,
+          isClaimed: entry.row.isClaimed,
+          completedAt: toDate(entry.row.completedAt),
+          claimedAt: toDate(entry.row.claimedAt),
+          lastResetAt: new Date(entry.row.lastResetAt)
+        });
+      } else {
+        await storage.upsertPlayerAchievementProgress({
+          playerId: entry.playerId,
+          achievementId: entry.itemId,
+          progress: Math.round(entry.row.progress),
+          isUnlocked: entry.row.isUnlocked,
+          isClaimed: entry.row.isClaimed,
+          unlockedAt: toDate(entry.row.unlockedAt),
+          claimedAt: toDate(entry.row.claimedAt)
+        });
+      }
+    } catch (e: any) {
+      failed++;
+      lastError = e.message;
+    }
+  }
+  if (failed > 0) {
+    console.warn(`⚠️ [PROGRESS] ${failed}/${entries.length} progress rows failed to sync: ${lastError}`);
+  }
+}
+
+setInterval(() => { flushProgressSync(); }, PROGRESS_CONFIG.SYNC_INTERVAL_MS).unref();
+
+onAnyGameEvent((player, event, state) => recordGameEventProgress(player, event, state));
+
+console.log(`✅ [PROGRESS] Task/achievement progress tracking loaded (DB sync every ${PROGRESS_CONFIG.SYNC_INTERVAL_MS / 1000}s)`);
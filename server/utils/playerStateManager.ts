@@ -1,7 +1,17 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { storage } from '../storage';
-import { getUpgradesFromMemory } from './unifiedDataLoader';
+import { getUpgradesFromMemory, getCharacterFromMemory } from './unifiedDataLoader';
+import { validateTapBatch, TAP_LIMITS, type TapBatch } from './tapValidator';
+import { applyPeriodicResets, RESET_CONFIG } from './resetScheduler';
+import { applyOfflineIncome, recordOfflineEarningsReport } from './offlineIncome';
+import { materializeEnergy } from './energyRegen';
+import fileLock from './fileLock';
+import { GAME_CONSTANTS } from '../gameConfig';
+import { resolveRewards, getBoostEffectUpdates } from './rewardResolver';
+import { applyAffectionGain, applyChatAffection, getAffectionStatus, AFFECTION_CONFIG } from './affection';
+import { getCharacterGiftMultiplier, getGiftCount, getGiftEffectUpdates, isBlockedByStrongerGift } from './gifts';
+import type { RewardSpec, RewardSummary } from '@shared/rewards';
 
 function resolvePlayerKey(player: any): string {
   if (player.telegramId && player.username) {
@@ -25,6 +35,7 @@ function calculateDerivedStats(playerUpgrades: Record<string, number>) {
   let energyMax = 1000;
   let energyRegenRate = 1;
   let passiveIncomeRate = 0;
+  let tapValue = 1;
   
   const energyMaxUpgrades = upgrades.filter(u => u.type === 'energyMax');
   energyMaxUpgrades.forEach(u => {
@@ -50,9 +61,87 @@ function calculateDerivedStats(playerUpgrades: Record<string, number>) {
     }
   });
   
-  console.log(`📊 [CALC STATS] energyMax: ${energyMax}, energyRegenRate: ${energyRegenRate}, passiveIncome: ${passiveIncomeRate}`);
+  // Mirrors calculateUpgradeValue() in shared/gameConfig so client and server agree on tap value
+  const tapUpgrades = upgrades.filter(u => u.type === 'perTap');
+  tapUpgrades.forEach(u => {
+    const level = playerUpgrades[u.id] || 0;
+    tapValue += (u.baseValue || 0) + (u.valueIncrement * level);
+  });
+  
+  // Crit chance is in percent points and capped so taps never crit every time
+  let critChance: number = GAME_CONSTANTS.BASE_CRIT_CHANCE;
+  let critMultiplier: number = GAME_CONSTANTS.BASE_CRIT_MULTIPLIER;
+  upgrades.filter(u => u.type === 'critChance').forEach(u => {
+    const level = playerUpgrades[u.id] || 0;
+    if (level > 0) {
+      critChance += (u.valueIncrement * level);
+    }
+  });
+  upgrades.filter(u => u.type === 'critMultiplier').forEach(u => {
+    const level = playerUpgrades[u.id] || 0;
+    if (level > 0) {
+      critMultiplier += (u.valueIncrement * level);
+    }
+  });
+  critChance = Math.min(GAME_CONSTANTS.MAX_CRIT_CHANCE, critChance);
   
-  return { energyMax, energyRegenRate, passiveIncomeRate };
+  console.log(`📊 [CALC STATS] energyMax: ${energyMax}, energyRegenRate: ${energyRegenRate}, passiveIncome: ${passiveIncomeRate}, tapValue: ${tapValue}, crit: ${critChance}% x${critMultiplier}`);
+  
+  return { energyMax, energyRegenRate, passiveIncomeRate, tapValue, critChance, critMultiplier };
+}
+
+/**
+ * Whether the player may use a character: unlocked explicitly (level-up rewards, gacha) or reached by level
+ */
+export function isCharacterUnlocked(player: any, characterId: string | null | undefined): boolean {
+  const character = characterId ? getCharacterFromMemory(characterId) : undefined;
+  if (!character) return false;
+  return (player.unlockedCharacters || []).includes(character.id) || (player.level || 1) >= (character.unlockLevel || 1);
+}
+
+export function getActiveBoostMultiplier(data: any, now: number = Date.now()): number {
+  const expiresAt = data.boostExpiresAt || data.boostEndTime;
+  if (!data.boostActive || !expiresAt) return 1;
+  return new Date(expiresAt).getTime() > now ? (data.boostMultiplier || 1) : 1;
+}
+
+// Clears a boost whose expiry has passed so clients never see a stale "active" flag. Mutates `data`.
+function expireBoostIfNeeded(data: any, now: number = Date.now()): boolean {
+  if (!data.boostActive) return false;
+  const expiresAt = data.boostExpiresAt || data.boostEndTime;
+  if (expiresAt && new Date(expiresAt).getTime() > now) return false;
+  
+  data.boostActive = false;
+  data.boostMultiplier = 1;
+  data.boostExpiresAt = null;
+  data.boostEndTime = null;
+  data.activeBoostId = null;
+  return true;
+}
+
+export interface PlayerMutation<T> {
+  updates: any | null;
+  result: T;
+}
+
+// Merges a partial update into a loaded player the way every state write does
+function mergePlayerUpdates(current: any, updates: any) {
+  const updated = { ...current, ...updates, updatedAt: new Date().toISOString() };
+  // PATCH SAFETY: preserve current.displayImage if not provided in update/patch
+  if (typeof updates.displayImage === 'undefined') {
+    updated.displayImage = current.displayImage;
+  }
+  ['points', 'lustPoints', 'lustGems', 'energy', 'energyMax', 'level', 'passiveIncomeRate', 'energyRegenRate', 'lastTapValue', 'totalTapsAllTime', 'totalTapsToday', 'lpEarnedToday', 'upgradesPurchasedToday', 'consecutiveDays', 'suspiciousTapBatches'].forEach(field => { 
+    if (typeof updated[field] === 'number') updated[field] = Math.round(updated[field]); 
+  }); 
+  return updated;
+}
+
+// Saves from before lpEarnedAllTime existed start from their current balance instead of the default 0. Mutates `data`.
+function seedAllTimeTotals(data: any): boolean {
+  if (data.lpEarnedAllTime !== undefined) return false;
+  data.lpEarnedAllTime = Math.round(data.lustPoints || data.points || 0);
+  return true;
 }
 
 class PlayerStateManager {
@@ -60,6 +149,7 @@ class PlayerStateManager {
   private syncQueue = new Map<string, any>();
   private syncInProgress = new Set<string>();
   private syncTimer: NodeJS.Timeout | null = null;
+  private resetSweepTimer: NodeJS.Timeout | null = null;
   private readonly SYNC_INTERVAL = 5000;
   private readonly DATA_DIR = path.join(process.cwd(), 'main-gamedata', 'player-data');
   public playerFolders: string[] = [];
@@ -68,6 +158,7 @@ class PlayerStateManager {
   
   constructor() {
     this.startSyncTimer();
+    this.startResetSweepTimer();
     this.ensureDataDirectory().then(() => this.scanAllPlayerFolders());
   }
   
@@ -103,6 +194,16 @@ class PlayerStateManager {
   private getPlayerFilePath(playerKey: string) {
     return path.join(this.DATA_DIR, playerKey, 'player-state.json');
   }
+
+  /**
+   * Folder holding the player's save - side files (chat history etc.) live next to player-state.json
+   */
+  async getPlayerDirectory(player: any): Promise<string> {
+    const playerKey = resolvePlayerKey(player);
+    const actualPlayerKey = (await this.findPlayerFolder(playerKey)) || playerKey;
+    await this.ensurePlayerDirectory(actualPlayerKey);
+    return path.join(this.DATA_DIR, actualPlayerKey);
+  }
   
   private createSafeDefaults() {
     return { 
@@ -117,20 +218,49 @@ class PlayerStateManager {
       level: 1, 
       passiveIncomeRate: 0, 
       energyRegenRate: 1,
+      critChance: 0,
+      critMultiplier: 2,
+      lastEnergyUpdate: null,
       lastTapValue: 1, 
       selectedCharacterId: 'aria',
       displayImage: null, 
       upgrades: {}, 
       unlockedCharacters: ['aria'],
+      unlockedUpgrades: [],
       totalTapsAllTime: 0, 
       totalTapsToday: 0, 
+      totalTapsThisWeek: 0,
       lpEarnedToday: 0, 
+      lpEarnedThisWeek: 0,
+      lpEarnedAllTime: 0,
+      characterTaps: {},
+      characterTapsToday: {},
+      characterTapsThisWeek: {},
+      characterAffection: {},
+      chatAffectionToday: {},
+      lastChatAt: null,
+      giftInventory: {},
+      characterGiftBoosts: {},
+      gachaBanners: {},
       upgradesPurchasedToday: 0, 
       consecutiveDays: 0, 
       isAdmin: false,
+      role: 'player',
+      isVip: false,
+      nsfwEnabled: false,
+      leaderboardOptOut: false,
       boostActive: false, 
       boostMultiplier: 1, 
       boostEndTime: null, 
+      boostExpiresAt: null,
+      activeBoostId: null,
+      lastPassiveIncomeAt: null,
+      offlineEarnings: null,
+      lastTapAt: null,
+      suspiciousTapBatches: 0,
+      lastLogin: null,
+      lastDailyReset: null,
+      lastWeeklyReset: null,
       claimedTasks: [], 
       claimedAchievements: [], 
       createdAt: new Date().toISOString(), 
@@ -155,7 +285,7 @@ class PlayerStateManager {
         sanitized[field] = new Date().toISOString();
       }
     });
-    ['points', 'lustPoints', 'lustGems', 'energy', 'energyMax', 'level', 'passiveIncomeRate', 'energyRegenRate', 'lastTapValue', 'totalTapsAllTime', 'totalTapsToday', 'lpEarnedToday', 'upgradesPurchasedToday', 'consecutiveDays', 'boostMultiplier'].forEach(f => { 
+    ['points', 'lustPoints', 'lustGems', 'energy', 'energyMax', 'level', 'passiveIncomeRate', 'energyRegenRate', 'lastTapValue', 'totalTapsAllTime', 'totalTapsToday', 'lpEarnedToday', 'upgradesPurchasedToday', 'consecutiveDays'].forEach(f => { 
       if (typeof sanitized[f] === 'number') sanitized[f] = Math.round(sanitized[f]); 
     });
     return sanitized;
@@ -176,7 +306,7 @@ class PlayerStateManager {
             try {
               const data = JSON.parse(await fs.readFile(jsonPath, 'utf8'));
               const templ = this.createSafeDefaults();
-              let repaired = false;
+              let repaired = seedAllTimeTotals(data);
               for (const key of Object.keys(templ)) {
                 if (!(key in data)) { 
                   data[key] = templ[key]; 
@@ -206,15 +336,26 @@ class PlayerStateManager {
     }
   }
   
-  async loadPlayer(player: any) {
+  private async resolvePlayerFile(player: any) {
     const playerKey = resolvePlayerKey(player);
     const existingFolder = await this.findPlayerFolder(playerKey);
     const actualPlayerKey = existingFolder || playerKey;
-    
+    await this.ensurePlayerDirectory(actualPlayerKey);
+    return { playerKey, actualPlayerKey, filePath: this.getPlayerFilePath(actualPlayerKey) };
+  }
+  
+  async loadPlayer(player: any) {
+    const { playerKey, actualPlayerKey, filePath } = await this.resolvePlayerFile(player);
     console.log(`🔍 [PLAYER LOAD] Looking for: ${playerKey}, Found: ${actualPlayerKey || 'NEW'}`);
     
-    await this.ensurePlayerDirectory(actualPlayerKey);
-    const filePath = this.getPlayerFilePath(actualPlayerKey);
+    // Serialized per file so parallel requests can't both pay out the same offline interval
+    const withDefaults = await fileLock.withLock(filePath, () => this.readPlayerFile(player, actualPlayerKey, filePath));
+    this.cache.set(actualPlayerKey, withDefaults);
+    return withDefaults;
+  }
+  
+  // Caller holds the file lock
+  private async readPlayerFile(player: any, actualPlayerKey: string, filePath: string) {
     let data: any;
     try {
       const fileContent = await fs.readFile(filePath, 'utf8');
@@ -225,6 +366,8 @@ class PlayerStateManager {
       data.energyMax = derived.energyMax;
       data.energyRegenRate = derived.energyRegenRate;
       data.passiveIncomeRate = derived.passiveIncomeRate;
+      data.critChance = derived.critChance;
+      data.critMultiplier = derived.critMultiplier;
       
       if (data.energy > data.energyMax) {
         data.energy = data.energyMax;
@@ -241,37 +384,149 @@ class PlayerStateManager {
       await fs.writeFile(filePath, JSON.stringify(data, null, 2));
       console.warn(`🌙 Luna: created new save file for ${actualPlayerKey}: ${e.message}`);
     }
-    const withDefaults = { ...this.createSafeDefaults(), ...data };
-    this.cache.set(actualPlayerKey, withDefaults);
-    return withDefaults;
+    const seededAllTime = seedAllTimeTotals(data);
+    const loaded = { ...this.createSafeDefaults(), ...data };
+    
+    const resets = applyPeriodicResets(loaded, { isLogin: true });
+    if (resets.changed) {
+      console.log(`🔄 [PLAYER LOAD] Resets for ${actualPlayerKey} - daily: ${resets.dailyReset}, weekly: ${resets.weeklyReset}, streak: ${loaded.consecutiveDays}`);
+    }
+    // Income is accrued before the boost expiry check so a boost that ended offline still counts for its share
+    const earnings = applyOfflineIncome(loaded, loaded.passiveIncomeRate || 0);
+    if (earnings) {
+      recordOfflineEarningsReport(loaded, earnings);
+      console.log(`💤 [PLAYER LOAD] Offline income for ${actualPlayerKey}: +${earnings.amount} LP over ${earnings.seconds}s${earnings.capped ? ' (capped)' : ''}`);
+    }
+    const boostExpired = expireBoostIfNeeded(loaded);
+    if (boostExpired) {
+      console.log(`⏱️ [PLAYER LOAD] Boost expired for ${actualPlayerKey}`);
+    }
+    if (resets.changed || earnings || boostExpired || seededAllTime) {
+      await fs.writeFile(filePath, JSON.stringify(loaded, null, 2));
+      this.queuePlayerSync(player, loaded);
+    }
+    
+    // Not persisted on its own - the stored (energy, lastEnergyUpdate) pair already determines this value
+    materializeEnergy(loaded);
+    return loaded;
   }
   
   async savePlayer(player: any, data: any) {
-    const playerKey = resolvePlayerKey(player);
-    const existingFolder = await this.findPlayerFolder(playerKey);
-    const actualPlayerKey = existingFolder || playerKey;
-    
+    const { actualPlayerKey, filePath } = await this.resolvePlayerFile(player);
     console.log(`💾 [PLAYER SAVE] Saving to key: ${actualPlayerKey}`);
-    
-    await this.ensurePlayerDirectory(actualPlayerKey);
-    
+    await fileLock.withLock(filePath, () => this.writePlayerFile(actualPlayerKey, filePath, data));
+  }
+  
+  /**
+   * Read, compute and write one player under the save file's lock, so no other request can write the
+   * player in between. `fn` gets the freshly loaded state and returns the fields to change (null writes
+   * nothing) plus a result for the caller; throwing aborts without writing. `fn` must not load or
+   * update the same player itself - the lock is not re-entrant.
+   */
+  async mutatePlayer<T>(player: any, fn: (current: any) => PlayerMutation<T> | Promise<PlayerMutation<T>>): Promise<{ player: any; result: T }> {
+    const { actualPlayerKey, filePath } = await this.resolvePlayerFile(player);
+    return fileLock.withLock(filePath, async () => {
+      const current = await this.readPlayerFile(player, actualPlayerKey, filePath);
+      const { updates, result } = await fn(current);
+      if (!updates) {
+        this.cache.set(actualPlayerKey, current);
+        return { player: current, result };
+      }
+      
+      const updated = mergePlayerUpdates(current, updates);
+      await this.writePlayerFile(actualPlayerKey, filePath, updated);
+      this.queuePlayerSync(player, updated);
+      return { player: updated, result };
+    });
+  }
+  
+  // Caller holds the file lock
+  private async writePlayerFile(actualPlayerKey: string, filePath: string, data: any) {
     const derived = calculateDerivedStats(data.upgrades || {});
     data.energyMax = derived.energyMax;
     data.energyRegenRate = derived.energyRegenRate;
     data.passiveIncomeRate = derived.passiveIncomeRate;
+    data.critChance = derived.critChance;
+    data.critMultiplier = derived.critMultiplier;
     
     if (data.energy > data.energyMax) {
       data.energy = data.energyMax;
     }
     
     const sanitizedData = this.sanitizeForDatabase(data);
-    const filePath = this.getPlayerFilePath(actualPlayerKey);
     await fs.writeFile(filePath, JSON.stringify(sanitizedData, null, 2));
     console.log(`✅ [PLAYER SAVE] Written to: ${filePath}`);
     console.log(`🖼️ [PLAYER SAVE] displayImage value: ${sanitizedData.displayImage}`);
     this.cache.set(actualPlayerKey, sanitizedData);
   }
   
+  private startResetSweepTimer() {
+    if (this.resetSweepTimer) clearInterval(this.resetSweepTimer);
+    this.resetSweepTimer = setInterval(async () => await this.sweepPeriodicResets(), RESET_CONFIG.SWEEP_INTERVAL_MS);
+  }
+  
+  // Idle players never hit loadPlayer, so their counters and streaks are rolled here
+  async sweepPeriodicResets() {
+    let folders: string[] = [];
+    try {
+      folders = await fs.readdir(this.DATA_DIR);
+    } catch (e: any) {
+      console.error('🔄 [RESET SWEEP] Could not read player data folder:', e.message);
+      return { scanned: 0, reset: 0 };
+    }
+    
+    let reset = 0;
+    for (const folder of folders) {
+      const filePath = this.getPlayerFilePath(folder);
+      try {
+        const changed = await fileLock.withLock(filePath, async () => {
+          const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+          if (!applyPeriodicResets(data, { isLogin: false }).changed) return false;
+          
+          await fs.writeFile(filePath, JSON.stringify(data, null, 2));
+          this.cache.set(folder, data);
+          this.syncQueue.set(folder, data);
+          return true;
+        });
+        if (changed) reset++;
+      } catch (e: any) {
+        if (e.code !== 'ENOENT' && e.code !== 'ENOTDIR') {
+          console.warn(`🔄 [RESET SWEEP] Skipped ${folder}: ${e.message}`);
+        }
+      }
+    }
+    
+    if (reset > 0) {
+      console.log(`🔄 [RESET SWEEP] Rolled counters for ${reset}/${folders.length} players`);
+    }
+    return { scanned: folders.length, reset };
+  }
+  
+  /**
+   * Every saved player-state.json as stored on disk (no resets or income applied). Unreadable files are skipped.
+   */
+  async readAllPlayerStates(): Promise<any[]> {
+    let folders: string[] = [];
+    try {
+      folders = await fs.readdir(this.DATA_DIR);
+    } catch (e: any) {
+      console.error('📂 [PLAYER SCAN] Could not read player data folder:', e.message);
+      return [];
+    }
+    
+    const states: any[] = [];
+    for (const folder of folders) {
+      try {
+        states.push(JSON.parse(await fs.readFile(this.getPlayerFilePath(folder), 'utf8')));
+      } catch (e: any) {
+        if (e.code !== 'ENOENT' && e.code !== 'ENOTDIR') {
+          console.warn(`📂 [PLAYER SCAN] Skipped ${folder}: ${e.message}`);
+        }
+      }
+    }
+    return states;
+  }
+  
   private startSyncTimer() { 
     if (this.syncTimer) clearInterval(this.syncTimer); 
     this.syncTimer = setInterval(async () => await this.processingSyncQueue(), this.SYNC_INTERVAL); 
@@ -338,6 +593,12 @@ class PlayerStateManager {
       console.log('⏸️ [PLAYER STATE] Stopped sync timer');
     }
     
+    if (this.resetSweepTimer) {
+      clearInterval(this.resetSweepTimer);
+      this.resetSweepTimer = null;
+      console.log('⏸️ [PLAYER STATE] Stopped reset sweep timer');
+    }
+    
     console.log('✅ [PLAYER STATE] Cleanup complete');
   }
   
@@ -346,6 +607,10 @@ class PlayerStateManager {
       clearInterval(this.syncTimer); 
       this.syncTimer = null; 
     } 
+    if (this.resetSweepTimer) {
+      clearInterval(this.resetSweepTimer);
+      this.resetSweepTimer = null;
+    }
   }
 }
 
@@ -355,18 +620,9 @@ export async function getPlayerState(player: any) {
   return await playerStateManager.loadPlayer(player); 
 }
 
+// Fixed updates only - anything computed from the current state belongs in playerStateManager.mutatePlayer
 export async function updatePlayerState(player: any, updates: any) { 
-  const current = await playerStateManager.loadPlayer(player); 
-  const updated = { ...current, ...updates, updatedAt: new Date().toISOString() };
-  // PATCH SAFETY: preserve current.displayImage if not provided in update/patch
-  if (typeof updates.displayImage === 'undefined') {
-    updated.displayImage = current.displayImage;
-  }
-  ['points', 'lustPoints', 'lustGems', 'energy', 'energyMax', 'level', 'passiveIncomeRate', 'energyRegenRate', 'lastTapValue', 'totalTapsAllTime', 'totalTapsToday', 'lpEarnedToday', 'upgradesPurchasedToday', 'consecutiveDays', 'boostMultiplier'].forEach(field => { 
-    if (typeof updated[field] === 'number') updated[field] = Math.round(updated[field]); 
-  }); 
-  await playerStateManager.savePlayer(player, updated); 
-  playerStateManager.queuePlayerSync(player, updated); 
+  const { player: updated } = await playerStateManager.mutatePlayer(player, () => ({ updates, result: null }));
   return updated; 
 }
 
@@ -402,21 +658,296 @@ export async function setDisplayImageForPlayer(player: any, path: string): Promi
 }
 
 export async function purchaseUpgradeForPlayer(player: any, upgradeId: string, level: number, cost: number) { 
-  const current = await playerStateManager.loadPlayer(player); 
-  const currentLP = Math.round(current.lustPoints || current.points || 0); 
-  if (currentLP < cost) throw new Error('Insufficient Lust Points'); 
-  const newUpgrades = { ...current.upgrades, [upgradeId]: level }; 
-  const newLP = Math.round(currentLP - cost); 
-  
-  const derived = calculateDerivedStats(newUpgrades);
-  
-  return await updatePlayerState(player, { 
-    upgrades: newUpgrades, 
-    lustPoints: newLP, 
-    points: newLP, 
-    upgradesPurchasedToday: Math.round((current.upgradesPurchasedToday || 0) + 1),
-    energyMax: derived.energyMax,
-    energyRegenRate: derived.energyRegenRate,
-    passiveIncomeRate: derived.passiveIncomeRate
-  }); 
+  const { player: updated } = await playerStateManager.mutatePlayer(player, (current) => {
+    const currentLP = Math.round(current.lustPoints || current.points || 0); 
+    if (currentLP < cost) throw new Error('Insufficient Lust Points'); 
+    const newUpgrades = { ...current.upgrades, [upgradeId]: level }; 
+    const newLP = Math.round(currentLP - cost); 
+    
+    const derived = calculateDerivedStats(newUpgrades);
+    
+    return {
+      updates: {
+        upgrades: newUpgrades, 
+        lustPoints: newLP, 
+        points: newLP, 
+        upgradesPurchasedToday: Math.round((current.upgradesPurchasedToday || 0) + 1),
+        energyMax: derived.energyMax,
+        energyRegenRate: derived.energyRegenRate,
+        passiveIncomeRate: derived.passiveIncomeRate,
+        critChance: derived.critChance,
+        critMultiplier: derived.critMultiplier
+      },
+      result: null
+    };
+  });
+  return updated;
+}
+
+function addCharacterTaps(counts: Record<string, number> | undefined, characterId: string | undefined, taps: number) {
+  const next = { ...(counts || {}) };
+  if (characterId) next[characterId] = (next[characterId] || 0) + taps;
+  return next;
+}
+
+/**
+ * Validates and applies one tap batch. Everything from reading `lastTapAt`/energy to writing the new totals
+ * happens under the player's lock, so overlapping batches can't overwrite each other's LP.
+ * `receivedAt` is when the request arrived - tap offsets are rebased on it, not on the time the lock is acquired.
+ */
+export async function processTapBatchForPlayer(player: any, batch: TapBatch, receivedAt: number = Date.now(), random: () => number = Math.random) {
+  const { player: updated, result } = await playerStateManager.mutatePlayer(player, (current) => {
+    const now = Date.now();
+    const lastTapAt = current.lastTapAt ? new Date(current.lastTapAt).getTime() : null;
+    const { accepted, reasons } = validateTapBatch(batch, lastTapAt, receivedAt);
+    
+    // Energy is checked against the server copy, never against what the client claims
+    const affordable = Math.max(0, Math.floor((current.energy || 0) / TAP_LIMITS.ENERGY_PER_TAP));
+    const applied = accepted.slice(0, affordable);
+    if (accepted.length > applied.length) {
+      reasons.noEnergy = accepted.length - applied.length;
+    }
+    
+    // A locked character (e.g. selected before the unlock checks existed) earns no affection, bonuses or progress
+    const characterId = isCharacterUnlocked(current, current.selectedCharacterId) ? current.selectedCharacterId : undefined;
+    const derived = calculateDerivedStats(current.upgrades || {});
+    const affectionMultiplier = characterId ? getAffectionStatus(current, characterId).tapMultiplier : 1;
+    const giftMultiplier = getCharacterGiftMultiplier(current, characterId, now);
+    const tapValue = Math.floor(derived.tapValue * getActiveBoostMultiplier(current, now) * affectionMultiplier * giftMultiplier);
+    
+    // Crits are rolled here, per applied tap, so the client only ever displays them.
+    // They are reported by offset so the client can match them to its own taps.
+    const critValue = Math.floor(tapValue * derived.critMultiplier);
+    const crits: { offset: number; value: number }[] = [];
+    for (const timestamp of applied) {
+      if (random() * 100 < derived.critChance) {
+        crits.push({ offset: receivedAt - timestamp, value: critValue });
+      }
+    }
+    const lpEarned = applied.length * tapValue + crits.length * (critValue - tapValue);
+    
+    // A client claiming more than the server computes, or spacing its own taps impossibly close, is flagged for review
+    const flagged = (batch.clientValue !== undefined && batch.clientValue > tapValue) || Boolean(reasons.tooFast);
+    if (flagged) {
+      console.warn(`⚠️ [TAPS] Suspicious batch from ${player.username}: clientValue=${batch.clientValue}, serverValue=${tapValue}, rejected=`, reasons);
+    }
+    
+    const result = {
+      characterId: characterId || null,
+      accepted: applied.length,
+      rejected: batch.count - applied.length,
+      reasons,
+      tapValue,
+      lpEarned,
+      crits,
+      flagged
+    };
+    
+    if (applied.length === 0 && !flagged) {
+      return { updates: null, result };
+    }
+    
+    const newLP = Math.round((current.lustPoints || current.points || 0) + lpEarned);
+    const updates: any = {
+      suspiciousTapBatches: (current.suspiciousTapBatches || 0) + (flagged ? 1 : 0)
+    };
+    
+    if (applied.length > 0) {
+      Object.assign(updates, {
+        lustPoints: newLP,
+        points: newLP,
+        energy: (current.energy || 0) - applied.length * TAP_LIMITS.ENERGY_PER_TAP,
+        lastTapValue: tapValue,
+        totalTapsToday: (current.totalTapsToday || 0) + applied.length,
+        totalTapsAllTime: (current.totalTapsAllTime || 0) + applied.length,
+        lpEarnedToday: (current.lpEarnedToday || 0) + lpEarned,
+        totalTapsThisWeek: (current.totalTapsThisWeek || 0) + applied.length,
+        lpEarnedThisWeek: (current.lpEarnedThisWeek || 0) + lpEarned,
+        lpEarnedAllTime: (current.lpEarnedAllTime || 0) + lpEarned,
+        // Character-specific requirements count taps made while that character was selected
+        characterTaps: addCharacterTaps(current.characterTaps, characterId, applied.length),
+        characterTapsToday: addCharacterTaps(current.characterTapsToday, characterId, applied.length),
+        characterTapsThisWeek: addCharacterTaps(current.characterTapsThisWeek, characterId, applied.length),
+        ...applyAffectionGain(current, characterId, applied.length * AFFECTION_CONFIG.POINTS_PER_TAP).updates,
+        lastTapAt: new Date(applied[applied.length - 1]).toISOString()
+      });
+    }
+    
+    return { updates, result };
+  });
+  return { ...result, player: updated };
+}
+
+/**
+ * Adds affection with a character for one chat message, within the chat cooldown and daily cap
+ * (taps and gifts add theirs inside their own state write). `counted` is false for a message sent
+ * during the cooldown, which must not count towards anything else either.
+ */
+export async function addChatAffectionForPlayer(player: any, characterId: string) {
+  const { player: updated, result } = await playerStateManager.mutatePlayer(player, (current) => {
+    const { counted, points, updates, reachedTiers } = applyChatAffection(current, characterId);
+    return { updates: counted ? updates : null, result: { counted, points, reachedTiers } };
+  });
+  const { counted, points, reachedTiers } = result;
+  if (reachedTiers.length > 0) {
+    console.log(`💞 [AFFECTION] ${player.username} reached ${reachedTiers.map(t => t.name || `level ${t.level}`).join(', ')} with ${characterId} (chat)`);
+  }
+  return { player: updated, affection: getAffectionStatus(updated, characterId), reachedTiers, counted, points };
+}
+
+export interface LevelUpRewardSummary extends RewardSummary {
+  level: number;
+  pointsSpent: number;
+  upgradeUnlocks: { id: string; name: string }[];
+  unlocks: string[];
+}
+
+/**
+ * Deducts the level cost and grants every configured reward in one state write.
+ * LP, gems, character unlocks (by id or display name) and `extraRewards` go through the shared
+ * reward resolver; already-owned characters are skipped.
+ */
+export async function applyLevelUpForPlayer(player: any, levelData: any) {
+  const { player: updated, result: summary } = await playerStateManager.mutatePlayer(player, (current) => {
+    // A second level-up request for the same level must not grant its rewards again
+    if ((current.level || 1) >= levelData.level) throw new Error('Level already reached');
+    const rewards = levelData.rewards || {};
+    const cost = levelData.cost || 100;
+    const currentLP = Math.round(current.lustPoints || current.points || 0);
+    if (currentLP < cost) throw new Error('Insufficient points');
+    
+    const upgrades = getUpgradesFromMemory();
+    const unlockedUpgrades: string[] = [...(current.unlockedUpgrades || [])];
+    const upgradeUnlocks: { id: string; name: string }[] = [];
+    for (const upgradeId of rewards.upgradeUnlocks || []) {
+      if (unlockedUpgrades.includes(upgradeId)) continue;
+      const upgrade = upgrades.find(u => u.id === upgradeId);
+      if (!upgrade) {
+        console.warn(`⚠️ [LEVEL UP] Level ${levelData.level} rewards unknown upgrade "${upgradeId}" - recording unlock anyway`);
+      }
+      unlockedUpgrades.push(upgradeId);
+      upgradeUnlocks.push({ id: upgradeId, name: upgrade?.name || upgradeId });
+    }
+    
+    const spec: RewardSpec = {
+      type: 'bundle',
+      rewards: [
+        { type: 'lp', amount: rewards.lustPoints || 0 },
+        { type: 'lg', amount: rewards.lustGems || 0 },
+        ...(rewards.characterUnlocks || []).map((ref: string): RewardSpec => ({ type: 'character', characterId: String(ref) })),
+        ...(rewards.extraRewards || [])
+      ]
+    };
+    const afterCost = Math.round(currentLP - cost);
+    const grant = resolveRewards({ ...current, lustPoints: afterCost, points: afterCost }, spec);
+    const newLP = grant.updates.lustPoints ?? afterCost;
+    
+    const summary: LevelUpRewardSummary = {
+      ...grant.summary,
+      level: levelData.level,
+      pointsSpent: cost,
+      upgradeUnlocks,
+      unlocks: levelData.unlocks || []
+    };
+    return {
+      updates: {
+        ...grant.updates,
+        level: levelData.level,
+        lustPoints: newLP,
+        points: newLP,
+        unlockedUpgrades
+      },
+      result: summary
+    };
+  });
+  
+  console.log(`🎉 [LEVEL UP] ${player.username} reached level ${levelData.level}:`, summary);
+  return { player: updated, rewards: summary };
+}
+
+/**
+ * Spends lustGems and applies a boost's timed multiplier and/or instant effects in one write.
+ * A second timed boost while one is running is refused here, under the player's lock; callers
+ * check it first only to answer with a proper status.
+ */
+export async function activateBoostForPlayer(player: any, boost: any) {
+  const cost = Math.round(boost.cost || 0);
+  const { player: updated, result } = await playerStateManager.mutatePlayer(player, (current) => {
+    if ((current.lustGems || 0) < cost) throw new Error('Insufficient Lust Gems');
+    
+    const energyMax = current.energyMax || calculateDerivedStats(current.upgrades || {}).energyMax;
+    const { updates: effect, isTimed, expiresAt } = getBoostEffectUpdates({ ...current, energyMax }, boost);
+    if (isTimed && getActiveBoostMultiplier(current) > 1) throw new Error('A boost is already active');
+    
+    return {
+      updates: {
+        ...effect,
+        lustGems: Math.round((current.lustGems || 0) - cost)
+      },
+      result: { isTimed, expiresAt }
+    };
+  });
+  const { isTimed, expiresAt } = result;
+  console.log(`🚀 [BOOST] ${player.username} activated ${boost.id} (cost ${cost} LG, multiplier ${isTimed ? boost.multiplier : 1}x, refill ${Boolean(boost.energyRefill)})`);
+  
+  return {
+    player: updated,
+    activation: {
+      boostId: boost.id,
+      multiplier: isTimed ? boost.multiplier : 1,
+      expiresAt,
+      energyRefilled: Boolean(boost.energyRefill),
+      gemsSpent: cost
+    }
+  };
+}
+
+/**
+ * Spends lustGems on `quantity` copies of a gift and adds them to the gift inventory.
+ */
+export async function buyGiftForPlayer(player: any, gift: any, quantity: number) {
+  const cost = Math.round((gift.cost || 0) * quantity);
+  const { player: updated, result: owned } = await playerStateManager.mutatePlayer(player, (current) => {
+    if ((current.lustGems || 0) < cost) throw new Error('Insufficient Lust Gems');
+    
+    const owned = getGiftCount(current, gift.id) + quantity;
+    return {
+      updates: {
+        lustGems: Math.round((current.lustGems || 0) - cost),
+        giftInventory: { ...(current.giftInventory || {}), [gift.id]: owned }
+      },
+      result: owned
+    };
+  });
+  console.log(`🎁 [GIFT] ${player.username} bought ${quantity}x ${gift.id} (cost ${cost} LG)`);
+  return { player: updated, purchase: { giftId: gift.id, quantity, owned, gemsSpent: cost } };
+}
+
+/**
+ * Takes one gift out of the inventory and applies its effects to the character in one write.
+ * Callers are expected to check that the character accepts the gift; inventory and stronger-boost checks
+ * are repeated here under the player's lock.
+ */
+export async function giveGiftForPlayer(player: any, gift: any, characterId: string) {
+  const { player: updated, result } = await playerStateManager.mutatePlayer(player, (current) => {
+    const owned = getGiftCount(current, gift.id);
+    if (owned < 1) throw new Error('Gift not in inventory');
+    if (isBlockedByStrongerGift(current, gift, characterId)) throw new Error('A stronger gift multiplier is already active for this character');
+    
+    const { updates, summary, reachedTiers } = getGiftEffectUpdates(current, gift, characterId);
+    return {
+      updates: {
+        ...updates,
+        giftInventory: { ...(current.giftInventory || {}), [gift.id]: owned - 1 }
+      },
+      result: { summary, reachedTiers }
+    };
+  });
+  const { summary, reachedTiers } = result;
+  
+  console.log(`🎁 [GIFT] ${player.username} gave ${gift.id} to ${characterId}:`, summary);
+  if (reachedTiers.length > 0) {
+    console.log(`💞 [AFFECTION] ${player.username} reached ${reachedTiers.map(t => t.name || `level ${t.level}`).join(', ')} with ${characterId} (gift)`);
+  }
+  return { player: updated, gift: summary, affection: getAffectionStatus(updated, characterId), reachedTiers };
 }
@@ -0,0 +1,392 @@
+/**
+ * 🎯 Requirement Registry
+ * Tasks and achievements name a requirement type; every type is registered here with the player counters
+ * it reads, the params admins may set (e.g. a character) and how its value is read from a player state.
+ * Unregistered types are rejected when content is saved instead of silently never progressing.
+ * Requirements can be combined with { all: [...] } / { any: [...] }.
+ * Types with `track` are counted from gameplay events into the player's progress rows instead of
+ * reading a player field, so new goals don't need a new column.
+ */
+
+import { getCharacterFromMemory } from './unifiedDataLoader';
+import { getTaskResetPeriod, type ResetPeriod } from './resetScheduler';
+import type { GameEvent, GameEventOf, GameEventType } from './gameEvents';
+import { getAffectionStatus } from './affection';
+import {
+  getRequirementNode,
+  isCompositeRequirement,
+  isRequirementLeaf,
+  type RequirementKind,
+  type RequirementLeaf,
+  type RequirementNode,
+  type RequirementParamSpec,
+  type RequirementTypeDescriptor
+} from '@shared/requirements';
+
+export const REQUIREMENT_CONFIG = {
+  MAX_DEPTH: 3, // nesting levels allowed in composite requirements
+  MAX_CONDITIONS: 10 // children per all/any group
+} as const;
+
+export interface RequirementContext {
+  kind: RequirementKind;
+  // Reset period of the task; null for one-time tasks and achievements
+  period: ResetPeriod | null;
+  params: Record<string, any>;
+  // Event-counted value of this requirement from the progress row (tracked types only)
+  tracked: number;
+}
+
+type EventTrackers = { [K in GameEventType]?: (event: GameEventOf<K>, params: Record<string, any>) => number };
+
+// Counts of tracked requirements keyed by leaf path ('' for a single requirement, '0', '1.0', ... in groups)
+export type TrackedCounts = Record<string, number>;
+
+export interface RequirementDefinition {
+  type: string;
+  label: string;
+  description: string;
+  kinds: RequirementKind[];
+  counters: string[];
+  params?: RequirementParamSpec[];
+  minTarget?: number;
+  maxTarget?: number;
+  // Older spellings found in existing content
+  aliases?: string[];
+  // How much each gameplay event adds to the requirement's count
+  track?: EventTrackers;
+  getValue(player: any, context: RequirementContext): number;
+}
+
+export interface RequirementProgress {
+  progress: number;
+  target: number;
+  isCompleted: boolean;
+}
+
+const definitions = new Map<string, RequirementDefinition>();
+const warnedTypes = new Set<string>();
+
+export function registerRequirement(definition: RequirementDefinition) {
+  for (const name of [definition.type, ...(definition.aliases || [])]) {
+    if (definitions.has(name)) {
+      console.warn(`⚠️ [REQUIREMENTS] Overriding requirement type "${name}"`);
+    }
+    definitions.set(name, definition);
+  }
+}
+
+export function getRequirementDefinition(type: string): RequirementDefinition | undefined {
+  return definitions.get(type);
+}
+
+/**
+ * Registered types (aliases excluded), optionally only those usable for one kind of content
+ */
+export function listRequirementTypes(kind?: RequirementKind): RequirementTypeDescriptor[] {
+  const unique = new Set(definitions.values());
+  return Array.from(unique)
+    .filter(def => !kind || def.kinds.includes(kind))
+    .map(def => ({
+      type: def.type,
+      label: def.label,
+      description: def.description,
+      kinds: def.kinds,
+      counters: def.counters,
+      events: Object.keys(def.track || {}),
+      params: def.params || [],
+      minTarget: def.minTarget ?? 1,
+      maxTarget: def.maxTarget ?? null
+    }));
+}
+
+function validateNode(node: any, kind: RequirementKind, depth: number): string | null {
+  if (depth > REQUIREMENT_CONFIG.MAX_DEPTH) return `Requirements can be nested at most ${REQUIREMENT_CONFIG.MAX_DEPTH} levels deep`;
+
+  if (isCompositeRequirement(node)) {
+    const children: any[] = 'all' in node ? node.all : node.any;
+    if (children.length === 0) return 'A combined requirement needs at least one condition';
+    if (children.length > REQUIREMENT_CONFIG.MAX_CONDITIONS) return `A combined requirement can have at most ${REQUIREMENT_CONFIG.MAX_CONDITIONS} conditions`;
+    for (const child of children) {
+      const error = validateNode(child, kind, depth + 1);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (!isRequirementLeaf(node) || !node.type) return 'requirementType is required';
+  const definition = definitions.get(node.type);
+  if (!definition) return `Unknown requirement type "${node.type}"`;
+  if (!definition.kinds.includes(kind)) return `Requirement type "${node.type}" cannot be used for ${kind}s`;
+
+  const minTarget = definition.minTarget ?? 1;
+  if (typeof node.target !== 'number' || !Number.isFinite(node.target) || node.target < minTarget) {
+    return `"${node.type}" target must be a number of at least ${minTarget}`;
+  }
+  if (definition.maxTarget !== undefined && node.target > definition.maxTarget) {
+    return `"${node.type}" target cannot exceed ${definition.maxTarget}`;
+  }
+
+  const params = node.params || {};
+  for (const spec of definition.params || []) {
+    const value = params[spec.name];
+    if (value === undefined || value === null || value === '') {
+      if (spec.required) return `"${node.type}" requires ${spec.label}`;
+      continue;
+    }
+    if (spec.input === 'character' && !getCharacterFromMemory(String(value))) {
+      return `Unknown character "${value}" for ${spec.label}`;
+    }
+  }
+  const unknownParam = Object.keys(params).find(name => !(definition.params || []).some(spec => spec.name === name));
+  if (unknownParam) return `"${node.type}" does not take a "${unknownParam}" parameter`;
+  return null;
+}
+
+/**
+ * Validates the requirement of a task/achievement before it is saved. Returns an error message or null.
+ */
+export function validateRequirementConfig(item: any, kind: RequirementKind): string | null {
+  return validateNode(getRequirementNode(item), kind, 1);
+}
+
+type EvaluationContext = Omit<RequirementContext, 'params' | 'tracked'> & { counts: TrackedCounts };
+
+function forEachLeaf(node: RequirementNode, visit: (leaf: RequirementLeaf, path: string) => void, path = '') {
+  if (isCompositeRequirement(node)) {
+    const children = 'all' in node ? node.all : node.any;
+    children.forEach((child, index) => forEachLeaf(child, visit, path ? `${path}.${index}` : String(index)));
+  } else if (isRequirementLeaf(node)) {
+    visit(node, path);
+  }
+}
+
+function readLeafValue(node: RequirementLeaf, path: string, player: any, context: EvaluationContext): number {
+  const definition = definitions.get(node.type);
+  if (!definition) {
+    if (!warnedTypes.has(node.type)) {
+      warnedTypes.add(node.type);
+      console.warn(`⚠️ [REQUIREMENTS] Unknown requirement type "${node.type}" - it will never progress`);
+    }
+    return 0;
+  }
+  const { counts, ...rest } = context;
+  return definition.getValue(player, { ...rest, params: node.params || {}, tracked: counts[path] || 0 }) || 0;
+}
+
+function isNodeCompleted(node: RequirementNode, path: string, player: any, context: EvaluationContext): boolean {
+  if (isCompositeRequirement(node)) {
+    const children = 'all' in node ? node.all : node.any;
+    const childPath = (index: number) => path ? `${path}.${index}` : String(index);
+    return 'all' in node
+      ? children.every((child, index) => isNodeCompleted(child, childPath(index), player, context))
+      : children.some((child, index) => isNodeCompleted(child, childPath(index), player, context));
+  }
+  return isRequirementLeaf(node) && readLeafValue(node, path, player, context) >= node.target;
+}
+
+/**
+ * Progress of a task or achievement for a player. Single requirements report their value capped at the
+ * target; combined ones report how many conditions pass (AND) or whether any passes (OR).
+ * `counts` are the tracked counts from the player's progress row for this item.
+ */
+export function getRequirementProgress(item: any, player: any, kind: RequirementKind, counts: TrackedCounts = {}): RequirementProgress {
+  const node = getRequirementNode(item);
+  const context: EvaluationContext = { kind, period: kind === 'task' ? getTaskResetPeriod(item) : null, counts };
+
+  if (isCompositeRequirement(node)) {
+    const children = 'all' in node ? node.all : node.any;
+    const passed = children.filter((child, index) => isNodeCompleted(child, String(index), player, context)).length;
+    const target = 'all' in node ? children.length : 1;
+    const progress = Math.min(passed, target);
+    return { progress, target, isCompleted: progress >= target };
+  }
+
+  const target = isRequirementLeaf(node) ? node.target : 0;
+  const progress = isRequirementLeaf(node) ? Math.min(readLeafValue(node, '', player, context), target) : 0;
+  return { progress, target, isCompleted: target > 0 && progress >= target };
+}
+
+/**
+ * Adds a gameplay event to the tracked counts of an item's requirements. Mutates `counts`;
+ * returns whether anything changed.
+ */
+export function applyGameEventToCounts(item: any, event: GameEvent, counts: TrackedCounts): boolean {
+  let changed = false;
+  forEachLeaf(getRequirementNode(item), (leaf, path) => {
+    const tracker = definitions.get(leaf.type)?.track?.[event.type] as ((event: GameEvent, params: Record<string, any>) => number) | undefined;
+    const amount = tracker ? tracker(event, leaf.params || {}) : 0;
+    if (amount > 0) {
+      counts[path] = (counts[path] || 0) + amount;
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+// Picks the counter matching the task's reset period; achievements and one-time tasks use the lifetime value
+function periodCounter(player: any, period: ResetPeriod | null, fields: { daily: string; weekly: string; allTime: string }): number {
+  const field = period === 'daily' ? fields.daily : period === 'weekly' ? fields.weekly : fields.allTime;
+  return Number(player[field]) || 0;
+}
+
+const CHARACTER_PARAM: RequirementParamSpec = { name: 'characterId', label: 'Character', input: 'character', required: false };
+
+registerRequirement({
+  type: 'tapCount',
+  label: 'Taps',
+  description: 'Taps in the reset period (lifetime for achievements), optionally only while a character is selected',
+  kinds: ['task', 'achievement'],
+  counters: ['totalTapsToday', 'totalTapsThisWeek', 'totalTapsAllTime', 'characterTapsToday', 'characterTapsThisWeek', 'characterTaps'],
+  params: [CHARACTER_PARAM],
+  getValue: (player, { period, params }) => {
+    if (params.characterId) {
+      const byCharacter = period === 'daily' ? player.characterTapsToday : period === 'weekly' ? player.characterTapsThisWeek : player.characterTaps;
+      return Number(byCharacter?.[params.characterId]) || 0;
+    }
+    return periodCounter(player, period, { daily: 'totalTapsToday', weekly: 'totalTapsThisWeek', allTime: 'totalTapsAllTime' });
+  }
+});
+
+registerRequirement({
+  type: 'lpEarned',
+  label: 'LP earned from taps',
+  description: 'Lust Points earned by tapping in the reset period (lifetime for achievements)',
+  kinds: ['task', 'achievement'],
+  counters: ['lpEarnedToday', 'lpEarnedThisWeek', 'lpEarnedAllTime'],
+  aliases: ['lpEarnedToday', 'lpEarnedWeek'],
+  getValue: (player, { period }) =>
+    periodCounter(player, period, { daily: 'lpEarnedToday', weekly: 'lpEarnedThisWeek', allTime: 'lpEarnedAllTime' })
+});
+
+registerRequirement({
+  type: 'upgradesPurchased',
+  label: 'Upgrades bought today',
+  description: 'Upgrade levels bought since the last daily reset',
+  kinds: ['task'],
+  counters: ['upgradesPurchasedToday'],
+  aliases: ['upgradesPurchasedToday'],
+  getValue: player => Number(player.upgradesPurchasedToday) || 0
+});
+
+registerRequirement({
+  type: 'energyEfficiency',
+  label: 'Energy kept (%)',
+  description: 'Current energy as a percentage of max energy',
+  kinds: ['task'],
+  counters: ['energy', 'energyMax'],
+  maxTarget: 100,
+  getValue: player => player.energyMax ? Math.round(((player.energy || 0) / player.energyMax) * 100) : 0
+});
+
+registerRequirement({
+  type: 'lpTotal',
+  label: 'LP balance',
+  description: 'Current Lust Points balance',
+  kinds: ['task', 'achievement'],
+  counters: ['lustPoints'],
+  getValue: player => Number(player.lustPoints || player.points) || 0
+});
+
+registerRequirement({
+  type: 'upgradeCount',
+  label: 'Different upgrades owned',
+  description: 'Number of upgrades with at least one level',
+  kinds: ['task', 'achievement'],
+  counters: ['upgrades'],
+  getValue: player => Object.values(player.upgrades || {}).filter((level: any) => Number(level) > 0).length
+});
+
+registerRequirement({
+  type: 'upgradesTotal',
+  label: 'Total upgrade levels',
+  description: 'Sum of all upgrade levels',
+  kinds: ['task', 'achievement'],
+  counters: ['upgrades'],
+  getValue: player => Object.values(player.upgrades || {}).reduce((sum: number, level: any) => sum + (Number(level) || 0), 0)
+});
+
+registerRequirement({
+  type: 'charactersUnlocked',
+  label: 'Characters unlocked',
+  description: 'Number of unlocked characters',
+  kinds: ['task', 'achievement'],
+  counters: ['unlockedCharacters'],
+  aliases: ['characterUnlocked'],
+  getValue: player => (player.unlockedCharacters || []).length
+});
+
+registerRequirement({
+  type: 'affectionLevel',
+  label: 'Affection level',
+  description: 'Affection tier reached with a character (the highest across characters if none is chosen)',
+  kinds: ['task', 'achievement'],
+  counters: ['characterAffection'],
+  params: [CHARACTER_PARAM],
+  getValue: (player, { params }) => {
+    const ids = params.characterId ? [params.characterId] : Object.keys(player.characterAffection || {});
+    return Math.max(0, ...ids.map(id => getAffectionStatus(player, id).level));
+  }
+});
+
+registerRequirement({
+  type: 'level',
+  label: 'Player level',
+  description: 'Current player level',
+  kinds: ['task', 'achievement'],
+  counters: ['level'],
+  aliases: ['levelReached'],
+  getValue: player => Number(player.level) || 1
+});
+
+registerRequirement({
+  type: 'consecutiveDays',
+  label: 'Login streak (days)',
+  description: 'Consecutive days with a login',
+  kinds: ['task', 'achievement'],
+  counters: ['consecutiveDays'],
+  getValue: player => Number(player.consecutiveDays) || 0
+});
+
+registerRequirement({
+  type: 'critHits',
+  label: 'Critical hits',
+  description: 'Critical taps rolled in the reset period (lifetime for achievements)',
+  kinds: ['task', 'achievement'],
+  counters: [],
+  track: { tap: event => event.crits },
+  getValue: (_player, { tracked }) => tracked
+});
+
+registerRequirement({
+  type: 'chatMessages',
+  label: 'Chat messages',
+  description: 'Chat messages sent, optionally only to one character',
+  kinds: ['task', 'achievement'],
+  counters: [],
+  params: [CHARACTER_PARAM],
+  track: { chatMessage: (event, params) => (!params.characterId || params.characterId === event.characterId ? 1 : 0) },
+  getValue: (_player, { tracked }) => tracked
+});
+
+registerRequirement({
+  type: 'boostsUsed',
+  label: 'Boosts used',
+  description: 'Boosts activated in the reset period (lifetime for achievements)',
+  kinds: ['task', 'achievement'],
+  counters: [],
+  track: { boostUsed: () => 1 },
+  getValue: (_player, { tracked }) => tracked
+});
+
+registerRequirement({
+  type: 'levelUps',
+  label: 'Levels gained',
+  description: 'Level-ups in the reset period',
+  kinds: ['task'],
+  counters: [],
+  track: { levelUp: () => 1 },
+  getValue: (_player, { tracked }) => tracked
+});
+
+console.log(`✅ [REQUIREMENTS] Requirement registry loaded (${listRequirementTypes().length} types)`);
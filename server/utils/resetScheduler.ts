@@ -0,0 +1,182 @@
+/**
+ * 🔄 Daily / Weekly Reset Scheduler
+ * Rolls per-player "today" counters, repeatable task claims and the login streak
+ * at a configurable wall-clock time (RESET_TIMEZONE / RESET_HOUR / RESET_WEEKLY_DAY).
+ * Resets are applied lazily on player load and by a periodic sweep for idle players.
+ */
+
+import { getTasksFromMemory } from './unifiedDataLoader';
+
+export type ResetPeriod = 'daily' | 'weekly';
+
+function resolveTimezone(tz: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return tz;
+  } catch {
+    console.warn(`⚠️ [RESET] Unknown RESET_TIMEZONE "${tz}", falling back to UTC`);
+    return 'UTC';
+  }
+}
+
+export const RESET_CONFIG = {
+  TIMEZONE: resolveTimezone(process.env.RESET_TIMEZONE || 'UTC'),
+  HOUR: Math.min(23, Math.max(0, parseInt(process.env.RESET_HOUR || '0', 10) || 0)),
+  WEEKLY_DAY: Math.min(6, Math.max(0, parseInt(process.env.RESET_WEEKLY_DAY || '1', 10) || 0)), // 0 = Sunday, 1 = Monday
+  SWEEP_INTERVAL_MS: parseInt(process.env.RESET_SWEEP_INTERVAL_MS || '900000', 10) // 15 minutes
+} as const;
+
+const DAILY_COUNTERS = ['totalTapsToday', 'lpEarnedToday', 'upgradesPurchasedToday'] as const;
+const WEEKLY_COUNTERS = ['totalTapsThisWeek', 'lpEarnedThisWeek'] as const;
+// Per-character counters (characterId -> count) are cleared rather than zeroed
+const DAILY_COUNTER_MAPS = ['characterTapsToday', 'chatAffectionToday'] as const;
+const WEEKLY_COUNTER_MAPS = ['characterTapsThisWeek'] as const;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const zonedFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: RESET_CONFIG.TIMEZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+  weekday: 'short'
+});
+
+function getZonedParts(instant: number) {
+  const parts: Record<string, string> = {};
+  for (const part of zonedFormatter.formatToParts(new Date(instant))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+function getZoneOffset(instant: number): number {
+  const p = getZonedParts(instant);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallAsUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Converts a wall-clock time in the reset timezone to an instant. Day overflow (day 0, day 32) is handled by Date.UTC.
+function wallTimeToInstant(year: number, month: number, day: number, hour: number): number {
+  const guess = Date.UTC(year, month - 1, day, hour);
+  const firstPass = guess - getZoneOffset(guess);
+  return guess - getZoneOffset(firstPass);
+}
+
+/**
+ * Returns the most recent reset boundary at or before `now`
+ */
+export function getResetBoundary(period: ResetPeriod, now: number = Date.now()): number {
+  const today = getZonedParts(now);
+  let daily = wallTimeToInstant(today.year, today.month, today.day, RESET_CONFIG.HOUR);
+  if (daily > now) {
+    daily = wallTimeToInstant(today.year, today.month, today.day - 1, RESET_CONFIG.HOUR);
+  }
+  if (period === 'daily') return daily;
+
+  const resetDay = getZonedParts(daily);
+  const daysBack = (resetDay.weekday - RESET_CONFIG.WEEKLY_DAY + 7) % 7;
+  return wallTimeToInstant(resetDay.year, resetDay.month, resetDay.day - daysBack, RESET_CONFIG.HOUR);
+}
+
+/**
+ * Next boundary after `now` - exposed so clients can show countdowns
+ */
+export function getNextResetAt(period: ResetPeriod, now: number = Date.now()): number {
+  const current = getZonedParts(getResetBoundary(period, now));
+  return wallTimeToInstant(current.year, current.month, current.day + (period === 'daily' ? 1 : 7), RESET_CONFIG.HOUR);
+}
+
+/**
+ * Tasks declare either `resetType` or the older `resetInterval`. Anything else is a one-time task.
+ */
+export function getTaskResetPeriod(task: any): ResetPeriod | null {
+  const value = task?.resetType ?? task?.resetInterval;
+  return value === 'daily' || value === 'weekly' ? value : null;
+}
+
+function toTime(value: any): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+export interface ResetResult {
+  changed: boolean;
+  dailyReset: boolean;
+  weeklyReset: boolean;
+  streakUpdated: boolean;
+}
+
+/**
+ * Applies any resets that became due since the player's last reset. Mutates `data`.
+ * `isLogin` distinguishes a player load (extends/restarts the streak) from the idle sweep
+ * (only breaks streaks that have already lapsed).
+ */
+export function applyPeriodicResets(data: any, options: { now?: number; isLogin?: boolean } = {}): ResetResult {
+  const now = options.now ?? Date.now();
+  const dailyBoundary = getResetBoundary('daily', now);
+  const weeklyBoundary = getResetBoundary('weekly', now);
+  const previousDailyBoundary = getResetBoundary('daily', dailyBoundary - 1);
+  const result: ResetResult = { changed: false, dailyReset: false, weeklyReset: false, streakUpdated: false };
+
+  const lastDaily = toTime(data.lastDailyReset);
+  const lastWeekly = toTime(data.lastWeeklyReset);
+  const resetPeriods = new Set<ResetPeriod>();
+
+  if (lastDaily === null || lastDaily < dailyBoundary) {
+    DAILY_COUNTERS.forEach(field => { data[field] = 0; });
+    DAILY_COUNTER_MAPS.forEach(field => { data[field] = {}; });
+    data.lastDailyReset = new Date(now).toISOString();
+    resetPeriods.add('daily');
+    result.dailyReset = true;
+  }
+
+  if (lastWeekly === null || lastWeekly < weeklyBoundary) {
+    WEEKLY_COUNTERS.forEach(field => { data[field] = 0; });
+    WEEKLY_COUNTER_MAPS.forEach(field => { data[field] = {}; });
+    data.lastWeeklyReset = new Date(now).toISOString();
+    resetPeriods.add('weekly');
+    result.weeklyReset = true;
+  }
+
+  if (resetPeriods.size > 0 && Array.isArray(data.claimedTasks) && data.claimedTasks.length > 0) {
+    const periodByTask = new Map<string, ResetPeriod | null>(
+      getTasksFromMemory().map((task: any) => [task.id, getTaskResetPeriod(task)])
+    );
+    data.claimedTasks = data.claimedTasks.filter((taskId: string) => {
+      const period = periodByTask.get(taskId);
+      return !(period && resetPeriods.has(period));
+    });
+  }
+
+  // lastLogin marks the first load in the current reset day, so the streak only moves once per day
+  const lastLogin = toTime(data.lastLogin);
+  if (options.isLogin) {
+    if (lastLogin === null || lastLogin < dailyBoundary) {
+      const continued = lastLogin !== null && lastLogin >= previousDailyBoundary;
+      data.consecutiveDays = continued ? (data.consecutiveDays || 0) + 1 : 1;
+      data.lastLogin = new Date(now).toISOString();
+      result.streakUpdated = true;
+    }
+  } else if (lastLogin !== null && lastLogin < previousDailyBoundary && (data.consecutiveDays || 0) > 0) {
+    data.consecutiveDays = 0;
+    result.streakUpdated = true;
+  }
+
+  result.changed = result.dailyReset || result.weeklyReset || result.streakUpdated;
+  return result;
+}
+
+console.log(`✅ [RESET] Reset scheduler loaded (tz=${RESET_CONFIG.TIMEZONE}, hour=${RESET_CONFIG.HOUR}, weeklyDay=${RESET_CONFIG.WEEKLY_DAY})`);
@@ -0,0 +1,184 @@
+/**
+ * 🎁 Reward Resolver
+ * Turns a reward spec (task/achievement claim, level-up) into player state updates plus a summary
+ * of what was granted. Resolving is pure - callers write the updates together with their own
+ * changes (claimed list, level, cost) in a single updatePlayerState call.
+ */
+
+import { getBoostFromMemory, getCharactersFromMemory } from './unifiedDataLoader';
+import { emptyRewardSummary, getRewardSpec, getRewardTypeInfo, type RewardSpec, type RewardSummary } from '@shared/rewards';
+
+export const REWARD_CONFIG = {
+  MAX_BUNDLE_SIZE: 10
+} as const;
+
+export interface RewardGrant {
+  updates: Record<string, any>;
+  summary: RewardSummary;
+}
+
+function isBoostRunning(state: any, now: number): boolean {
+  const expiresAt = state.boostExpiresAt || state.boostEndTime;
+  return !!state.boostActive && !!expiresAt && new Date(expiresAt).getTime() > now;
+}
+
+/**
+ * State updates for a boost's timed multiplier and instant energy refill. Shared by paid activation
+ * and boost rewards.
+ */
+export function getBoostEffectUpdates(state: any, boost: any, now: number = Date.now()) {
+  const updates: Record<string, any> = {};
+  const isTimed = (boost.durationMinutes || 0) > 0 && (boost.multiplier || 1) > 1;
+  let expiresAt: string | null = null;
+  if (isTimed) {
+    expiresAt = new Date(now + boost.durationMinutes * 60000).toISOString();
+    Object.assign(updates, {
+      boostActive: true,
+      boostMultiplier: boost.multiplier,
+      boostExpiresAt: expiresAt,
+      boostEndTime: expiresAt,
+      activeBoostId: boost.id
+    });
+  }
+  if (boost.energyRefill) {
+    updates.energy = state.energyMax;
+  }
+  return { updates, isTimed, expiresAt };
+}
+
+function findCharacter(ref: string) {
+  const refLower = String(ref).toLowerCase();
+  return getCharactersFromMemory().find(c => c.id.toLowerCase() === refLower || (c.name || '').toLowerCase() === refLower);
+}
+
+function applyReward(state: any, spec: RewardSpec, updates: Record<string, any>, summary: RewardSummary, now: number) {
+  // Later rewards in a bundle see what earlier ones granted
+  const current = { ...state, ...updates };
+
+  switch (spec.type) {
+    case 'lp': {
+      const amount = Math.round(spec.amount || 0);
+      updates.lustPoints = Math.round((current.lustPoints || current.points || 0) + amount);
+      updates.points = updates.lustPoints;
+      summary.lustPoints += amount;
+      break;
+    }
+    case 'lg': {
+      const amount = Math.round(spec.amount || 0);
+      updates.lustGems = Math.round((current.lustGems || 0) + amount);
+      summary.lustGems += amount;
+      break;
+    }
+    case 'energy': {
+      const energy = current.energy || 0;
+      const energyMax = current.energyMax || energy;
+      const next = spec.amount ? Math.min(energyMax, energy + Math.round(spec.amount)) : energyMax;
+      updates.energy = Math.max(energy, next);
+      summary.energy += updates.energy - energy;
+      break;
+    }
+    case 'boost': {
+      const boost = spec.boostId ? getBoostFromMemory(spec.boostId) : undefined;
+      if (!boost) {
+        summary.skipped.push(`Unknown boost "${spec.boostId}"`);
+        break;
+      }
+      // Never replace a stronger running boost; the same or a weaker one is restarted
+      const isTimed = (boost.durationMinutes || 0) > 0 && (boost.multiplier || 1) > 1;
+      if (isTimed && isBoostRunning(current, now) && (current.boostMultiplier || 1) > boost.multiplier) {
+        summary.skipped.push(`${boost.name || boost.id} (a stronger boost is active)`);
+        break;
+      }
+      const effect = getBoostEffectUpdates(current, boost, now);
+      Object.assign(updates, effect.updates);
+      if (boost.energyRefill) summary.energy += Math.max(0, (current.energyMax || 0) - (current.energy || 0));
+      if (effect.expiresAt) {
+        summary.boosts.push({ id: boost.id, name: boost.name || boost.id, multiplier: boost.multiplier, expiresAt: effect.expiresAt });
+      }
+      break;
+    }
+    case 'character': {
+      const character = spec.characterId ? findCharacter(spec.characterId) : undefined;
+      if (!character) {
+        summary.skipped.push(`Unknown character "${spec.characterId}"`);
+        break;
+      }
+      const unlocked: string[] = current.unlockedCharacters || [];
+      if (unlocked.includes(character.id)) break;
+      updates.unlockedCharacters = [...unlocked, character.id];
+      summary.characterUnlocks.push({ id: character.id, name: character.name });
+      break;
+    }
+    case 'image': {
+      if (!spec.imageId) {
+        summary.skipped.push('Image reward without imageId');
+        break;
+      }
+      const unlocked: string[] = current.unlockedImages || [];
+      if (unlocked.includes(spec.imageId)) break;
+      updates.unlockedImages = [...unlocked, spec.imageId];
+      summary.imageUnlocks.push(spec.imageId);
+      break;
+    }
+    case 'bundle': {
+      for (const child of spec.rewards || []) {
+        if (child.type === 'bundle') continue;
+        applyReward(state, child, updates, summary, now);
+      }
+      break;
+    }
+    default:
+      summary.skipped.push(`Unknown reward type "${(spec as any).type}"`);
+  }
+}
+
+/**
+ * Resolves a reward against the player's current state
+ */
+export function resolveRewards(state: any, spec: RewardSpec, now: number = Date.now()): RewardGrant {
+  const updates: Record<string, any> = {};
+  const summary = emptyRewardSummary();
+  applyReward(state, spec, updates, summary, now);
+  if (summary.skipped.length > 0) {
+    console.warn(`⚠️ [REWARDS] Skipped for ${state.username || state.id}:`, summary.skipped);
+  }
+  return { updates, summary };
+}
+
+function validateSpec(spec: RewardSpec, inBundle: boolean): string | null {
+  const info = getRewardTypeInfo(spec?.type);
+  if (!info) return `Unknown reward type "${spec?.type}"`;
+  if (inBundle && !info.bundleable) return 'Bundles cannot contain other bundles';
+
+  switch (info.input) {
+    case 'amount':
+      if (!Number.isFinite(Number(spec.amount)) || Number(spec.amount) < 0) return `${info.label} needs a non-negative amount`;
+      if (spec.type !== 'energy' && !(Number(spec.amount) > 0)) return `${info.label} needs an amount above 0`;
+      return null;
+    case 'boostId':
+      return spec.boostId && getBoostFromMemory(spec.boostId) ? null : `Unknown boost "${spec.boostId || ''}"`;
+    case 'characterId':
+      return spec.characterId && findCharacter(spec.characterId) ? null : `Unknown character "${spec.characterId || ''}"`;
+    case 'imageId':
+      return spec.imageId ? null : 'Image reward needs an imageId';
+    case 'rewards': {
+      const children = spec.rewards || [];
+      if (children.length === 0) return 'A bundle needs at least one reward';
+      if (children.length > REWARD_CONFIG.MAX_BUNDLE_SIZE) return `A bundle can hold at most ${REWARD_CONFIG.MAX_BUNDLE_SIZE} rewards`;
+      for (const child of children) {
+        const error = validateSpec(child, true);
+        if (error) return `Bundle: ${error}`;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Checks the reward of a task/achievement before it is saved. Returns an error message or null.
+ */
+export function validateRewardConfig(item: any): string | null {
+  return validateSpec(getRewardSpec(item), false);
+}
+
+console.log('✅ [REWARDS] Reward resolver loaded');
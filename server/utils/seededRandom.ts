@@ -0,0 +1,42 @@
+/**
+ * 🎲 Seeded Random
+ * Deterministic picks for things that must come out the same on every request
+ * (e.g. a player's daily task rotation) without storing the result.
+ */
+
+// FNV-1a, good enough to spread short string seeds
+export function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 - returns a Math.random-compatible generator for the seed
+ */
+export function createSeededRandom(seed: string | number): () => number {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashString(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks `count` distinct items (partial Fisher-Yates). The input order matters, so sort it first.
+ */
+export function seededPick<T>(items: T[], count: number, random: () => number): T[] {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    const index = Math.floor(random() * pool.length);
+    picked.push(pool.splice(index, 1)[0]);
+  }
+  return picked;
+}
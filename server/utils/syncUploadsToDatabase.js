@@ -83,6 +83,8 @@ async function syncDirectory(dirPath, characterId = null, relativePath = '') {
     for (const entry of entries) {
       const fullPath = path.join(dirPath, entry.name);
       const newRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+      // _variants holds the image pipeline's WebP copies, not uploads of their own
+      if (entry.isDirectory() && entry.name === '_variants') continue;
       if (entry.isDirectory()) {
         await syncDirectory(fullPath, entry.name, newRelativePath);
       } else if (entry.isFile() && isImageFile(entry.name)) {
@@ -0,0 +1,60 @@
+/**
+ * 👆 Tap Batch Validation
+ * Clients send taps in batches (count + per-tap offsets + the value they computed locally).
+ * Offsets are how many ms before sending each tap happened; the server rebases them on its own receive
+ * time, so a client clock that is off never matters. The client value is used for auditing only.
+ */
+
+import { z } from 'zod';
+
+export const TAP_LIMITS = {
+  MAX_BATCH_SIZE: 200,
+  MIN_TAP_INTERVAL_MS: 40, // ~25 taps/sec is already beyond human multi-finger tapping
+  MAX_BATCH_AGE_MS: 60000,
+  ENERGY_PER_TAP: 1
+} as const;
+
+export const tapBatchSchema = z.object({
+  count: z.number().int().min(1).max(TAP_LIMITS.MAX_BATCH_SIZE),
+  offsets: z.array(z.number().int().nonnegative()).max(TAP_LIMITS.MAX_BATCH_SIZE),
+  clientValue: z.number().nonnegative().optional()
+}).refine(batch => batch.offsets.length === batch.count, {
+  message: 'offsets must contain exactly one entry per tap',
+  path: ['offsets']
+});
+
+export type TapBatch = z.infer<typeof tapBatchSchema>;
+
+export interface TapValidationResult {
+  accepted: number[];
+  rejected: number;
+  reasons: Record<string, number>;
+}
+
+/**
+ * Rebases the batch on `receivedAt` and filters it down to the taps that could physically have happened:
+ * - not older than the batch window
+ * - at least MIN_TAP_INTERVAL_MS after the last tap already processed for this player
+ * - spaced at least MIN_TAP_INTERVAL_MS apart
+ * Accepted taps are server times, never later than `receivedAt`, so no batch can outpace the wall clock.
+ */
+export function validateTapBatch(batch: TapBatch, lastTapAt: number | null, receivedAt: number = Date.now()): TapValidationResult {
+  const reasons: Record<string, number> = {};
+  const reject = (reason: string) => { reasons[reason] = (reasons[reason] || 0) + 1; };
+
+  const accepted: number[] = [];
+  let previous: number | null = lastTapAt;
+
+  for (const ts of batch.offsets.map(offset => receivedAt - offset).sort((a, b) => a - b)) {
+    if (ts < receivedAt - TAP_LIMITS.MAX_BATCH_AGE_MS) { reject('stale'); continue; }
+    // Each batch is shifted by its own network delay, so its first taps can land on the previous batch's last one
+    if (lastTapAt !== null && ts - lastTapAt < TAP_LIMITS.MIN_TAP_INTERVAL_MS) { reject('overlap'); continue; }
+    if (previous !== null && ts - previous < TAP_LIMITS.MIN_TAP_INTERVAL_MS) { reject('tooFast'); continue; }
+    accepted.push(ts);
+    previous = ts;
+  }
+
+  return { accepted, rejected: batch.count - accepted.length, reasons };
+}
+
+console.log('✅ [TAP VALIDATOR] Tap batch validation loaded');
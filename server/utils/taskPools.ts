@@ -0,0 +1,97 @@
+/**
+ * 🗓️ Task Pools
+ * Decides which tasks a player sees right now:
+ * - daily / weekly tasks reset with the reset scheduler
+ * - daily tasks flagged `rotation: true` form a pool; each player gets N of them per day via a
+ *   seeded pick (player id + reset day), so the pick is stable without being stored
+ * - special tasks (`resetType: 'special'`) are one-off and only live between `startsAt` and `endsAt`
+ */
+
+import { getTasksFromMemory } from './unifiedDataLoader';
+import { getNextResetAt, getResetBoundary, getTaskResetPeriod } from './resetScheduler';
+import { createSeededRandom, seededPick } from './seededRandom';
+
+export const TASK_POOL_CONFIG = {
+  DAILY_ROTATION_SIZE: Math.max(0, parseInt(process.env.DAILY_TASK_ROTATION_SIZE || '3', 10) || 0)
+} as const;
+
+export type TaskCadence = 'daily' | 'weekly' | 'special' | 'oneTime';
+
+export function getTaskCadence(task: any): TaskCadence {
+  if ((task?.resetType ?? task?.resetInterval) === 'special') return 'special';
+  return getTaskResetPeriod(task) || 'oneTime';
+}
+
+export function isRotationTask(task: any): boolean {
+  return getTaskCadence(task) === 'daily' && task?.rotation === true;
+}
+
+function toTime(value: any): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+export function isTaskInWindow(task: any, now: number = Date.now()): boolean {
+  const startsAt = toTime(task?.startsAt);
+  const endsAt = toTime(task?.endsAt);
+  return (startsAt === null || startsAt <= now) && (endsAt === null || now < endsAt);
+}
+
+/**
+ * Ids of the rotation tasks picked for the player in the current reset day
+ */
+export function getDailyRotation(playerId: string, now: number = Date.now()): string[] {
+  const pool = getTasksFromMemory()
+    .filter(task => task.isActive !== false && isRotationTask(task))
+    .map(task => task.id)
+    .sort();
+  const dayKey = new Date(getResetBoundary('daily', now)).toISOString();
+  return seededPick(pool, TASK_POOL_CONFIG.DAILY_ROTATION_SIZE, createSeededRandom(`${playerId}:${dayKey}`));
+}
+
+/**
+ * Whether the task is offered to the player now. Pass `rotation` when checking many tasks.
+ */
+export function isTaskAvailable(task: any, player: any, now: number = Date.now(), rotation?: string[]): boolean {
+  if (!task?.id || task.isActive === false) return false;
+  if (getTaskCadence(task) === 'special' && !isTaskInWindow(task, now)) return false;
+  if (isRotationTask(task)) return (rotation ?? getDailyRotation(player.id, now)).includes(task.id);
+  return true;
+}
+
+export function getAvailableTasks(player: any, now: number = Date.now()): any[] {
+  const rotation = getDailyRotation(player.id, now);
+  return getTasksFromMemory().filter(task => isTaskAvailable(task, player, now, rotation));
+}
+
+/**
+ * When the task's current run ends: the next reset for daily/weekly, `endsAt` for special tasks
+ */
+export function getTaskEndsAt(task: any, now: number = Date.now()): number | null {
+  const cadence = getTaskCadence(task);
+  if (cadence === 'daily' || cadence === 'weekly') return getNextResetAt(cadence, now);
+  if (cadence === 'special') return toTime(task.endsAt);
+  return null;
+}
+
+/**
+ * Checks the schedule fields of a task before it is saved. Returns an error message or null.
+ */
+export function validateTaskSchedule(task: any): string | null {
+  const value = task?.resetType ?? task?.resetInterval;
+  if (value !== undefined && !['daily', 'weekly', 'special', 'never'].includes(value)) {
+    return `Unknown reset type "${value}"`;
+  }
+  if (task?.rotation && getTaskCadence(task) !== 'daily') return 'Only daily tasks can be in the rotation pool';
+  if (getTaskCadence(task) !== 'special') return null;
+
+  const startsAt = toTime(task.startsAt);
+  const endsAt = toTime(task.endsAt);
+  if (task.startsAt && startsAt === null) return 'startsAt is not a valid date';
+  if (endsAt === null) return 'Special tasks need a valid endsAt date';
+  if (startsAt !== null && endsAt <= startsAt) return 'endsAt must be after startsAt';
+  return null;
+}
+
+console.log(`✅ [TASK POOLS] Task pools loaded (daily rotation size ${TASK_POOL_CONFIG.DAILY_ROTATION_SIZE})`);
@@ -15,7 +15,10 @@ const dataCache = {
   tasks: new Map<string, any>(),
   achievements: new Map<string, any>(),
   upgrades: new Map<string, any>(),
-  characters: new Map<string, any>()
+  characters: new Map<string, any>(),
+  boosts: new Map<string, any>(),
+  gifts: new Map<string, any>(),
+  banners: new Map<string, any>()
 };
 
 const FOLDER_MAP = {
@@ -23,7 +26,10 @@ const FOLDER_MAP = {
   tasks: 'progressive-data/tasks',
   achievements: 'progressive-data/achievements',
   upgrades: 'progressive-data/upgrades',
-  characters: 'progressive-data/characters'
+  characters: 'progressive-data/characters',
+  boosts: 'progressive-data/boosts',
+  gifts: 'progressive-data/gifts',
+  banners: 'progressive-data/banners'
 } as const;
 
 type ContentType = keyof typeof FOLDER_MAP;
@@ -212,6 +218,9 @@ async function syncToDatabase(contentType: ContentType, data: any): Promise<void
       
     case 'tasks':
     case 'achievements':
+    case 'boosts':
+    case 'gifts':
+    case 'banners':
       break;
   }
 }
@@ -233,7 +242,7 @@ async function deleteFromDatabase(contentType: ContentType, id: string): Promise
 export async function syncAllGameData(): Promise<void> {
   console.log('🚀 Loading all game data from progressive-data...');
   
-  const types: ContentType[] = ['levels', 'tasks', 'achievements', 'upgrades', 'characters'];
+  const types: ContentType[] = ['levels', 'tasks', 'achievements', 'upgrades', 'characters', 'boosts', 'gifts', 'banners'];
   
   for (const type of types) {
     const data = await loadGameData(type);
@@ -264,6 +273,9 @@ export async function syncAllGameData(): Promise<void> {
   - Achievements: ${dataCache.achievements.size}
   - Upgrades: ${dataCache.upgrades.size}
   - Characters: ${dataCache.characters.size}
+  - Boosts: ${dataCache.boosts.size}
+  - Gifts: ${dataCache.gifts.size}
+  - Banners: ${dataCache.banners.size}
   `);
 }
 
@@ -280,18 +292,27 @@ export const getTasksFromMemory = () => getDataFromMemory('tasks');
 export const getAchievementsFromMemory = () => getDataFromMemory('achievements');
 export const getUpgradesFromMemory = () => getDataFromMemory('upgrades');
 export const getCharactersFromMemory = () => getDataFromMemory('characters');
+export const getBoostsFromMemory = () => getDataFromMemory('boosts');
+export const getGiftsFromMemory = () => getDataFromMemory('gifts');
+export const getBannersFromMemory = () => getDataFromMemory('banners');
 
 export const getLevelFromMemory = (id: string) => getDataByIdFromMemory('levels', id);
 export const getTaskFromMemory = (id: string) => getDataByIdFromMemory('tasks', id);
 export const getAchievementFromMemory = (id: string) => getDataByIdFromMemory('achievements', id);
 export const getUpgradeFromMemory = (id: string) => getDataByIdFromMemory('upgrades', id);
 export const getCharacterFromMemory = (id: string) => getDataByIdFromMemory('characters', id);
+export const getBoostFromMemory = (id: string) => getDataByIdFromMemory('boosts', id);
+export const getGiftFromMemory = (id: string) => getDataByIdFromMemory('gifts', id);
+export const getBannerFromMemory = (id: string) => getDataByIdFromMemory('banners', id);
 
 export const saveLevelToJSON = (level: any) => saveGameData('levels', level);
 export const saveTaskToJSON = (task: any) => saveGameData('tasks', task);
 export const saveAchievementToJSON = (achievement: any) => saveGameData('achievements', achievement);
 export const saveUpgradeToJSON = (upgrade: any) => saveGameData('upgrades', upgrade);
 export const saveCharacterToJSON = (character: any) => saveGameData('characters', character);
+export const saveBoostToJSON = (boost: any) => saveGameData('boosts', boost);
+export const saveGiftToJSON = (gift: any) => saveGameData('gifts', gift);
+export const saveBannerToJSON = (banner: any) => saveGameData('banners', banner);
 
 export const syncLevels = () => loadGameData('levels').then(data => {
   dataCache.levels.clear();
@@ -318,4 +339,19 @@ export const syncCharacters = () => loadGameData('characters').then(data => {
   data.forEach(item => dataCache.characters.set(item.id, item));
 });
 
+export const syncBoosts = () => loadGameData('boosts').then(data => {
+  dataCache.boosts.clear();
+  data.forEach(item => dataCache.boosts.set(item.id, item));
+});
+
+export const syncGifts = () => loadGameData('gifts').then(data => {
+  dataCache.gifts.clear();
+  data.forEach(item => dataCache.gifts.set(item.id, item));
+});
+
+export const syncBanners = () => loadGameData('banners').then(data => {
+  dataCache.banners.clear();
+  data.forEach(item => dataCache.banners.set(item.id, item));
+});
+
 console.log('✅ [UNIFIED DATA LOADER] Using progressive-data for ALL game data');
\ No newline at end of file
@@ -0,0 +1,105 @@
+/**
+ * 📦 Zip Reader
+ * Just enough of the zip format to read archives the admin tools accept: stored and deflated entries,
+ * read from an in-memory buffer through the central directory. Zip64, encryption and multi-disk
+ * archives are rejected with an error instead of being half-read.
+ */
+
+import zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  compressedSize: number;
+  method: number;
+  encrypted: boolean;
+  localHeaderOffset: number;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64KB, so it is somewhere in the tail
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a zip archive');
+}
+
+/**
+ * Lists every entry of an archive without decompressing anything
+ */
+export function listZipEntries(buffer: Buffer): ZipEntry[] {
+  if (buffer.length < 22) throw new Error('Not a zip archive');
+  const eocd = findEndOfCentralDirectory(buffer);
+  if (buffer.readUInt16LE(eocd + 4) !== 0 || buffer.readUInt16LE(eocd + 6) !== 0) {
+    throw new Error('Multi-part zip archives are not supported');
+  }
+  const count = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) throw new Error('Zip64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    // Bit 11 marks UTF-8 names; everything else is treated as Latin-1, which keeps ASCII names intact
+    const name = buffer.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith('/'),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      encrypted: (flags & 0x1) === 1,
+      localHeaderOffset: buffer.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Decompressed contents of one entry. `maxBytes` caps the output so a small entry cannot inflate into gigabytes.
+ */
+export function readZipEntry(buffer: Buffer, entry: ZipEntry, maxBytes: number): Buffer {
+  if (entry.encrypted) throw new Error(`${entry.name} is encrypted`);
+  if (entry.size > maxBytes) throw new Error(`${entry.name} is larger than ${Math.round(maxBytes / 1024 / 1024)}MB`);
+
+  const header = entry.localHeaderOffset;
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip entry ${entry.name}`);
+  }
+  const dataStart = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+  if (data.length !== entry.compressedSize) throw new Error(`Truncated zip entry ${entry.name}`);
+
+  let contents: Buffer;
+  if (entry.method === METHOD_STORED) {
+    contents = Buffer.from(data);
+  } else if (entry.method === METHOD_DEFLATED) {
+    try {
+      contents = zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, maxBytes) });
+    } catch (error: any) {
+      throw new Error(`Could not decompress ${entry.name}: ${error.message}`);
+    }
+  } else {
+    throw new Error(`${entry.name} uses unsupported compression method ${entry.method}`);
+  }
+
+  if (contents.length !== entry.size) throw new Error(`Size mismatch in zip entry ${entry.name}`);
+  return contents;
+}
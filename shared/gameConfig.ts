@@ -8,7 +8,7 @@ export interface UpgradeConfig {
   baseValue: number;
   valueIncrement: number;
   icon: string;
-  type: 'perTap' | 'perHour' | 'energyMax' | 'energyRegen'; // ADD energyRegen
+  type: 'perTap' | 'perHour' | 'energyMax' | 'energyRegen' | 'critChance' | 'critMultiplier'; // critChance is in percent points
   isVip?: boolean;
   isEvent?: boolean;
   passiveIncomeTime?: number;
@@ -25,6 +25,30 @@ export interface CharacterConfig {
   avatarImage: string;
   displayImage: string;
   vip?: boolean; // ADD VIP flag
+  affectionTiers?: AffectionTier[]; // falls back to the server's default tiers
+}
+
+// Reached once a player's affection with the character hits `points` (cumulative)
+export interface AffectionTier {
+  level: number;
+  points: number;
+  name?: string;
+  unlockImages?: string[]; // image ids added to unlockedImages
+  mediaUnlockLevel?: number; // this character's images up to this unlockLevel skip the player level gate
+  chatTone?: string;
+  tapMultiplier?: number;
+}
+
+// One entry of GET /api/player/affection
+export interface AffectionStatus {
+  characterId: string;
+  points: number;
+  level: number;
+  tierName: string;
+  tierPoints: number;
+  nextTierPoints: number | null;
+  tapMultiplier: number;
+  chatTone: string | null;
 }
 
 export interface ImageConfig {
@@ -67,6 +91,135 @@ export interface LevelConfig {
   unlockedAt?: string;
 }
 
+export interface BoostConfig {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  cost: number; // lustGems
+  durationMinutes: number; // 0 = instant only
+  multiplier?: number; // LP multiplier for taps and passive income while active
+  energyRefill?: boolean; // instantly restores energy to energyMax
+  sortOrder?: number;
+  isActive?: boolean;
+  isHidden?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface GiftConfig {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  cost: number; // lustGems per gift bought into the inventory
+  affection?: number; // affection points added to the receiving character
+  tapMultiplier?: number; // tap LP multiplier while the receiving character is selected
+  durationMinutes?: number; // how long tapMultiplier lasts
+  unlockImageId?: string; // image id added to unlockedImages
+  characterIds?: string[]; // only these characters accept the gift (empty = everyone)
+  sortOrder?: number;
+  isActive?: boolean;
+  isHidden?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// What giving one gift did, returned by POST /api/player/gifts/:id/give
+export interface GiftEffectSummary {
+  giftId: string;
+  characterId: string;
+  affectionGained: number;
+  tapMultiplier: number | null;
+  expiresAt: string | null;
+  imageUnlocked: string | null;
+  skipped: string[];
+}
+
+export type Rarity = CharacterConfig['rarity'];
+
+// One thing a summon banner can hand out; characters default to their own `rarity`
+export interface GachaPoolEntry {
+  type: 'character' | 'image';
+  id: string;
+  rarity?: Rarity;
+  weight?: number; // relative to other entries of the same rarity, default 1
+  name?: string;
+}
+
+export interface GachaBannerConfig {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  cost: number; // lustGems per pull
+  rarityWeights: Partial<Record<Rarity, number>>;
+  pool: GachaPoolEntry[];
+  pity?: { rarity: Rarity; pulls: number }; // the Nth pull without that rarity (or better) is guaranteed one
+  duplicateGems?: Partial<Record<Rarity, number>>; // lustGems instead of an item the player already owns
+  startsAt?: string | null;
+  endsAt?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+  isHidden?: boolean;
+}
+
+export interface GachaOddsEntry {
+  type: 'character' | 'image';
+  id: string;
+  name: string;
+  rarity: Rarity;
+  probability: number;
+}
+
+// Published by GET /api/gacha/banners/:id/odds - the server rolls from exactly these tables
+export interface GachaOdds {
+  bannerId: string;
+  version: string; // changes whenever the tables change; recorded on every pull
+  rarities: { rarity: Rarity; probability: number }[];
+  entries: GachaOddsEntry[];
+  pity: { rarity: Rarity; pulls: number; entries: GachaOddsEntry[] } | null;
+}
+
+export interface GachaPullRecord {
+  id: string;
+  bannerId: string;
+  pullIndex: number; // per player and banner, part of the RNG seed
+  oddsVersion: string;
+  roll: number;
+  pityTriggered: boolean;
+  type: 'character' | 'image';
+  itemId: string;
+  name: string;
+  rarity: Rarity;
+  duplicate: boolean;
+  gemsRefunded: number;
+  cost: number;
+  pulledAt: string;
+}
+
+export type LeaderboardId = 'lp-all-time' | 'lp-weekly' | 'level' | 'taps-today';
+
+export interface LeaderboardEntry {
+  rank: number; // ties share a rank (1, 2, 2, 4)
+  playerId: string;
+  username: string;
+  value: number;
+}
+
+// GET /api/leaderboards/:id
+export interface LeaderboardResult {
+  id: LeaderboardId;
+  label: string;
+  window: 'allTime' | 'daily' | 'weekly';
+  resetsAt: string | null;
+  updatedAt: string;
+  totalPlayers: number;
+  entries: LeaderboardEntry[];
+  me: LeaderboardEntry | null; // null when opted out or not ranked yet
+  optedOut: boolean;
+}
+
 export interface ThemeConfig {
   primary?: string;
   secondary?: string;
@@ -0,0 +1,118 @@
+/**
+ * Canonical image metadata, stored as progressive-data/images/<file>.meta.json.
+ * Field names follow the mediaUploads table (unlockLevel, chatEnable, categories). Older uploaders
+ * wrote levelRequired, enableForChat, hideFromGallery and flat nsfw/vip/event/random booleans;
+ * normalizeImageMetadata maps those so every reader sees one shape.
+ * width, height, placeholder and variants are written by the upload pipeline (server/utils/imagePipeline)
+ * and are never taken from submitted metadata.
+ */
+
+import { z } from 'zod';
+
+// Flags that used to be separate booleans and now live in `categories`
+export const IMAGE_CATEGORY_FLAGS = ['nsfw', 'vip', 'event', 'random'] as const;
+
+// A resized WebP copy of the image, as an /uploads web path
+export const imageVariantSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  path: z.string().startsWith('/uploads/'),
+}).strict();
+
+export type ImageVariant = z.infer<typeof imageVariantSchema>;
+
+export const imageMetadataSchema = z.object({
+  characterId: z.string().min(1).nullable(),
+  type: z.string().min(1),
+  unlockLevel: z.number().int().min(1),
+  categories: z.array(z.string().min(1)),
+  poses: z.array(z.string()),
+  isHidden: z.boolean(),
+  chatEnable: z.boolean(),
+  chatSendPercent: z.number().int().min(0).max(100),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  placeholder: z.string().startsWith('data:image/').optional(),
+  variants: z.array(imageVariantSchema).optional(),
+  updatedAt: z.string().optional(),
+}).strict();
+
+export type ImageMetadata = z.infer<typeof imageMetadataSchema>;
+
+export const IMAGE_PROCESSING_FIELDS = ['width', 'height', 'placeholder', 'variants'] as const;
+export type ImageProcessing = Pick<ImageMetadata, typeof IMAGE_PROCESSING_FIELDS[number]>;
+
+export const DEFAULT_IMAGE_METADATA: ImageMetadata = {
+  characterId: null,
+  type: 'other',
+  unlockLevel: 1,
+  categories: [],
+  poses: [],
+  isHidden: false,
+  chatEnable: false,
+  chatSendPercent: 0,
+};
+
+function toCategories(meta: Record<string, any>): string[] {
+  const categories = new Set<string>();
+  if (Array.isArray(meta.categories)) {
+    meta.categories.forEach((c: unknown) => categories.add(String(c).toLowerCase()));
+  } else if (meta.categories && typeof meta.categories === 'object') {
+    Object.entries(meta.categories).forEach(([name, enabled]) => { if (enabled) categories.add(name.toLowerCase()); });
+  }
+  IMAGE_CATEGORY_FLAGS.forEach(flag => { if (meta[flag] === true) categories.add(flag); });
+  return Array.from(categories).filter(Boolean).sort();
+}
+
+// Keeps only the pipeline fields that are well-formed; anything else is dropped rather than rejected
+function toProcessing(meta: Record<string, any>): ImageProcessing {
+  const processing: ImageProcessing = {};
+  if (Number.isInteger(meta.width) && meta.width > 0) processing.width = meta.width;
+  if (Number.isInteger(meta.height) && meta.height > 0) processing.height = meta.height;
+  if (typeof meta.placeholder === 'string' && meta.placeholder.startsWith('data:image/')) processing.placeholder = meta.placeholder;
+  if (Array.isArray(meta.variants)) {
+    processing.variants = meta.variants
+      .filter((variant: unknown) => imageVariantSchema.safeParse(variant).success)
+      .sort((a: ImageVariant, b: ImageVariant) => a.width - b.width);
+  }
+  return processing;
+}
+
+/**
+ * Any stored or submitted metadata (current or legacy spelling) in the canonical shape.
+ * `fallback` fills what the metadata leaves out, e.g. character and type from the upload folder.
+ */
+export function normalizeImageMetadata(raw: unknown, fallback: Partial<ImageMetadata> = {}): ImageMetadata {
+  const meta: Record<string, any> = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+  const base = { ...DEFAULT_IMAGE_METADATA, ...fallback };
+  const characterId = meta.characterId ? String(meta.characterId).trim().toLowerCase() : base.characterId;
+
+  return {
+    characterId: characterId || null,
+    type: String(meta.type || meta.imageType || base.type).trim() || 'other',
+    unlockLevel: Math.max(1, Math.floor(Number(meta.unlockLevel ?? meta.levelRequired) || base.unlockLevel)),
+    categories: meta.categories !== undefined || IMAGE_CATEGORY_FLAGS.some(flag => meta[flag] !== undefined) ? toCategories(meta) : base.categories,
+    poses: Array.isArray(meta.poses) ? meta.poses.map(String) : base.poses,
+    isHidden: !!(meta.isHidden ?? meta.hideFromGallery ?? base.isHidden),
+    chatEnable: !!(meta.chatEnable ?? meta.enableForChat ?? base.chatEnable),
+    chatSendPercent: Math.min(100, Math.max(0, Math.round(Number(meta.chatSendPercent ?? base.chatSendPercent) || 0))),
+    ...toProcessing(meta),
+    ...(typeof meta.updatedAt === 'string' ? { updatedAt: meta.updatedAt } : {}),
+  };
+}
+
+export function hasImageCategory(metadata: Pick<ImageMetadata, 'categories' | 'type'>, category: string): boolean {
+  return metadata.categories.includes(category) || metadata.type.toLowerCase() === category;
+}
+
+// The pipeline fields of a metadata object, e.g. to carry them over when an editor replaces the rest
+export function pickImageProcessing(metadata: Partial<ImageMetadata>): ImageProcessing {
+  return toProcessing(metadata);
+}
+
+/**
+ * `srcSet` value for a list of sources, smallest first (variants, or signed URLs built from them)
+ */
+export function toSrcSet(sources: { url: string; width: number }[]): string {
+  return sources.map(source => `${source.url} ${source.width}w`).join(', ');
+}
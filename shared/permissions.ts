@@ -0,0 +1,37 @@
+/**
+ * Player roles and what each of them may do. The server checks capabilities per route, the client
+ * uses the same table to decide which admin tools to show. A player's role is stored as `role` in
+ * player-state.json; `isAdmin` always means the admin role so existing admin accounts keep working.
+ */
+
+export const PLAYER_ROLES = ['player', 'artist', 'moderator', 'admin'] as const;
+export type PlayerRole = typeof PLAYER_ROLES[number];
+
+export type Capability = 'media:upload' | 'media:edit' | 'media:delete';
+
+export const ROLE_CAPABILITIES: Record<PlayerRole, readonly Capability[]> = {
+  player: [],
+  artist: ['media:upload', 'media:edit'],
+  moderator: ['media:upload', 'media:edit', 'media:delete'],
+  admin: ['media:upload', 'media:edit', 'media:delete']
+};
+
+export const ROLE_LABELS: Record<PlayerRole, string> = {
+  player: 'Player',
+  artist: 'Artist',
+  moderator: 'Moderator',
+  admin: 'Admin'
+};
+
+export function isPlayerRole(value: unknown): value is PlayerRole {
+  return typeof value === 'string' && (PLAYER_ROLES as readonly string[]).includes(value);
+}
+
+export function getPlayerRole(player: { isAdmin?: boolean | null; role?: unknown } | null | undefined): PlayerRole {
+  if (player?.isAdmin) return 'admin';
+  return isPlayerRole(player?.role) && player.role !== 'admin' ? player.role : 'player';
+}
+
+export function hasCapability(player: { isAdmin?: boolean | null; role?: unknown } | null | undefined, capability: Capability): boolean {
+  return ROLE_CAPABILITIES[getPlayerRole(player)].includes(capability);
+}
@@ -0,0 +1,80 @@
+/**
+ * Requirement shapes shared by tasks, achievements and the admin forms.
+ * Content stores a single requirement as `requirementType` + `target` (+ optional `requirementParams`);
+ * composite AND/OR conditions are stored under `requirement` as { all: [...] } or { any: [...] }.
+ */
+
+export type RequirementKind = 'task' | 'achievement';
+
+export interface RequirementLeaf {
+  type: string;
+  target: number;
+  params?: Record<string, any>;
+}
+
+export type RequirementNode =
+  | RequirementLeaf
+  | { all: RequirementNode[] }
+  | { any: RequirementNode[] };
+
+export interface RequirementParamSpec {
+  name: string;
+  label: string;
+  input: 'character';
+  required: boolean;
+}
+
+// What GET /api/admin/requirement-types returns for each registered type
+export interface RequirementTypeDescriptor {
+  type: string;
+  label: string;
+  description: string;
+  kinds: RequirementKind[];
+  counters: string[];
+  events: string[];
+  params: RequirementParamSpec[];
+  minTarget: number;
+  maxTarget: number | null;
+}
+
+// Stored in requirementType when the real condition lives in `requirement`
+export const COMPOSITE_REQUIREMENT_TYPE = 'composite';
+
+export function isRequirementLeaf(node: any): node is RequirementLeaf {
+  return !!node && typeof node === 'object' && typeof node.type === 'string';
+}
+
+export function isCompositeRequirement(node: any): node is { all: RequirementNode[] } | { any: RequirementNode[] } {
+  return !!node && typeof node === 'object' && (Array.isArray(node.all) || Array.isArray(node.any));
+}
+
+/**
+ * Reads the requirement of a task/achievement, preferring a structured `requirement` over the flat fields
+ */
+export function getRequirementNode(item: any): RequirementNode {
+  if (isCompositeRequirement(item?.requirement) || isRequirementLeaf(item?.requirement)) {
+    return item.requirement;
+  }
+  return {
+    type: String(item?.requirementType || ''),
+    target: Number(item?.target) || 0,
+    ...(item?.requirementParams && Object.keys(item.requirementParams).length > 0 ? { params: item.requirementParams } : {})
+  };
+}
+
+/**
+ * Flat fields to store for a requirement. Composite requirements keep the tree in `requirement` and use
+ * the number of conditions that have to pass as the displayed target.
+ */
+export function toRequirementFields(node: RequirementNode) {
+  if (isRequirementLeaf(node)) {
+    return { requirementType: node.type, target: node.target, requirementParams: node.params || {}, requirement: null };
+  }
+  const children = 'all' in node ? node.all : node.any;
+  return {
+    requirementType: COMPOSITE_REQUIREMENT_TYPE,
+    target: 'all' in node ? children.length : 1,
+    requirementParams: {},
+    requirement: node
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Reward shapes shared by task/achievement claims, level-ups and the admin forms.
+ * Content stores a reward as `rewardType` + `rewardAmount`, with references (boost, character, image)
+ * and bundle contents under `rewardData`.
+ */
+
+export type RewardType = 'lp' | 'lg' | 'energy' | 'boost' | 'character' | 'image' | 'bundle';
+
+export interface RewardSpec {
+  type: RewardType;
+  amount?: number;
+  boostId?: string;
+  characterId?: string;
+  imageId?: string;
+  rewards?: RewardSpec[];
+}
+
+export interface RewardTypeInfo {
+  type: RewardType;
+  label: string;
+  icon: string;
+  // Which field of RewardSpec the admin form has to fill in
+  input: 'amount' | 'boostId' | 'characterId' | 'imageId' | 'rewards';
+  bundleable: boolean;
+}
+
+export const REWARD_TYPES: RewardTypeInfo[] = [
+  { type: 'lp', label: 'Lust Points', icon: '💖', input: 'amount', bundleable: true },
+  { type: 'lg', label: 'Lust Gems', icon: '💎', input: 'amount', bundleable: true },
+  { type: 'energy', label: 'Energy Refill (0 = full)', icon: '⚡', input: 'amount', bundleable: true },
+  { type: 'boost', label: 'Timed Boost', icon: '🚀', input: 'boostId', bundleable: true },
+  { type: 'character', label: 'Character Unlock', icon: '👑', input: 'characterId', bundleable: true },
+  { type: 'image', label: 'Image Unlock', icon: '🖼️', input: 'imageId', bundleable: true },
+  { type: 'bundle', label: 'Bundle', icon: '🎁', input: 'rewards', bundleable: false }
+];
+
+// What a claim or level-up actually granted, for toasts
+export interface RewardSummary {
+  lustPoints: number;
+  lustGems: number;
+  energy: number;
+  boosts: { id: string; name: string; multiplier: number; expiresAt: string }[];
+  characterUnlocks: { id: string; name: string }[];
+  imageUnlocks: string[];
+  // Rewards that could not be granted (unknown reference, stronger boost already running, ...)
+  skipped: string[];
+}
+
+export function emptyRewardSummary(): RewardSummary {
+  return { lustPoints: 0, lustGems: 0, energy: 0, boosts: [], characterUnlocks: [], imageUnlocks: [], skipped: [] };
+}
+
+export function getRewardTypeInfo(type: string): RewardTypeInfo | undefined {
+  return REWARD_TYPES.find(t => t.type === type);
+}
+
+/**
+ * Reads the reward of a task/achievement from its flat fields
+ */
+export function getRewardSpec(item: any): RewardSpec {
+  const data = item?.rewardData || {};
+  const type = String(item?.rewardType || '') as RewardType;
+  if (type === 'bundle') {
+    return { type, rewards: Array.isArray(data.rewards) ? data.rewards : [] };
+  }
+  return {
+    type,
+    amount: Number(item?.rewardAmount) || 0,
+    ...(data.boostId ? { boostId: data.boostId } : {}),
+    ...(data.characterId ? { characterId: data.characterId } : {}),
+    ...(data.imageId ? { imageId: data.imageId } : {})
+  };
+}
+
+/**
+ * Flat fields to store for a reward. Extra `rewardData` keys (e.g. specialTitle) are kept.
+ */
+export function toRewardFields(spec: RewardSpec, previousData: Record<string, any> = {}) {
+  const { boostId, characterId, imageId, rewards, ...rest } = previousData;
+  const rewardData: Record<string, any> = { ...rest };
+  if (spec.type === 'boost' && spec.boostId) rewardData.boostId = spec.boostId;
+  if (spec.type === 'character' && spec.characterId) rewardData.characterId = spec.characterId;
+  if (spec.type === 'image' && spec.imageId) rewardData.imageId = spec.imageId;
+  if (spec.type === 'bundle') rewardData.rewards = spec.rewards || [];
+  return { rewardType: spec.type, rewardAmount: spec.type === 'bundle' ? 0 : Math.round(spec.amount || 0), rewardData };
+}
+
+export function describeReward(spec: RewardSpec): string {
+  switch (spec.type) {
+    case 'lp': return `+${(spec.amount || 0).toLocaleString()} LP`;
+    case 'lg': return `+${(spec.amount || 0).toLocaleString()} LG`;
+    case 'energy': return spec.amount ? `+${spec.amount.toLocaleString()} Energy` : 'Energy refill';
+    case 'boost': return `Boost: ${spec.boostId || '?'}`;
+    case 'character': return `Character: ${spec.characterId || '?'}`;
+    case 'image': return 'Image unlock';
+    case 'bundle': return (spec.rewards || []).map(describeReward).join(', ') || 'Empty bundle';
+    default: return String(spec.type);
+  }
+}
+
+export function describeRewardSummary(summary: RewardSummary): string {
+  const parts: string[] = [];
+  if (summary.lustPoints) parts.push(`+${summary.lustPoints.toLocaleString()} LP`);
+  if (summary.lustGems) parts.push(`+${summary.lustGems.toLocaleString()} LG`);
+  if (summary.energy) parts.push(`+${summary.energy.toLocaleString()} Energy`);
+  for (const boost of summary.boosts) parts.push(`${boost.name} (${boost.multiplier}x)`);
+  for (const character of summary.characterUnlocks) parts.push(`${character.name} unlocked`);
+  if (summary.imageUnlocks.length) parts.push(`${summary.imageUnlocks.length} image${summary.imageUnlocks.length === 1 ? '' : 's'} unlocked`);
+  return parts.join(', ') || 'Reward claimed';
+}
@@ -1,7 +1,8 @@
-import { sql } from "drizzle-orm";
+import { sql, getTableColumns } from "drizzle-orm";
 import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, real, unique } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { createInsertSchema, createUpdateSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { RewardSpec } from "./rewards";
 
 export const players = pgTable("players", {
   id: varchar("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -76,7 +77,7 @@ export const characters = pgTable("characters", {
 export const levels = pgTable("levels", {
   level: integer("level").primaryKey(),
   cost: integer("cost").notNull().default(100),
-  rewards: jsonb("rewards").notNull().default('{}').$type<{ lustPoints?: number, lustGems?: number, characterUnlocks?: string[], upgradeUnlocks?: string[] }>(),
+  rewards: jsonb("rewards").notNull().default('{}').$type<{ lustPoints?: number, lustGems?: number, characterUnlocks?: string[], upgradeUnlocks?: string[], extraRewards?: RewardSpec[] }>(),
   requirements: jsonb("requirements").notNull().default('[]').$type<{ upgradeId: string; minLevel: number }[]>(),
   unlocks: jsonb("unlocks").notNull().default('[]').$type<string[]>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -207,6 +208,75 @@ export const insertPlayerSchema = createInsertSchema(players).omit({
   lastEnergyUpdate: true,
 });
 
+// Player field policy: the only fields a player may change on their own profile.
+// Everything else on the players table is server-owned (economy, progression, flags).
+export const clientWritablePlayerSchema = createUpdateSchema(players).pick({
+  selectedCharacterId: true,
+  selectedImageId: true,
+  displayImage: true,
+  activeCharacter: true,
+}).extend({
+  selectedAvatarId: z.string().nullable().optional(),
+  nsfwEnabled: z.boolean().optional(),
+  leaderboardOptOut: z.boolean().optional(),
+}).strict();
+
+export const CLIENT_WRITABLE_PLAYER_FIELDS = Object.keys(clientWritablePlayerSchema.shape);
+
+// JSON-only player fields that live in player-state.json but not in the players table
+export const JSON_ONLY_PLAYER_FIELDS = [
+  'energyRegenRate',
+  'lastActiveAt',
+  'lastTapAt',
+  'suspiciousTapBatches',
+  'unlockedImages',
+  'unlockedUpgrades',
+  'activeBoostId',
+  'lastPassiveIncomeAt',
+  'offlineEarnings',
+  'boostEnergy',
+  'isVip',
+  'critChance',
+  'critMultiplier',
+  'totalTapsThisWeek',
+  'lpEarnedThisWeek',
+  'lpEarnedAllTime',
+  'characterTaps',
+  'characterTapsToday',
+  'characterTapsThisWeek',
+  'characterAffection',
+  'chatAffectionToday',
+  'lastChatAt',
+  'giftInventory',
+  'characterGiftBoosts',
+  'gachaBanners',
+  'role',
+] as const;
+
+export const SERVER_ONLY_PLAYER_FIELDS = [
+  ...Object.keys(getTableColumns(players)).filter(key => !CLIENT_WRITABLE_PLAYER_FIELDS.includes(key)),
+  ...JSON_ONLY_PLAYER_FIELDS,
+];
+
+// Admin override: any column except identity/audit timestamps, with dates accepted as ISO strings
+export const adminPlayerUpdateSchema = createUpdateSchema(players).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  selectedAvatarId: z.string().nullable().optional(),
+  energyRegenRate: z.number().optional(),
+  isVip: z.boolean().optional(),
+  nsfwEnabled: z.boolean().optional(),
+  leaderboardOptOut: z.boolean().optional(),
+  boostExpiresAt: z.coerce.date().nullable().optional(),
+  boostEndTime: z.coerce.date().nullable().optional(),
+  lastLogin: z.coerce.date().optional(),
+  lastEnergyUpdate: z.coerce.date().optional(),
+  lastWeeklyReset: z.coerce.date().optional(),
+  lastDailyReset: z.coerce.date().optional(),
+}).strict();
+
 export const insertUpgradeSchema = createInsertSchema(upgrades).omit({
   createdAt: true,
   updatedAt: true,
@@ -274,6 +344,9 @@ export const insertMediaUploadSchema = createInsertSchema(mediaUploads).omit({
 export type Player = typeof players.$inferSelect;
 export type InsertPlayer = z.infer<typeof insertPlayerSchema>;
 
+export type ClientPlayerUpdate = z.infer<typeof clientWritablePlayerSchema>;
+export type AdminPlayerUpdate = z.infer<typeof adminPlayerUpdateSchema>;
+
 export type Upgrade = typeof upgrades.$inferSelect;
 export type InsertUpgrade = z.infer<typeof insertUpgradeSchema>;
 